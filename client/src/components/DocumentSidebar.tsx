@@ -1,10 +1,22 @@
-import { useEffect } from 'react';
+import { useEffect, useState } from 'react';
+import { Document } from '@/types';
 import { useDocumentStore } from '@/hooks/useDocumentStore';
-import { getFileTypeIcon } from '@/lib/utils';
+import { formatBytes, getFileTypeIcon } from '@/lib/utils';
 import { Card, CardContent } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { processFile } from '@/lib/documentProcessing';
+import { getActiveEmbeddingModel, getEmbeddingModels } from '@/lib/embeddingModels';
+import {
+  EmbeddingMigrationStatus,
+  subscribeToEmbeddingMigration,
+  switchEmbeddingModel,
+  switchEmbeddingQuantization,
+} from '@/lib/embeddingMigration';
+import { EMBEDDING_QUANTIZATIONS, getEmbeddingQuantization } from '@/lib/quantization';
+import { getVectorStoreStats, VectorStoreStats } from '@/lib/vectorStore';
+import { deleteDocuments } from '@/lib/documentDeletion';
+import { EmbeddingQuantization } from '@/types';
 
 interface DocumentSidebarProps {
   onUploadClick: () => void;
@@ -18,20 +30,193 @@ export default function DocumentSidebar({ onUploadClick }: DocumentSidebarProps)
     setFilter, 
     clearFilter, 
     stats,
+    duplicateDocumentIds,
     addUploadFile,
     addDocument,
+    updateDocument,
   } = useDocumentStore();
 
-  // Filter documents based on search term
-  const filteredDocuments = documents.filter(doc => {
+  const [expandedIds, setExpandedIds] = useState<string[]>([]);
+  const [embeddingModel, setEmbeddingModel] = useState(getActiveEmbeddingModel().id);
+  const [migration, setMigration] = useState<EmbeddingMigrationStatus | null>(null);
+  const [quantization, setQuantization] = useState(getEmbeddingQuantization());
+  const [vectorStats, setVectorStats] = useState<VectorStoreStats>(getVectorStoreStats());
+  // Documents ticked for bulk delete, while selecting
+  const [selecting, setSelecting] = useState(false);
+  const [checkedIds, setCheckedIds] = useState<string[]>([]);
+  const [deleting, setDeleting] = useState(false);
+
+  // The chosen model is loaded from storage after the sidebar first renders
+  useEffect(() => subscribeToEmbeddingMigration((status) => {
+    setMigration(status);
+    setEmbeddingModel(getActiveEmbeddingModel().id);
+    setQuantization(getEmbeddingQuantization());
+  }), []);
+
+  // Embeddings change as documents are indexed and chunks re-embedded
+  useEffect(() => {
+    setVectorStats(getVectorStoreStats());
+  }, [documents, migration, quantization]);
+
+  const changeEmbeddingModel = async (id: string) => {
+    setEmbeddingModel(id);
+    try {
+      await switchEmbeddingModel(id);
+    } catch (error) {
+      console.error('Failed to switch embedding model:', error);
+    }
+  };
+
+  const changeQuantization = async (next: EmbeddingQuantization) => {
+    setQuantization(next);
+    try {
+      await switchEmbeddingQuantization(next);
+    } catch (error) {
+      console.error('Failed to switch embedding quantization:', error);
+    }
+    setVectorStats(getVectorStoreStats());
+  };
+
+  // Documents extracted from an archive are listed under it
+  const documentIds = new Set(documents.map(doc => doc.id));
+  const childrenByParent = new Map<string, Document[]>();
+  for (const doc of documents) {
+    if (doc.parentId && documentIds.has(doc.parentId)) {
+      childrenByParent.set(doc.parentId, [...(childrenByParent.get(doc.parentId) || []), doc]);
+    }
+  }
+  const topLevelDocuments = documents.filter(doc => !doc.parentId || !documentIds.has(doc.parentId));
+
+  // Filter documents based on search term; an archive stays listed while
+  // any file inside it matches
+  const matchesFilter = (doc: Document): boolean => {
     if (!filter) return true;
     
     const searchTerm = filter.toLowerCase();
     return (
       doc.name.toLowerCase().includes(searchTerm) ||
-      doc.type.toLowerCase().includes(searchTerm)
+      doc.type.toLowerCase().includes(searchTerm) ||
+      (childrenByParent.get(doc.id) || []).some(matchesFilter)
+    );
+  };
+  const filteredDocuments = topLevelDocuments.filter(matchesFilter);
+
+  const toggleExpanded = (id: string) => {
+    setExpandedIds(ids => ids.includes(id) ? ids.filter(item => item !== id) : [...ids, id]);
+  };
+
+  const toggleChecked = (id: string) => {
+    setCheckedIds(ids => ids.includes(id) ? ids.filter(item => item !== id) : [...ids, id]);
+  };
+
+  const stopSelecting = () => {
+    setSelecting(false);
+    setCheckedIds([]);
+  };
+
+  // Deleting an archive deletes the files extracted from it too
+  const removeDocuments = async (ids: string[]) => {
+    const names = documents.filter(doc => ids.includes(doc.id)).map(doc => doc.name);
+    const extracted = documents.filter(doc => doc.parentId && ids.includes(doc.parentId) && !ids.includes(doc.id)).length;
+    const message = names.length === 1
+      ? `Delete ${names[0]}${extracted > 0 ? ` and the ${extracted} files extracted from it` : ''}?`
+      : `Delete ${names.length} documents${extracted > 0 ? ` and ${extracted} files extracted from them` : ''}?`;
+    if (names.length === 0 || !window.confirm(message)) return;
+
+    setDeleting(true);
+    try {
+      const { failed } = await deleteDocuments(ids);
+      if (failed.length > 0) {
+        alert(`Could not delete ${failed.map(item => item.name).join(', ')}:\n${failed.map(item => item.error).join('\n')}`);
+      }
+    } finally {
+      setDeleting(false);
+      stopSelecting();
+    }
+  };
+
+  const renderDocument = (doc: Document, depth = 0) => {
+    const children = (childrenByParent.get(doc.id) || []).filter(matchesFilter);
+    // Groups open by themselves while filtering, so matches inside are visible
+    const expanded = children.length > 0 && (!!filter || expandedIds.includes(doc.id));
+
+    return (
+      <li key={doc.id}>
+        <div
+          onClick={() => selecting ? toggleChecked(doc.id) : selectDocument(doc.id)}
+          className="group p-2 hover:bg-neutral-100 rounded cursor-pointer transition-colors flex items-start gap-2"
+          style={depth > 0 ? { paddingLeft: `${0.5 + depth * 1.25}rem` } : undefined}
+          title={doc.archivePath}
+        >
+          {selecting && (
+            <input
+              type="checkbox"
+              checked={checkedIds.includes(doc.id)}
+              onChange={() => toggleChecked(doc.id)}
+              onClick={(e) => e.stopPropagation()}
+              aria-label={`Select ${doc.name}`}
+              className="mt-1"
+            />
+          )}
+          {childrenByParent.has(doc.id) && (
+            <button
+              onClick={(e) => {
+                e.stopPropagation();
+                toggleExpanded(doc.id);
+              }}
+              aria-label={expanded ? 'Collapse' : 'Expand'}
+              aria-expanded={expanded}
+              className="material-icons text-neutral-400 hover:text-neutral-600 text-base mt-0.5 -mr-1"
+            >
+              {expanded ? 'expand_more' : 'chevron_right'}
+            </button>
+          )}
+          <span className="material-icons text-neutral-500 mt-0.5">
+            {getFileTypeIcon(doc.type)}
+          </span>
+          <div className="flex-1 min-w-0">
+            <p className="font-medium text-sm truncate">{doc.name}</p>
+            <div className="flex items-center text-xs text-neutral-500">
+              <span>{doc.type.toUpperCase()}</span>
+              <span className="mx-1">•</span>
+              <span>{doc.sizeFormatted}</span>
+              {childrenByParent.has(doc.id) && (
+                <>
+                  <span className="mx-1">•</span>
+                  <span>{childrenByParent.get(doc.id)!.length} files</span>
+                </>
+              )}
+            </div>
+            {duplicateDocumentIds.includes(doc.id) && (
+              <p className="text-xs text-amber-600 flex items-center gap-1 mt-0.5">
+                <span className="material-icons text-xs">content_copy</span>
+                Already indexed
+              </p>
+            )}
+          </div>
+          {!selecting && (
+            <button
+              onClick={(e) => {
+                e.stopPropagation();
+                removeDocuments([doc.id]);
+              }}
+              disabled={deleting}
+              aria-label={`Delete ${doc.name}`}
+              title="Delete"
+              className="material-icons text-neutral-400 hover:text-red-600 text-base mt-0.5 invisible group-hover:visible"
+            >
+              delete
+            </button>
+          )}
+        </div>
+        {expanded && (
+          <ul className="space-y-1">
+            {children.map(child => renderDocument(child, depth + 1))}
+          </ul>
+        )}
+      </li>
     );
-  });
+  };
 
   // Connect to Google Drive
   const handleConnectGoogleDrive = async () => {
@@ -103,10 +288,14 @@ export default function DocumentSidebar({ onUploadClick }: DocumentSidebarProps)
         const fileBlob = new Blob([file.content], { type: file.type });
         const convertedFile = new File([fileBlob], file.name, { type: file.type, lastModified: Date.now() });
         const id = addUploadFile(convertedFile);
-        const document = await processFile(convertedFile, (progress) => {
+        const { document, status } = await processFile(convertedFile, (progress) => {
           console.log(`Processing ${file.name}: ${progress}%`);
         });
-        addDocument(document);
+        if (status === 'updated') {
+          updateDocument(document.id, document);
+        } else if (status === 'indexed') {
+          addDocument(document);
+        }
         console.log(`Added document: ${file.name}`); 
       }
       console.log('All files have been added to the document store.');
@@ -120,7 +309,17 @@ export default function DocumentSidebar({ onUploadClick }: DocumentSidebarProps)
   return (
     <aside className="w-64 bg-white border-r border-neutral-200 flex flex-col h-full transition-all duration-300 ease-in-out">
       <div className="p-4 flex flex-col h-full">
-        <h2 className="text-lg font-medium mb-4">Documents</h2>
+        <div className="flex items-center justify-between mb-4">
+          <h2 className="text-lg font-medium">Documents</h2>
+          {documents.length > 0 && (
+            <button
+              onClick={() => selecting ? stopSelecting() : setSelecting(true)}
+              className="text-xs text-primary-600 hover:text-primary-800"
+            >
+              {selecting ? 'Cancel' : 'Select'}
+            </button>
+          )}
+        </div>
         
         {/* Upload Buttons */}
         <div className="flex flex-col gap-2 mb-6">
@@ -167,6 +366,20 @@ export default function DocumentSidebar({ onUploadClick }: DocumentSidebarProps)
           </div>
         </div>
         
+        {selecting && (
+          <div className="flex items-center justify-between mb-2 text-xs">
+            <span className="text-neutral-600">{checkedIds.length} selected</span>
+            <button
+              onClick={() => removeDocuments(checkedIds)}
+              disabled={checkedIds.length === 0 || deleting}
+              className="flex items-center gap-1 text-red-600 hover:text-red-800 disabled:text-neutral-400"
+            >
+              <span className="material-icons text-sm">delete</span>
+              {deleting ? 'Deleting...' : 'Delete selected'}
+            </button>
+          </div>
+        )}
+
         {/* Document List */}
         <div className="flex-1 overflow-y-auto">
           {documents.length === 0 ? (
@@ -177,25 +390,7 @@ export default function DocumentSidebar({ onUploadClick }: DocumentSidebarProps)
             </div>
           ) : (
             <ul className="space-y-1">
-              {filteredDocuments.map((doc) => (
-                <li 
-                  key={doc.id}
-                  onClick={() => selectDocument(doc.id)}
-                  className="p-2 hover:bg-neutral-100 rounded cursor-pointer transition-colors flex items-start gap-2"
-                >
-                  <span className="material-icons text-neutral-500 mt-0.5">
-                    {getFileTypeIcon(doc.type)}
-                  </span>
-                  <div className="flex-1 min-w-0">
-                    <p className="font-medium text-sm truncate">{doc.name}</p>
-                    <div className="flex items-center text-xs text-neutral-500">
-                      <span>{doc.type.toUpperCase()}</span>
-                      <span className="mx-1">•</span>
-                      <span>{doc.sizeFormatted}</span>
-                    </div>
-                  </div>
-                </li>
-              ))}
+              {filteredDocuments.map(doc => renderDocument(doc))}
             </ul>
           )}
         </div>
@@ -210,7 +405,7 @@ export default function DocumentSidebar({ onUploadClick }: DocumentSidebarProps)
             <span>Storage Used:</span>
             <span>{stats.storageUsedFormatted}</span>
           </div>
-          <div className="flex justify-between">
+          <div className="flex justify-between mb-1">
             <span>Last Indexed:</span>
             <span>
               {stats.lastIndexed 
@@ -225,6 +420,61 @@ export default function DocumentSidebar({ onUploadClick }: DocumentSidebarProps)
               }
             </span>
           </div>
+          <div className="flex justify-between items-center gap-2">
+            <label htmlFor="embedding-model">Embedding Model:</label>
+            <select
+              id="embedding-model"
+              value={embeddingModel}
+              onChange={(e) => changeEmbeddingModel(e.target.value)}
+              className="min-w-0 flex-1 px-1 py-0.5 border border-neutral-300 rounded bg-white text-xs outline-none focus:ring-2 focus:ring-primary-500"
+            >
+              {getEmbeddingModels().map(model => (
+                <option key={model.id} value={model.id}>
+                  {model.label}
+                </option>
+              ))}
+            </select>
+          </div>
+          {migration?.running && (
+            <p className="mt-1">
+              Re-embedding chunks: {migration.processed} of {migration.total}
+            </p>
+          )}
+          {migration?.error && (
+            <p className="mt-1 text-red-600 truncate" title={migration.error}>
+              Re-embedding failed: {migration.error}
+            </p>
+          )}
+          <div className="flex justify-between items-center gap-2 mt-1">
+            <label htmlFor="embedding-quantization">Embedding Storage:</label>
+            <select
+              id="embedding-quantization"
+              value={quantization}
+              onChange={(e) => changeQuantization(e.target.value as EmbeddingQuantization)}
+              className="min-w-0 flex-1 px-1 py-0.5 border border-neutral-300 rounded bg-white text-xs outline-none focus:ring-2 focus:ring-primary-500"
+            >
+              {EMBEDDING_QUANTIZATIONS.map(option => (
+                <option key={option.id} value={option.id}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div className="flex justify-between mt-1">
+            <span>Embeddings:</span>
+            <span title={`${formatBytes(vectorStats.float32Bytes)} as float32`}>
+              {formatBytes(vectorStats.storedBytes)}
+              {vectorStats.storedBytes > 0 && vectorStats.storedBytes < vectorStats.float32Bytes && (
+                <> ({Math.round((1 - vectorStats.storedBytes / vectorStats.float32Bytes) * 100)}% saved)</>
+              )}
+            </span>
+          </div>
+          <div className="flex justify-between mt-1">
+            <span>Search Recall@10:</span>
+            <span title="Estimated on a sample of indexed embeddings">
+              {vectorStats.recall === null ? 'Not measured yet' : `${Math.round(vectorStats.recall * 100)}%`}
+            </span>
+          </div>
         </div>
       </div>
     </aside>
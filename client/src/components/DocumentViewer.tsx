@@ -1,13 +1,92 @@
+import { ChangeEvent, useEffect, useRef, useState } from 'react';
 import { useDocumentStore } from '@/hooks/useDocumentStore';
-import { getFileTypeIcon, highlightText } from '@/lib/utils';
+import { getConversation, getFileTypeIcon, highlightText } from '@/lib/utils';
 import { useSearchStore } from '@/hooks/useSearchStore';
+import { SUPPORTED_ENCODINGS } from '@/lib/encoding';
+import { reprocessWithEncoding, uploadNewVersion } from '@/lib/ingestion';
+import { getDocumentVersions } from '@/lib/storage';
+import { diffParagraphs } from '@/lib/diff';
+import { deleteDocuments } from '@/lib/documentDeletion';
+import { DocumentVersion } from '@/types';
+
+const EMAIL_HEADERS = [
+  { key: 'from', label: 'From' },
+  { key: 'to', label: 'To' },
+  { key: 'cc', label: 'Cc' },
+  { key: 'subject', label: 'Subject' },
+];
+
+const formatEmailDate = (date?: string) =>
+  date
+    ? new Date(date).toLocaleString(undefined, {
+        hour: 'numeric',
+        minute: '2-digit',
+        month: 'short',
+        day: 'numeric',
+        year: 'numeric',
+      })
+    : '';
+
+const DIFF_STYLES = {
+  unchanged: 'text-neutral-700',
+  added: 'bg-green-50 border-l-4 border-green-400 pl-3 text-green-900',
+  removed: 'bg-red-50 border-l-4 border-red-400 pl-3 text-red-900 line-through',
+};
+
+const ENCODING_SOURCES = {
+  bom: 'from byte order mark',
+  detected: 'detected',
+  override: 'chosen manually',
+};
 
 export default function DocumentViewer() {
-  const { selectedDocument, selectDocument } = useDocumentStore();
+  const { documents, selectedDocument, selectDocument } = useDocumentStore();
   const { searchQuery } = useSearchStore();
+  const [encoding, setEncoding] = useState('');
+  const [encodingError, setEncodingError] = useState('');
+  const [versions, setVersions] = useState<DocumentVersion[]>([]);
+  const [compare, setCompare] = useState<{ from: number; to: number } | null>(null);
+  const [versionError, setVersionError] = useState('');
+  const versionInput = useRef<HTMLInputElement>(null);
+  
+  // Start from the document's own encoding whenever another one is opened
+  useEffect(() => {
+    setEncoding(selectedDocument?.metadata.encoding || '');
+    setEncodingError('');
+  }, [selectedDocument?.id, selectedDocument?.metadata.encoding]);
+  
+  // Load the earlier versions, again when a new version comes in
+  useEffect(() => {
+    setCompare(null);
+    setVersionError('');
+    setVersions([]);
+    if (!selectedDocument) return;
+    
+    let cancelled = false;
+    getDocumentVersions(selectedDocument.id)
+      .then(result => {
+        if (!cancelled) setVersions(result);
+      })
+      .catch(error => console.error('Failed to load document versions:', error));
+    
+    return () => {
+      cancelled = true;
+    };
+  }, [selectedDocument?.id, selectedDocument?.version]);
   
   if (!selectedDocument) return null;
   
+  const currentVersion = selectedDocument.version || 1;
+  
+  const versionText = (version: number) =>
+    version === currentVersion
+      ? selectedDocument.content.fullText
+      : versions.find(v => v.version === version)?.fullText || '';
+  
+  const conversation = selectedDocument.type === 'eml'
+    ? getConversation(documents, selectedDocument)
+    : [];
+  
   const closeDocument = () => {
     selectDocument(null);
   };
@@ -17,10 +96,74 @@ export default function DocumentViewer() {
     alert('Download functionality will be implemented soon!');
   };
   
+  // The viewer closes once the document is gone from the list
+  const removeDocument = async () => {
+    const extracted = documents.filter(doc => doc.parentId === selectedDocument.id).length;
+    const message = `Delete ${selectedDocument.name}${extracted > 0 ? ` and the ${extracted} files extracted from it` : ''}?`;
+    if (!window.confirm(message)) return;
+    
+    const { failed } = await deleteDocuments([selectedDocument.id]);
+    if (failed.length > 0) {
+      alert(`Could not delete ${selectedDocument.name}: ${failed[0].error}`);
+    }
+  };
+  
+  const reprocess = async () => {
+    try {
+      setEncodingError('');
+      await reprocessWithEncoding(selectedDocument.id, encoding);
+    } catch (error) {
+      setEncodingError((error as Error).message);
+    }
+  };
+  
+  const chooseNewVersion = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    
+    try {
+      setVersionError('');
+      await uploadNewVersion(selectedDocument.id, file);
+    } catch (error) {
+      setVersionError((error as Error).message);
+    }
+  };
+  
+  // Compare the latest version with the one before it
+  const toggleCompare = () => {
+    setCompare(compare ? null : { from: currentVersion - 1, to: currentVersion });
+  };
+  
+  const renderDiff = (from: number, to: number) => {
+    const changes = diffParagraphs(versionText(from), versionText(to));
+    
+    if (!changes.some(change => change.type !== 'unchanged')) {
+      return <p className="text-neutral-500">The text of these versions is the same.</p>;
+    }
+    
+    return (
+      <div className="space-y-3">
+        {changes.map((change, index) => (
+          <p key={index} className={DIFF_STYLES[change.type]}>
+            {change.type !== 'unchanged' && (
+              <span className="sr-only">{change.type === 'added' ? 'Added: ' : 'Removed: '}</span>
+            )}
+            {change.text}
+          </p>
+        ))}
+      </div>
+    );
+  };
+  
   // Prepare document content with highlights if search query exists
   const renderDocumentContent = () => {
     if (!selectedDocument) return null;
     
+    if (compare) {
+      return renderDiff(compare.from, compare.to);
+    }
+    
     let content = selectedDocument.content.fullText;
     
     // Add highlights for search terms if search query exists
@@ -44,12 +187,32 @@ export default function DocumentViewer() {
           <h3 className="font-medium truncate">{selectedDocument.name}</h3>
         </div>
         <div className="flex items-center">
+          <input
+            ref={versionInput}
+            type="file"
+            className="hidden"
+            onChange={chooseNewVersion}
+          />
+          <button 
+            onClick={() => versionInput.current?.click()}
+            title="Upload new version"
+            className="p-2 rounded-full hover:bg-neutral-100"
+          >
+            <span className="material-icons">upload_file</span>
+          </button>
           <button 
             onClick={downloadDocument}
             className="p-2 rounded-full hover:bg-neutral-100"
           >
             <span className="material-icons">file_download</span>
           </button>
+          <button 
+            onClick={removeDocument}
+            title="Delete document"
+            className="p-2 rounded-full hover:bg-neutral-100 hover:text-red-600"
+          >
+            <span className="material-icons">delete</span>
+          </button>
           <button 
             onClick={closeDocument}
             className="p-2 rounded-full hover:bg-neutral-100"
@@ -61,6 +224,56 @@ export default function DocumentViewer() {
       <div className="flex-1 overflow-y-auto p-4">
         <div className="bg-white border border-neutral-200 rounded-lg">
           <div className="p-6">
+            {(versions.length > 0 || versionError) && (
+              <div className="mb-4 text-sm text-neutral-500">
+                {versions.length > 0 && (
+                  <div className="flex items-center">
+                    <span className="material-icons text-sm mr-2">history</span>
+                    <span>Version {currentVersion} • {versions.length} earlier</span>
+                    <button
+                      onClick={toggleCompare}
+                      className="ml-auto px-2 py-1 border border-neutral-300 rounded text-xs hover:bg-neutral-50"
+                    >
+                      {compare ? 'Show document' : 'Compare versions'}
+                    </button>
+                  </div>
+                )}
+                {compare && (
+                  <div className="flex items-center gap-2 mt-2 text-xs">
+                    <select
+                      aria-label="Compare from version"
+                      value={compare.from}
+                      onChange={(e) => setCompare({ ...compare, from: Number(e.target.value) })}
+                      className="px-2 py-1 border border-neutral-300 rounded outline-none focus:ring-2 focus:ring-primary-500"
+                    >
+                      {versions.map(version => (
+                        <option key={version.version} value={version.version}>
+                          Version {version.version} ({new Date(version.indexedAt).toLocaleDateString()})
+                        </option>
+                      ))}
+                    </select>
+                    <span>to</span>
+                    <select
+                      aria-label="Compare to version"
+                      value={compare.to}
+                      onChange={(e) => setCompare({ ...compare, to: Number(e.target.value) })}
+                      className="px-2 py-1 border border-neutral-300 rounded outline-none focus:ring-2 focus:ring-primary-500"
+                    >
+                      {versions.map(version => (
+                        <option key={version.version} value={version.version}>
+                          Version {version.version} ({new Date(version.indexedAt).toLocaleDateString()})
+                        </option>
+                      ))}
+                      <option value={currentVersion}>Version {currentVersion} (current)</option>
+                    </select>
+                  </div>
+                )}
+                {versionError && (
+                  <p className="text-xs text-red-600 mt-1">{versionError}</p>
+                )}
+              </div>
+            )}
+            
             {selectedDocument.type === 'pdf' && (
               <div className="mb-4 text-sm text-neutral-500">
                 <div className="flex items-center">
@@ -86,6 +299,115 @@ export default function DocumentViewer() {
               </div>
             )}
             
+            {selectedDocument.type === 'pptx' && selectedDocument.metadata.slides && (
+              <div className="mb-4">
+                <h3 className="text-sm font-medium mb-2">
+                  Slides ({selectedDocument.metadata.slideCount}):
+                </h3>
+                <ol className="space-y-1 text-sm text-neutral-600">
+                  {selectedDocument.metadata.slides.map((slide: { slideNumber: number; title: string }) => (
+                    <li key={slide.slideNumber} className="flex gap-2">
+                      <span className="text-xs bg-neutral-100 px-2 py-0.5 rounded">
+                        {slide.slideNumber}
+                      </span>
+                      <span className="truncate">{slide.title || 'Untitled slide'}</span>
+                    </li>
+                  ))}
+                </ol>
+              </div>
+            )}
+            
+            {selectedDocument.type === 'eml' && (
+              <div className="mb-4 text-sm">
+                <dl className="grid grid-cols-[auto_1fr] gap-x-3 gap-y-1 text-neutral-600">
+                  {EMAIL_HEADERS.map(({ key, label }) => {
+                    const value = selectedDocument.metadata[key];
+                    if (!value || value.length === 0) return null;
+                    return (
+                      <div key={key} className="contents">
+                        <dt className="font-medium text-neutral-700">{label}:</dt>
+                        <dd className="truncate">{Array.isArray(value) ? value.join(', ') : value}</dd>
+                      </div>
+                    );
+                  })}
+                  {selectedDocument.metadata.date && (
+                    <>
+                      <dt className="font-medium text-neutral-700">Date:</dt>
+                      <dd>{formatEmailDate(selectedDocument.metadata.date)}</dd>
+                    </>
+                  )}
+                </dl>
+                
+                {conversation.length > 1 && (
+                  <div className="mt-4">
+                    <h3 className="text-sm font-medium mb-2">
+                      Conversation ({conversation.length} messages):
+                    </h3>
+                    <ol className="space-y-1 text-neutral-600">
+                      {conversation.map(message => (
+                        <li key={message.id}>
+                          <button
+                            onClick={() => selectDocument(message.id)}
+                            className={`w-full flex gap-2 text-left ${
+                              message.id === selectedDocument.id
+                                ? 'font-medium text-neutral-800'
+                                : 'hover:text-primary-600'
+                            }`}
+                          >
+                            <span className="text-xs bg-neutral-100 px-2 py-0.5 rounded shrink-0">
+                              {formatEmailDate(message.metadata.date) || 'Undated'}
+                            </span>
+                            <span className="truncate">{message.metadata.from || message.name}</span>
+                          </button>
+                        </li>
+                      ))}
+                    </ol>
+                  </div>
+                )}
+              </div>
+            )}
+            
+            {selectedDocument.metadata.encoding && (
+              <div className="mb-4 text-sm text-neutral-500">
+                <div className="flex items-center">
+                  <span className="material-icons text-sm mr-2">translate</span>
+                  <span>
+                    Encoding: {SUPPORTED_ENCODINGS.find(e => e.id === selectedDocument.metadata.encoding)?.label
+                      || selectedDocument.metadata.encoding}
+                    {selectedDocument.metadata.encodingSource && (
+                      <> ({ENCODING_SOURCES[selectedDocument.metadata.encodingSource]}
+                        {selectedDocument.metadata.encodingSource === 'detected' &&
+                          `, ${Math.round((selectedDocument.metadata.encodingConfidence || 0) * 100)}% confident`})</>
+                    )}
+                  </span>
+                </div>
+                <div className="flex items-center gap-2 mt-2">
+                  <select
+                    aria-label="Encoding"
+                    value={encoding}
+                    onChange={(e) => setEncoding(e.target.value)}
+                    className="px-2 py-1 border border-neutral-300 rounded text-xs outline-none focus:ring-2 focus:ring-primary-500"
+                  >
+                    {SUPPORTED_ENCODINGS.map(option => (
+                      <option key={option.id} value={option.id}>
+                        {option.label}
+                      </option>
+                    ))}
+                  </select>
+                  <button
+                    onClick={reprocess}
+                    disabled={encoding === selectedDocument.metadata.encoding}
+                    className="px-2 py-1 border border-neutral-300 rounded text-xs hover:bg-neutral-50 disabled:opacity-50"
+                  >
+                    Re-process
+                  </button>
+                </div>
+                {encodingError && (
+                  <p className="text-xs text-red-600 mt-1">{encodingError}</p>
+                )}
+              </div>
+            )}
+            
             <div className="prose prose-sm max-w-none">
               {renderDocumentContent()}
             </div>
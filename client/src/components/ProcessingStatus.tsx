@@ -1,5 +1,7 @@
 import { useEffect } from 'react';
 import { useDocumentStore } from '@/hooks/useDocumentStore';
+import { ingestionQueue } from '@/lib/ingestion';
+import { IngestionStatus } from '@/types';
 import { Button } from '@/components/ui/button';
 import { Progress } from '@/components/ui/progress';
 
@@ -7,20 +9,49 @@ interface ProcessingStatusProps {
   onClose: () => void;
 }
 
+const STATUS_LABELS: Record<IngestionStatus, string> = {
+  queued: 'Queued',
+  running: 'Processing',
+  paused: 'Paused',
+  complete: 'Done',
+  duplicate: 'Already indexed',
+  failed: 'Failed',
+  cancelled: 'Cancelled',
+};
+
+const STATUS_COLORS: Partial<Record<IngestionStatus, string>> = {
+  complete: 'text-green-600',
+  duplicate: 'text-amber-600',
+  failed: 'text-red-600',
+  cancelled: 'text-neutral-400',
+};
+
 export default function ProcessingStatus({ onClose }: ProcessingStatusProps) {
   const { processingStatus } = useDocumentStore();
-  
-  // Handle completion with a slight delay for better UX
+  const hasFailures = processingStatus.files.some(file => file.status === 'failed');
+
+  // Handle completion with a slight delay for better UX; failures stay visible
   useEffect(() => {
-    if (processingStatus.overall === 100) {
+    if (processingStatus.overall === 100 && !hasFailures) {
       const timer = setTimeout(() => {
         onClose();
       }, 2000);
-      
+
       return () => clearTimeout(timer);
     }
-  }, [processingStatus.overall, onClose]);
-  
+  }, [processingStatus.overall, hasFailures, onClose]);
+
+  const actionButton = (icon: string, label: string, onClick: () => void) => (
+    <button
+      onClick={onClick}
+      title={label}
+      aria-label={label}
+      className="p-0.5 rounded hover:bg-neutral-100 text-neutral-500"
+    >
+      <span className="material-icons text-sm">{icon}</span>
+    </button>
+  );
+
   return (
     <div className="fixed bottom-0 right-0 m-4 bg-white rounded-lg shadow-lg max-w-xs w-full overflow-hidden z-50">
       <div className="p-3 bg-primary-600 text-white flex justify-between items-center">
@@ -28,9 +59,9 @@ export default function ProcessingStatus({ onClose }: ProcessingStatusProps) {
           <span className="material-icons mr-2">hourglass_top</span>
           <span className="font-medium">Processing Documents</span>
         </div>
-        <Button 
-          variant="ghost" 
-          size="sm" 
+        <Button
+          variant="ghost"
+          size="sm"
           onClick={onClose}
           className="p-1 rounded-full hover:bg-primary-500 h-auto text-white"
         >
@@ -45,21 +76,51 @@ export default function ProcessingStatus({ onClose }: ProcessingStatusProps) {
           </div>
           <Progress value={processingStatus.overall} className="h-2 bg-neutral-200" />
         </div>
-        
-        <div className="space-y-3">
-          {processingStatus.files.map(file => (
-            <div key={file.id}>
-              <div className="flex justify-between text-xs mb-1">
-                <span className="truncate flex-1 font-medium">{file.name}</span>
-                <span>{file.progress}%</span>
+
+        <div className="space-y-3 max-h-64 overflow-y-auto">
+          {processingStatus.files.map(file => {
+            const status = file.status || 'running';
+
+            return (
+              <div key={file.id}>
+                <div className="flex items-center justify-between text-xs mb-1 gap-2">
+                  <span className="truncate flex-1 font-medium">{file.name}</span>
+                  <span className={STATUS_COLORS[status] || 'text-neutral-500'}>
+                    {status === 'running' ? `${file.progress}%` : STATUS_LABELS[status]}
+                  </span>
+                  <div className="flex items-center">
+                    {(status === 'queued' || status === 'running') &&
+                      actionButton('pause', 'Pause', () => ingestionQueue.pause(file.id))}
+                    {status === 'paused' &&
+                      actionButton('play_arrow', 'Resume', () => ingestionQueue.resume(file.id))}
+                    {(status === 'failed' || status === 'cancelled') &&
+                      actionButton('refresh', 'Retry', () => ingestionQueue.retry(file.id))}
+                    {(status === 'queued' || status === 'running' || status === 'paused') &&
+                      actionButton('close', 'Cancel', () => ingestionQueue.cancel(file.id))}
+                  </div>
+                </div>
+                <Progress
+                  value={file.progress}
+                  className="h-1.5 bg-neutral-200"
+                  indicatorClassName={
+                    status === 'failed'
+                      ? "bg-red-500"
+                      : file.progress === 100 ? "bg-green-500" : undefined
+                  }
+                />
+                {status === 'running' && file.chunks && (
+                  <p className="text-xs text-neutral-500 mt-1">
+                    Embedding chunks: {file.chunks.processed} of {file.chunks.total}
+                  </p>
+                )}
+                {file.error && (
+                  <p className="text-xs text-red-600 mt-1 truncate" title={file.error}>
+                    {file.error}
+                  </p>
+                )}
               </div>
-              <Progress 
-                value={file.progress} 
-                className="h-1.5 bg-neutral-200" 
-                indicatorClassName={file.progress === 100 ? "bg-green-500" : undefined}
-              />
-            </div>
-          ))}
+            );
+          })}
         </div>
       </div>
       <div className="px-4 pb-3 text-xs text-neutral-500">
@@ -6,6 +6,7 @@ import { useSearchStore } from '@/hooks/useSearchStore';
 import * as langGraph from '@/lib/langGraph';
 import * as duckdb from '@/lib/duckdb';
 import * as storage from '@/lib/storage';
+import { DEFAULT_DIVERSITY } from '@/lib/diversification';
 
 // Mock the dependencies
 vi.mock('@/lib/langGraph', () => ({
@@ -30,6 +31,8 @@ describe('SearchBar', () => {
     useSearchStore.setState({
       searchQuery: '',
       language: 'all',
+      filters: {},
+      diversity: DEFAULT_DIVERSITY,
       results: [],
       isLoading: false,
       hasResults: false,
@@ -137,7 +140,7 @@ describe('SearchBar', () => {
     
     // Wait for the search to complete
     await waitFor(() => {
-      expect(langGraph.executeSearchGraph).toHaveBeenCalledWith('test query');
+      expect(langGraph.executeSearchGraph).toHaveBeenCalledWith('test query', {}, DEFAULT_DIVERSITY);
       expect(duckdb.logSearch).toHaveBeenCalled();
       expect(storage.getDocumentById).toHaveBeenCalledWith('doc-1');
       expect(useSearchStore.getState().isLoading).toBe(false);
@@ -145,6 +148,32 @@ describe('SearchBar', () => {
     });
   });
 
+  it('searches with the advanced search filters and diversity', async () => {
+    vi.mocked(langGraph.executeSearchGraph).mockResolvedValue([]);
+    useSearchStore.setState({ searchQuery: 'lease terms' });
+    
+    render(<SearchBar />);
+    
+    await userEvent.click(screen.getByText('Advanced Search'));
+    await userEvent.click(screen.getByLabelText('Google Drive'));
+    await userEvent.type(screen.getByLabelText('Tags:'), 'contracts, 2024');
+    await userEvent.tab();
+    await userEvent.selectOptions(screen.getByLabelText('Diversity:'), 'per-document');
+    
+    fireEvent.keyDown(
+      screen.getByPlaceholderText('Search your documents in English, Hindi, or Hinglish...'),
+      { key: 'Enter' }
+    );
+    
+    await waitFor(() => {
+      expect(langGraph.executeSearchGraph).toHaveBeenCalledWith('lease terms', {
+        sources: ['google_drive'],
+        tags: ['contracts', '2024'],
+      }, { ...DEFAULT_DIVERSITY, mode: 'per-document' });
+    });
+    expect(screen.getByText('(filtered)')).toBeInTheDocument();
+  });
+
   it('handles empty search query', async () => {
     useSearchStore.setState({ searchQuery: '' });
     
@@ -5,6 +5,8 @@ import { executeSearchGraph } from "@/lib/langGraph";
 import { logSearch } from "@/lib/duckdb";
 import { getAllDocuments, getDocumentById } from "@/lib/storage";
 import { extractContextAroundMatch, highlightText } from "@/lib/utils";
+import { hasFilters } from "@/lib/searchFilters";
+import SearchFiltersPanel from "@/components/SearchFiltersPanel";
 
 export default function SearchBar() {
   const {
@@ -16,7 +18,10 @@ export default function SearchBar() {
     setResults,
     setLoading,
     setSummaryAnswer,
+    filters,
+    diversity,
   } = useSearchStore();
+  const [showFilters, setShowFilters] = useState(false);
 
   const languages = [
     { id: "all", label: "All Languages" },
@@ -32,7 +37,7 @@ export default function SearchBar() {
       setLoading(true);
 
       // Execute search
-      const searchResults = await executeSearchGraph(searchQuery);
+      const searchResults = await executeSearchGraph(searchQuery, filters, diversity);
 
       // Log search
       await logSearch(searchQuery, language, searchResults.length);
@@ -88,6 +93,11 @@ export default function SearchBar() {
           documentId: topResult.documentId,
           documentName: topResult.documentName,
           section: topResult.metadata.section || "",
+          pageNumber: topResult.metadata.pageNumber,
+          pageEnd: topResult.metadata.pageEnd,
+          sheetName: topResult.metadata.sheetName,
+          rowStart: topResult.metadata.rowStart,
+          rowEnd: topResult.metadata.rowEnd,
         });
       } else {
         setSummaryAnswer(null);
@@ -152,11 +162,16 @@ export default function SearchBar() {
             </button>
           ))}
           <div className="flex-1"></div>
-          <button className="text-xs py-1 px-2 text-primary-600 hover:text-primary-800 transition-colors flex items-center">
+          <button
+            onClick={() => setShowFilters(!showFilters)}
+            className="text-xs py-1 px-2 text-primary-600 hover:text-primary-800 transition-colors flex items-center"
+          >
             <span>Advanced Search</span>
+            {hasFilters(filters) && <span className="ml-1">(filtered)</span>}
             <span className="material-icons text-sm ml-1">tune</span>
           </button>
         </div>
+        {showFilters && <SearchFiltersPanel />}
       </div>
     </div>
   );
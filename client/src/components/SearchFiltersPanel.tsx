@@ -0,0 +1,200 @@
+import { DiversityMode, Document, SearchFilters } from "@/types";
+import { useSearchStore } from "@/hooks/useSearchStore";
+import { useDocumentStore } from "@/hooks/useDocumentStore";
+import { hasFilters } from "@/lib/searchFilters";
+import { DIVERSITY_MODES } from "@/lib/diversification";
+
+const sources: Array<{ id: Document["source"]; label: string }> = [
+  { id: "local", label: "Local" },
+  { id: "google_drive", label: "Google Drive" },
+];
+
+const inputClass =
+  "min-w-0 flex-1 px-1 py-0.5 border border-neutral-300 rounded bg-white text-xs outline-none focus:ring-2 focus:ring-primary-500";
+
+// Comma separated values, as typed
+function splitList(value: string): string[] | undefined {
+  const items = value.split(",").map((item) => item.trim()).filter(Boolean);
+  return items.length > 0 ? items : undefined;
+}
+
+// Dates are picked by day, so the end of a range takes in the whole day
+function toDate(value: string, endOfDay = false): Date | undefined {
+  if (!value) return undefined;
+  const date = new Date(`${value}T00:00:00`);
+  if (endOfDay) date.setHours(23, 59, 59, 999);
+  return isNaN(date.getTime()) ? undefined : date;
+}
+
+function fromDate(date?: Date): string {
+  if (!date) return "";
+  const pad = (n: number) => String(n).padStart(2, "0");
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+export default function SearchFiltersPanel() {
+  const { filters, setFilters, clearFilters, diversity, setDiversity } = useSearchStore();
+  const documents = useDocumentStore((state) => state.documents);
+  const documentTypes = Array.from(new Set(documents.map((doc) => doc.type))).sort();
+
+  const update = (changes: Partial<SearchFilters>) => setFilters({ ...filters, ...changes });
+
+  const toggle = <T,>(values: T[] | undefined, value: T): T[] | undefined => {
+    const next = values?.includes(value)
+      ? values.filter((item) => item !== value)
+      : [...(values || []), value];
+    return next.length > 0 ? next : undefined;
+  };
+
+  return (
+    <div className="mt-2 p-3 bg-neutral-50 border border-neutral-200 rounded-lg space-y-2 text-xs text-neutral-700">
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="w-20 font-medium">Type:</span>
+        {documentTypes.length === 0 && <span className="text-neutral-400">No documents yet</span>}
+        {documentTypes.map((type) => (
+          <label key={type} className="flex items-center gap-1">
+            <input
+              type="checkbox"
+              checked={filters.documentTypes?.includes(type) || false}
+              onChange={() => update({ documentTypes: toggle(filters.documentTypes, type) })}
+            />
+            {type.toUpperCase()}
+          </label>
+        ))}
+      </div>
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="w-20 font-medium">Source:</span>
+        {sources.map((source) => (
+          <label key={source.id} className="flex items-center gap-1">
+            <input
+              type="checkbox"
+              checked={filters.sources?.includes(source.id) || false}
+              onChange={() => update({ sources: toggle(filters.sources, source.id) })}
+            />
+            {source.label}
+          </label>
+        ))}
+      </div>
+      <div className="flex items-center gap-2">
+        <label htmlFor="filter-authors" className="w-20 font-medium">Author:</label>
+        <input
+          id="filter-authors"
+          // Typed values are applied on blur; remount when they are cleared
+          key={filters.authors?.join(",") || ""}
+          type="text"
+          defaultValue={filters.authors?.join(", ") || ""}
+          onBlur={(e) => update({ authors: splitList(e.target.value) })}
+          placeholder="Any author, or several separated by commas"
+          className={inputClass}
+        />
+      </div>
+      <div className="flex items-center gap-2">
+        <label htmlFor="filter-tags" className="w-20 font-medium">Tags:</label>
+        <input
+          id="filter-tags"
+          // Typed values are applied on blur; remount when they are cleared
+          key={filters.tags?.join(",") || ""}
+          type="text"
+          defaultValue={filters.tags?.join(", ") || ""}
+          onBlur={(e) => update({ tags: splitList(e.target.value) })}
+          placeholder="Documents with any of these tags"
+          className={inputClass}
+        />
+      </div>
+      <div className="flex items-center gap-2">
+        <span className="w-20 font-medium">Created:</span>
+        <input
+          type="date"
+          aria-label="Created from"
+          value={fromDate(filters.createdFrom)}
+          onChange={(e) => update({ createdFrom: toDate(e.target.value) })}
+          className={inputClass}
+        />
+        <span>to</span>
+        <input
+          type="date"
+          aria-label="Created to"
+          value={fromDate(filters.createdTo)}
+          onChange={(e) => update({ createdTo: toDate(e.target.value, true) })}
+          className={inputClass}
+        />
+      </div>
+      <div className="flex items-center gap-2">
+        <span className="w-20 font-medium">Modified:</span>
+        <input
+          type="date"
+          aria-label="Modified from"
+          value={fromDate(filters.modifiedFrom)}
+          onChange={(e) => update({ modifiedFrom: toDate(e.target.value) })}
+          className={inputClass}
+        />
+        <span>to</span>
+        <input
+          type="date"
+          aria-label="Modified to"
+          value={fromDate(filters.modifiedTo)}
+          onChange={(e) => update({ modifiedTo: toDate(e.target.value, true) })}
+          className={inputClass}
+        />
+      </div>
+      <div className="flex items-center gap-2 pt-2 border-t border-neutral-200">
+        <label htmlFor="search-diversity" className="w-20 font-medium">Diversity:</label>
+        <select
+          id="search-diversity"
+          value={diversity.mode}
+          onChange={(e) => setDiversity({ ...diversity, mode: e.target.value as DiversityMode })}
+          className={inputClass}
+        >
+          {DIVERSITY_MODES.map((mode) => (
+            <option key={mode.id} value={mode.id}>
+              {mode.label}
+            </option>
+          ))}
+        </select>
+        {diversity.mode === "mmr" && (
+          <>
+            <input
+              type="range"
+              aria-label="Relevance against variety"
+              min={0}
+              max={1}
+              step={0.1}
+              value={diversity.lambda}
+              onChange={(e) => setDiversity({ ...diversity, lambda: Number(e.target.value) })}
+              className="min-w-0 flex-1"
+            />
+            <span className="w-24 text-neutral-500">
+              {Math.round(diversity.lambda * 100)}% relevance
+            </span>
+          </>
+        )}
+        {diversity.mode === "per-document" && (
+          <>
+            <input
+              type="number"
+              aria-label="Results per document"
+              min={1}
+              max={10}
+              value={diversity.maxPerDocument}
+              onChange={(e) =>
+                setDiversity({ ...diversity, maxPerDocument: Math.max(1, Number(e.target.value) || 1) })
+              }
+              className="w-14 px-1 py-0.5 border border-neutral-300 rounded bg-white text-xs outline-none focus:ring-2 focus:ring-primary-500"
+            />
+            <span className="text-neutral-500">per document first</span>
+          </>
+        )}
+      </div>
+      {hasFilters(filters) && (
+        <div className="flex justify-end">
+          <button
+            onClick={clearFilters}
+            className="text-primary-600 hover:text-primary-800 transition-colors"
+          >
+            Clear filters
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
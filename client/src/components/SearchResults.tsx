@@ -1,10 +1,11 @@
-import { useEffect, useState } from 'react';
+import { useEffect, useMemo, useState } from 'react';
 import { useDocumentStore } from '@/hooks/useDocumentStore';
 import { useSearchStore } from '@/hooks/useSearchStore';
-import { getFileTypeIcon } from '@/lib/utils';
+import { Document } from '@/types';
+import { formatPageRange, formatRowRange, getConversation, getFileTypeIcon } from '@/lib/utils';
 
 export default function SearchResults() {
-  const { selectDocument } = useDocumentStore();
+  const { documents, selectDocument } = useDocumentStore();
   const { 
     searchQuery, 
     results, 
@@ -22,6 +23,19 @@ export default function SearchResults() {
     setDisplayResults(results.slice(0, resultsPerPage));
   }, [results, resultsPerPage]);
   
+  // Email results can be expanded to the conversation they are part of
+  const [openConversation, setOpenConversation] = useState<string | null>(null);
+  const conversations = useMemo(() => {
+    const byDocument = new Map<string, Document[]>();
+    for (const result of displayResults) {
+      const source = documents.find(doc => doc.id === result.documentId);
+      if (source?.type === 'eml' && !byDocument.has(source.id)) {
+        byDocument.set(source.id, getConversation(documents, source));
+      }
+    }
+    return byDocument;
+  }, [displayResults, documents]);
+  
   const loadMoreResults = () => {
     setResultsPerPage(prev => prev + 5);
   };
@@ -100,6 +114,18 @@ export default function SearchResults() {
                   <div className="mt-2 flex items-center text-xs text-neutral-500">
                     <span className="font-medium">Source:</span>
                     <span className="ml-1">{summarySource.documentName}</span>
+                    {summarySource.pageNumber && (
+                      <>
+                        <span className="mx-1">•</span>
+                        <span>{formatPageRange(summarySource.pageNumber, summarySource.pageEnd)}</span>
+                      </>
+                    )}
+                    {summarySource.sheetName && (
+                      <>
+                        <span className="mx-1">•</span>
+                        <span>{formatRowRange(summarySource.sheetName, summarySource.rowStart, summarySource.rowEnd)}</span>
+                      </>
+                    )}
                     {summarySource.section && (
                       <>
                         <span className="mx-1">•</span>
@@ -133,7 +159,18 @@ export default function SearchResults() {
                   <div className="flex items-center text-neutral-500">
                     <span className="material-icons text-sm mr-1">{getFileTypeIcon(result.documentType)}</span>
                     {result.metadata.pageNumber && (
-                      <span>Page {result.metadata.pageNumber}</span>
+                      <span>{formatPageRange(result.metadata.pageNumber, result.metadata.pageEnd)}</span>
+                    )}
+                    {result.metadata.slideNumber && (
+                      <span>
+                        Slide {result.metadata.slideNumber}
+                        {result.metadata.slideTitle && `: ${result.metadata.slideTitle}`}
+                      </span>
+                    )}
+                    {result.metadata.sheetName && (
+                      <span title={result.metadata.cellRange}>
+                        {formatRowRange(result.metadata.sheetName, result.metadata.rowStart, result.metadata.rowEnd)}
+                      </span>
                     )}
                     {result.metadata.section && (
                       <>
@@ -147,6 +184,21 @@ export default function SearchResults() {
                         <span>Paragraph {result.metadata.paragraph}</span>
                       </>
                     )}
+                    {(conversations.get(result.documentId)?.length || 0) > 1 && (
+                      <>
+                        <span className="mx-1">•</span>
+                        <button
+                          onClick={() => setOpenConversation(
+                            openConversation === result.chunkId ? null : result.chunkId
+                          )}
+                          aria-expanded={openConversation === result.chunkId}
+                          className="flex items-center hover:text-primary-600"
+                        >
+                          <span className="material-icons text-sm mr-1">forum</span>
+                          {conversations.get(result.documentId)!.length} messages in conversation
+                        </button>
+                      </>
+                    )}
                   </div>
                   <button 
                     onClick={() => openDocument(result.documentId)}
@@ -156,6 +208,28 @@ export default function SearchResults() {
                     <span className="material-icons text-sm ml-1">open_in_new</span>
                   </button>
                 </div>
+                {openConversation === result.chunkId && (
+                  <ol className="mt-3 pt-3 border-t border-neutral-100 space-y-1 text-xs text-neutral-600">
+                    {conversations.get(result.documentId)!.map(message => (
+                      <li key={message.id}>
+                        <button
+                          onClick={() => openDocument(message.id)}
+                          className={`w-full flex gap-2 text-left hover:text-primary-600 ${
+                            message.id === result.documentId ? 'font-medium text-neutral-800' : ''
+                          }`}
+                        >
+                          <span className="shrink-0 text-neutral-400">
+                            {message.metadata.date
+                              ? new Date(message.metadata.date).toLocaleDateString()
+                              : 'Undated'}
+                          </span>
+                          <span className="shrink-0">{message.metadata.from || message.name}</span>
+                          <span className="truncate text-neutral-500">{message.metadata.subject}</span>
+                        </button>
+                      </li>
+                    ))}
+                  </ol>
+                )}
               </div>
             ))}
 
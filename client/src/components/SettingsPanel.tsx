@@ -0,0 +1,120 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { checkIntegrity, hasProblems, IntegrityReport, repairIntegrity, StoreCheck } from '@/lib/integrityCheck';
+
+interface SettingsPanelProps {
+  onClose: () => void;
+}
+
+const describeProblems = (check: StoreCheck) => {
+  const parts = [
+    [check.missingDocumentIds.length, 'documents missing'],
+    [check.missingChunkIds.length, 'chunks missing'],
+    [check.orphanDocumentIds.length, 'documents not saved'],
+    [check.orphanChunkIds.length, 'chunks not saved'],
+  ] as const;
+  return parts
+    .filter(([count]) => count > 0)
+    .map(([count, label]) => `${count} ${label}`)
+    .join(', ');
+};
+
+export default function SettingsPanel({ onClose }: SettingsPanelProps) {
+  const [report, setReport] = useState<IntegrityReport | null>(null);
+  const [running, setRunning] = useState<'check' | 'repair' | null>(null);
+  const [error, setError] = useState('');
+
+  const run = async (action: 'check' | 'repair') => {
+    setRunning(action);
+    setError('');
+    try {
+      setReport(await (action === 'check' ? checkIntegrity() : repairIntegrity()));
+    } catch (err) {
+      console.error('Index integrity check failed:', err);
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setRunning(null);
+    }
+  };
+
+  const problems = report ? report.stores.filter(hasProblems).length : 0;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg max-w-2xl w-full mx-4">
+        <div className="p-4 border-b border-neutral-200 flex justify-between items-center">
+          <h3 className="text-lg font-medium">Settings</h3>
+          <button
+            onClick={onClose}
+            className="p-1 rounded-full hover:bg-neutral-100"
+          >
+            <span className="material-icons">close</span>
+          </button>
+        </div>
+        <div className="p-4">
+          <h4 className="text-sm font-medium text-neutral-700 mb-1">Index integrity</h4>
+          <p className="text-xs text-neutral-500 mb-3">
+            Compares the documents and chunks of every index with the copy saved in the browser,
+            and derives what is missing from that copy or removes what it does not have.
+          </p>
+
+          <div className="flex gap-2 mb-4">
+            <Button variant="outline" onClick={() => run('check')} disabled={running !== null}>
+              {running === 'check' ? 'Checking...' : 'Run check'}
+            </Button>
+            <Button onClick={() => run('repair')} disabled={running !== null || problems === 0}>
+              {running === 'repair' ? 'Repairing...' : 'Repair'}
+            </Button>
+          </div>
+
+          {error && <p className="text-sm text-red-600 mb-3">{error}</p>}
+
+          {report && (
+            <>
+              <p className="text-xs text-neutral-500 mb-2">
+                {report.documentCount} documents and {report.chunkCount} chunks saved, checked{' '}
+                {report.checkedAt.toLocaleTimeString()}.{' '}
+                {problems === 0 ? 'Every index agrees.' : `${problems} indexes disagree.`}
+              </p>
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-xs text-neutral-500 border-b border-neutral-200">
+                    <th className="py-1 font-medium">Index</th>
+                    <th className="py-1 font-medium">Documents</th>
+                    <th className="py-1 font-medium">Chunks</th>
+                    <th className="py-1 font-medium">Status</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {report.stores.map(check => (
+                    <tr key={check.store} className="border-b border-neutral-100">
+                      <td className="py-1">{check.label}</td>
+                      <td className="py-1">{check.error ? '–' : check.documentCount}</td>
+                      <td className="py-1">{check.error || check.chunkCount === undefined ? '–' : check.chunkCount}</td>
+                      <td className="py-1">
+                        {check.error ? (
+                          <span className="text-red-600">Could not be read: {check.error}</span>
+                        ) : hasProblems(check) ? (
+                          <span className="text-amber-600">{describeProblems(check)}</span>
+                        ) : (
+                          <span className="text-green-700">OK</span>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+              {report.repairErrors.length > 0 && (
+                <ul className="mt-3 text-xs text-red-600">
+                  {report.repairErrors.map(message => (
+                    <li key={message}>Repair failed for {message}</li>
+                  ))}
+                </ul>
+              )}
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
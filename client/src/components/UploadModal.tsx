@@ -1,7 +1,8 @@
 import { useState, useRef, ChangeEvent } from 'react';
 import { useDocumentStore } from '@/hooks/useDocumentStore';
-import { processFile } from '@/lib/documentProcessing';
-import { addToVectorStore } from '@/lib/vectorStore';
+import { listChunkingStrategies } from '@/lib/chunking';
+import { ingestionQueue } from '@/lib/ingestion';
+import { listProcessors } from '@/lib/processors/registry';
 import { formatBytes } from '@/lib/utils';
 import { Button } from '@/components/ui/button';
 
@@ -10,16 +11,21 @@ interface UploadModalProps {
   onProcessStart: () => void;
 }
 
+// File picker hint; files are routed by content, so others can still be dropped in
+const acceptedExtensions = listProcessors()
+  .flatMap(processor => processor.extensions.map(extension => `.${extension}`))
+  .join(',');
+
 export default function UploadModal({ onClose, onProcessStart }: UploadModalProps) {
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const [chunkingStrategy, setChunkingStrategy] = useState('');
+  const [concurrency, setConcurrency] = useState(ingestionQueue.getConcurrency());
   const { 
     uploadedFiles, 
     addUploadFile, 
     removeUploadFile, 
     clearUploadedFiles, 
-    updateUploadFile,
-    updateProcessingStatus,
-    addDocument
+    clearDuplicates
   } = useDocumentStore();
   
   const triggerFileInput = () => {
@@ -45,77 +51,21 @@ export default function UploadModal({ onClose, onProcessStart }: UploadModalProp
     removeUploadFile(id);
   };
   
-  const processFiles = async () => {
+  const processFiles = () => {
     if (uploadedFiles.length === 0) return;
     
-    onProcessStart(); // Close modal and show processing status
-    
-    // Initialize processing status
-    updateProcessingStatus({
-      overall: 0,
-      files: uploadedFiles.map(file => ({
-        id: file.id,
-        name: file.file.name,
-        progress: 0
-      }))
-    });
+    clearDuplicates();
+    ingestionQueue.setConcurrency(concurrency);
     
-    // Process each file
-    for (let i = 0; i < uploadedFiles.length; i++) {
-      const uploadFile = uploadedFiles[i];
-      
-      try {
-        // Update file status
-        updateUploadFile(uploadFile.id, { status: 'processing' });
-        
-        // Update overall progress
-        updateProcessingStatus({
-          overall: Math.round((i / uploadedFiles.length) * 100)
-        });
-        
-        // Process the file
-        const document = await processFile(
-          uploadFile.file,
-          (progress) => {
-            // Update file progress
-            updateProcessingStatus({
-              files: uploadedFiles.map((f, idx) => ({
-                id: f.id,
-                name: f.file.name,
-                progress: idx === i ? progress : (idx < i ? 100 : 0)
-              }))
-            });
-          }
-        );
-        
-        // Add processed document to store
-        addDocument(document);
-        
-        // Add to vector store
-        await addToVectorStore(
-          document.content.chunks,
-          document.name,
-          document.type
-        );
-        
-        // Update file status
-        updateUploadFile(uploadFile.id, { status: 'complete', progress: 100 });
-      } catch (error) {
-        console.error(`Error processing file ${uploadFile.file.name}:`, error);
-        updateUploadFile(uploadFile.id, { 
-          status: 'error', 
-          error: (error as Error).message || 'Unknown error'
-        });
-      }
+    // Hand the files to the ingestion queue, which processes them in the background
+    for (const uploadFile of uploadedFiles) {
+      ingestionQueue.enqueue(uploadFile.file, {
+        chunking: chunkingStrategy ? { strategy: chunkingStrategy } : undefined
+      });
     }
     
-    // Update final progress
-    updateProcessingStatus({
-      overall: 100
-    });
-    
-    // Clear uploaded files after processing
     clearUploadedFiles();
+    onProcessStart(); // Close modal and show processing status
   };
   
   return (
@@ -144,7 +94,7 @@ export default function UploadModal({ onClose, onProcessStart }: UploadModalProp
           >
             <span className="material-icons text-4xl text-neutral-400 mb-3">cloud_upload</span>
             <p className="text-neutral-600 mb-2">Drag and drop files here or click to browse</p>
-            <p className="text-xs text-neutral-500 mb-4">Supports PDF, DOCX, XLSX, TXT, MD, and more</p>
+            <p className="text-xs text-neutral-500 mb-4">Supports PDF, DOCX, XLSX, PPTX, TXT, MD, scanned images and more</p>
             <Button 
               onClick={triggerFileInput}
               className="bg-primary-600 hover:bg-primary-700 text-white py-2 px-4 rounded transition-colors"
@@ -156,7 +106,7 @@ export default function UploadModal({ onClose, onProcessStart }: UploadModalProp
               ref={fileInputRef}
               multiple 
               className="hidden" 
-              accept=".pdf,.docx,.xlsx,.txt,.md,.csv"
+              accept={acceptedExtensions}
               onChange={handleFileChange}
             />
           </div>
@@ -186,6 +136,43 @@ export default function UploadModal({ onClose, onProcessStart }: UploadModalProp
             </div>
           )}
           
+          <div className="mb-4">
+            <label htmlFor="chunking-strategy" className="block text-sm font-medium text-neutral-700 mb-1">
+              Chunking
+            </label>
+            <select
+              id="chunking-strategy"
+              value={chunkingStrategy}
+              onChange={(e) => setChunkingStrategy(e.target.value)}
+              className="w-full px-3 py-2 border border-neutral-300 rounded text-sm focus:ring-2 focus:ring-primary-500 focus:border-primary-500 outline-none"
+            >
+              <option value="">Automatic (by file type)</option>
+              {listChunkingStrategies().map(strategy => (
+                <option key={strategy.id} value={strategy.id}>
+                  {strategy.label}
+                </option>
+              ))}
+            </select>
+          </div>
+          
+          <div className="mb-4">
+            <label htmlFor="ingestion-concurrency" className="block text-sm font-medium text-neutral-700 mb-1">
+              Files processed at once
+            </label>
+            <select
+              id="ingestion-concurrency"
+              value={concurrency}
+              onChange={(e) => setConcurrency(Number(e.target.value))}
+              className="w-full px-3 py-2 border border-neutral-300 rounded text-sm focus:ring-2 focus:ring-primary-500 focus:border-primary-500 outline-none"
+            >
+              {[1, 2, 3, 4].map(count => (
+                <option key={count} value={count}>
+                  {count}
+                </option>
+              ))}
+            </select>
+          </div>
+          
           <div className="flex justify-end space-x-2">
             <Button 
               variant="outline"
@@ -10,12 +10,16 @@ interface DocumentState {
   processingStatus: ProcessingStatus;
   filter: string;
   stats: Stats;
+  // Documents that were uploaded again with identical content
+  duplicateDocumentIds: string[];
   
   // Actions
   addDocument: (document: Document) => void;
   removeDocument: (id: string) => void;
   updateDocument: (id: string, document: Partial<Document>) => void;
   selectDocument: (id: string | null) => void;
+  markDuplicate: (id: string) => void;
+  clearDuplicates: () => void;
   addUploadFile: (file: File) => string;
   removeUploadFile: (id: string) => void;
   updateUploadFile: (id: string, data: Partial<UploadFile>) => void;
@@ -43,6 +47,7 @@ export const useDocumentStore = create<DocumentState>()(
           storageUsedFormatted: '0 B',
           lastIndexed: null,
         },
+        duplicateDocumentIds: [],
         
         addDocument: (document) => {
           set((state) => {
@@ -87,12 +92,18 @@ export const useDocumentStore = create<DocumentState>()(
             const documents = state.documents.map((doc) => 
               doc.id === id ? { ...doc, ...document } : doc
             );
+            const totalSize = documents.reduce((acc, doc) => acc + doc.size, 0);
             
             return {
               documents,
               selectedDocument: state.selectedDocument?.id === id
                 ? { ...state.selectedDocument, ...document }
                 : state.selectedDocument,
+              stats: {
+                ...state.stats,
+                storageUsed: totalSize,
+                storageUsedFormatted: formatBytes(totalSize),
+              }
             };
           });
         },
@@ -105,6 +116,18 @@ export const useDocumentStore = create<DocumentState>()(
           }));
         },
         
+        markDuplicate: (id) => {
+          set((state) => ({
+            duplicateDocumentIds: state.duplicateDocumentIds.includes(id)
+              ? state.duplicateDocumentIds
+              : [...state.duplicateDocumentIds, id],
+          }));
+        },
+        
+        clearDuplicates: () => {
+          set({ duplicateDocumentIds: [] });
+        },
+        
         addUploadFile: (file) => {
           const id = crypto.randomUUID();
           set((state) => ({
@@ -1,9 +1,13 @@
 import { create } from 'zustand';
-import { SearchResult } from '@/types';
+import { SearchDiversity, SearchFilters, SearchResult } from '@/types';
+import { DEFAULT_DIVERSITY } from '@/lib/diversification';
 
 interface SearchState {
   searchQuery: string;
   language: 'english' | 'hindi' | 'hinglish' | 'all';
+  // Set from Advanced Search; empty searches everything
+  filters: SearchFilters;
+  diversity: SearchDiversity;
   results: SearchResult[];
   isLoading: boolean;
   hasResults: boolean;
@@ -12,12 +16,20 @@ interface SearchState {
     documentId: string;
     documentName: string;
     section?: string;
+    pageNumber?: number;
+    pageEnd?: number;
+    sheetName?: string;
+    rowStart?: number;
+    rowEnd?: number;
   } | null;
   
   // Actions
   setSearchQuery: (query: string) => void;
   clearSearchQuery: () => void;
   setLanguage: (language: 'english' | 'hindi' | 'hinglish' | 'all') => void;
+  setFilters: (filters: SearchFilters) => void;
+  clearFilters: () => void;
+  setDiversity: (diversity: SearchDiversity) => void;
   setResults: (results: SearchResult[]) => void;
   clearResults: () => void;
   setLoading: (isLoading: boolean) => void;
@@ -25,12 +37,19 @@ interface SearchState {
     documentId: string;
     documentName: string;
     section?: string;
+    pageNumber?: number;
+    pageEnd?: number;
+    sheetName?: string;
+    rowStart?: number;
+    rowEnd?: number;
   } | null) => void;
 }
 
 export const useSearchStore = create<SearchState>((set) => ({
   searchQuery: '',
   language: 'all',
+  filters: {},
+  diversity: DEFAULT_DIVERSITY,
   results: [],
   isLoading: false,
   hasResults: false,
@@ -49,6 +68,12 @@ export const useSearchStore = create<SearchState>((set) => ({
   
   setLanguage: (language) => set({ language }),
   
+  setFilters: (filters) => set({ filters }),
+  
+  clearFilters: () => set({ filters: {} }),
+  
+  setDiversity: (diversity) => set({ diversity }),
+  
   setResults: (results) => set({ 
     results,
     hasResults: results.length > 0
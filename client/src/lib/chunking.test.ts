@@ -0,0 +1,205 @@
+import { describe, it, expect } from 'vitest';
+import {
+  splitIntoChunks,
+  resolveChunkingOptions,
+  registerChunkingStrategy,
+  listChunkingStrategies,
+} from './chunking';
+
+const clause = (n: number) =>
+  `Clause ${n}. The supplier shall deliver the goods within thirty days of the purchase order.`;
+
+const longText = Array.from({ length: 40 }, (_, i) => clause(i + 1)).join(' ');
+
+describe('chunking', () => {
+  it('registers the built-in strategies', () => {
+    const ids = listChunkingStrategies().map((s) => s.id);
+    expect(ids).toEqual(
+      expect.arrayContaining(['paragraph', 'token', 'sentence-window', 'heading', 'sliding-overlap'])
+    );
+  });
+
+  it('picks a strategy per document type unless one is given', () => {
+    expect(resolveChunkingOptions('pdf').strategy.id).toBe('sliding-overlap');
+    expect(resolveChunkingOptions('md').strategy.id).toBe('heading');
+    expect(resolveChunkingOptions('xlsx').strategy.id).toBe('rows');
+    expect(resolveChunkingOptions('unknown').strategy.id).toBe('paragraph');
+    expect(resolveChunkingOptions('pdf', { strategy: 'token' }).strategy.id).toBe('token');
+  });
+
+  it('merges parameters over strategy defaults', () => {
+    const { params } = resolveChunkingOptions('pdf', { params: { overlapChars: 50 } });
+    expect(params).toEqual({ windowChars: 1000, overlapChars: 50 });
+  });
+
+  it('throws for an unknown strategy', () => {
+    expect(() => resolveChunkingOptions('txt', { strategy: 'nope' })).toThrow(
+      'Unknown chunking strategy: nope'
+    );
+  });
+
+  it('records strategy and parameters on every chunk', () => {
+    const chunks = splitIntoChunks(longText, {
+      documentId: 'doc-1',
+      documentType: 'txt',
+      chunking: { strategy: 'token', params: { maxTokens: 50 } },
+    });
+
+    expect(chunks.length).toBeGreaterThan(1);
+    for (const chunk of chunks) {
+      expect(chunk.documentId).toBe('doc-1');
+      expect(chunk.metadata.chunker).toEqual({
+        strategy: 'token',
+        params: { maxTokens: 50, overlapTokens: 32 },
+      });
+    }
+  });
+
+  it.each(['paragraph', 'token', 'sentence-window', 'heading', 'sliding-overlap'])(
+    'keeps %s offsets pointing into the source text',
+    (strategy) => {
+      const text = `# Scope\n\n${longText}\n\n# Payment Terms\n\n${longText}`;
+      const chunks = splitIntoChunks(text, {
+        documentId: 'doc-1',
+        documentType: 'txt',
+        chunking: { strategy },
+      });
+
+      expect(chunks.length).toBeGreaterThan(0);
+      for (const chunk of chunks) {
+        expect(text.slice(chunk.metadata.startIndex, chunk.metadata.endIndex)).toBe(chunk.text);
+      }
+    }
+  );
+
+  it('overlaps consecutive sliding windows', () => {
+    const chunks = splitIntoChunks(longText, {
+      documentId: 'doc-1',
+      documentType: 'pdf',
+      chunking: { params: { windowChars: 300, overlapChars: 100 } },
+    });
+
+    expect(chunks.length).toBeGreaterThan(1);
+    for (let i = 1; i < chunks.length; i++) {
+      expect(chunks[i].metadata.startIndex).toBeLessThan(chunks[i - 1].metadata.endIndex);
+      expect(chunks[i].text.length).toBeLessThanOrEqual(300);
+    }
+  });
+
+  it('tags heading chunks with their section', () => {
+    const chunks = splitIntoChunks('# Scope\n\nWork to be done.\n\n# Payment Terms\n\nNet 30.', {
+      documentId: 'doc-1',
+      documentType: 'md',
+    });
+
+    expect(chunks.map((c) => c.metadata.section)).toEqual(['Scope', 'Payment Terms']);
+  });
+
+  it('splits sentence windows on the Devanagari danda', () => {
+    const chunks = splitIntoChunks('पहला वाक्य। दूसरा वाक्य। तीसरा वाक्य।', {
+      documentId: 'doc-1',
+      documentType: 'txt',
+      chunking: { strategy: 'sentence-window', params: { windowSentences: 2, overlapSentences: 1 } },
+    });
+
+    expect(chunks.map((c) => c.text)).toEqual(['पहला वाक्य। दूसरा वाक्य।', 'दूसरा वाक्य। तीसरा वाक्य।']);
+  });
+
+  it('records the page range each chunk covers', () => {
+    const pageOne = 'First page text.';
+    const pageTwo = 'Second page text.';
+    const text = `${pageOne}\n\n${pageTwo}\n\n`;
+    const pages = [
+      { pageNumber: 1, startIndex: 0, endIndex: pageOne.length },
+      { pageNumber: 2, startIndex: pageOne.length + 2, endIndex: pageOne.length + 2 + pageTwo.length },
+    ];
+
+    const [whole] = splitIntoChunks(text, { documentId: 'doc-1', documentType: 'pdf', pages });
+    expect(whole.metadata.pageNumber).toBe(1);
+    expect(whole.metadata.pageEnd).toBe(2);
+
+    const perPage = splitIntoChunks(text, {
+      documentId: 'doc-1',
+      documentType: 'pdf',
+      chunking: { params: { windowChars: 20, overlapChars: 0 } },
+      pages,
+    });
+    expect(perPage.map((c) => [c.metadata.pageNumber, c.metadata.pageEnd])).toEqual([[1, 1], [2, 2]]);
+  });
+
+  it('keeps OCR bounding boxes and confidence on chunks', () => {
+    const text = 'Tender notice\nLast date 14 May\n\nसूचना';
+    const regions = [
+      { text: 'Tender notice', bbox: { x0: 10, y0: 10, x1: 200, y1: 30 }, confidence: 0.9, pageNumber: 3, startIndex: 0, endIndex: 13 },
+      { text: 'Last date 14 May', bbox: { x0: 10, y0: 40, x1: 220, y1: 60 }, confidence: 0.7, pageNumber: 3, startIndex: 14, endIndex: 30 },
+      { text: 'सूचना', bbox: { x0: 10, y0: 90, x1: 80, y1: 110 }, confidence: 0.5, pageNumber: 3, startIndex: 32, endIndex: 37 },
+    ];
+
+    const [chunk] = splitIntoChunks(text, {
+      documentId: 'doc-1',
+      documentType: 'png',
+      chunking: { strategy: 'paragraph', params: { maxChars: 30, minChars: 0 } },
+      regions,
+    });
+
+    expect(chunk.text).toBe('Tender notice\nLast date 14 May');
+    expect(chunk.metadata.boundingBoxes).toEqual([
+      { x0: 10, y0: 10, x1: 200, y1: 30, pageNumber: 3 },
+      { x0: 10, y0: 40, x1: 220, y1: 60, pageNumber: 3 },
+    ]);
+    expect(chunk.metadata.ocrConfidence).toBeCloseTo(0.8);
+  });
+
+  it('packs spreadsheet rows up to maxRows without crossing sheets', () => {
+    const lines = ['Item: 1', 'Item: 2', 'Item: 3', 'Item: 4'];
+    const text = lines.join('\n');
+    let offset = 0;
+    const rows = lines.map((line, i) => {
+      const row = {
+        sheet: i < 3 ? 'Q3' : 'Q4',
+        rowNumber: i + 2,
+        firstColumn: 1,
+        lastColumn: 2,
+        startIndex: offset,
+        endIndex: offset + line.length,
+      };
+      offset += line.length + 1;
+      return row;
+    });
+
+    const chunks = splitIntoChunks(text, {
+      documentId: 'doc-1',
+      documentType: 'xlsx',
+      chunking: { params: { maxRows: 2 } },
+      rows,
+    });
+
+    expect(chunks.map((c) => c.text)).toEqual(['Item: 1\nItem: 2', 'Item: 3', 'Item: 4']);
+    expect(chunks.map((c) => c.metadata.cellRange)).toEqual(['A2:B3', 'A4:B4', 'A5:B5']);
+    expect(chunks[2].metadata.sheetName).toBe('Q4');
+  });
+
+  it('accepts strategies registered at runtime', () => {
+    registerChunkingStrategy({
+      id: 'lines',
+      label: 'Lines',
+      defaults: {},
+      split: (text) => {
+        let offset = 0;
+        return text.split('\n').map((line) => {
+          const span = { text: line, startIndex: offset, endIndex: offset + line.length };
+          offset += line.length + 1;
+          return span;
+        });
+      },
+    });
+
+    const chunks = splitIntoChunks('one\ntwo', {
+      documentId: 'doc-1',
+      documentType: 'txt',
+      chunking: { strategy: 'lines' },
+    });
+
+    expect(chunks.map((c) => c.text)).toEqual(['one', 'two']);
+  });
+});
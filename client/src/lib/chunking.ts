@@ -0,0 +1,647 @@
+import {
+  BoundingBox,
+  DocumentChunk,
+  LayoutRegion,
+  PageSpan,
+  RowSpan,
+  SectionSpan,
+  SlideSpan,
+} from "@/types";
+
+// A contiguous span of the source text produced by a chunking strategy.
+// Offsets always point into the original text so that later stages can map
+// chunks back to pages, sections or rows.
+export interface ChunkSpan {
+  text: string;
+  startIndex: number;
+  endIndex: number;
+  metadata?: Record<string, any>;
+}
+
+export type ChunkingParams = Record<string, number>;
+
+// Document structure reported by the processor, if any
+export interface ChunkingContext {
+  sections?: SectionSpan[];
+  slides?: SlideSpan[];
+  rows?: RowSpan[];
+}
+
+export interface ChunkingStrategy {
+  id: string;
+  label: string;
+  defaults: ChunkingParams;
+  split: (
+    text: string,
+    params: ChunkingParams,
+    context: ChunkingContext,
+  ) => ChunkSpan[];
+}
+
+export interface ChunkingOptions {
+  strategy?: string;
+  params?: ChunkingParams;
+}
+
+// Registered strategies, keyed by id
+const strategies = new Map<string, ChunkingStrategy>();
+
+// Strategy used when neither the upload nor the document type picks one
+export const DEFAULT_CHUNKING_STRATEGY = "paragraph";
+
+// Default strategy per document type. Long-form documents get overlapping
+// windows so that clauses cut at a boundary still appear whole in one chunk.
+const STRATEGY_BY_DOCUMENT_TYPE: Record<string, string> = {
+  pdf: "sliding-overlap",
+  docx: "heading",
+  doc: "heading",
+  pptx: "slide",
+  md: "heading",
+  txt: "paragraph",
+  csv: "paragraph",
+  xlsx: "rows",
+  xls: "rows",
+};
+
+export function registerChunkingStrategy(strategy: ChunkingStrategy): void {
+  strategies.set(strategy.id, strategy);
+}
+
+export function getChunkingStrategy(id: string): ChunkingStrategy {
+  const strategy = strategies.get(id);
+  if (!strategy) {
+    throw new Error(`Unknown chunking strategy: ${id}`);
+  }
+  return strategy;
+}
+
+export function listChunkingStrategies(): ChunkingStrategy[] {
+  return Array.from(strategies.values());
+}
+
+export function setDefaultChunkingStrategy(
+  documentType: string,
+  strategyId: string,
+): void {
+  getChunkingStrategy(strategyId);
+  STRATEGY_BY_DOCUMENT_TYPE[documentType.toLowerCase()] = strategyId;
+}
+
+// Resolve the strategy and parameters to use for a document. Explicit
+// options from the upload win over the per-type default.
+export function resolveChunkingOptions(
+  documentType: string,
+  options: ChunkingOptions = {},
+): { strategy: ChunkingStrategy; params: ChunkingParams } {
+  const strategyId =
+    options.strategy ||
+    STRATEGY_BY_DOCUMENT_TYPE[documentType.toLowerCase()] ||
+    DEFAULT_CHUNKING_STRATEGY;
+  const strategy = getChunkingStrategy(strategyId);
+
+  return {
+    strategy,
+    params: { ...strategy.defaults, ...options.params },
+  };
+}
+
+// Split text into chunks with the strategy chosen for this document. When
+// the processor reports page, section, slide or row spans, each chunk records
+// the pages it covers, the heading path it falls under, the slide it is from
+// and the sheet rows it holds. OCR text additionally keeps the bounding boxes
+// and confidence of its lines.
+export function splitIntoChunks(
+  text: string,
+  options: {
+    documentId: string;
+    documentType: string;
+    chunking?: ChunkingOptions;
+    pages?: PageSpan[];
+    sections?: SectionSpan[];
+    slides?: SlideSpan[];
+    rows?: RowSpan[];
+    regions?: LayoutRegion[];
+  },
+): DocumentChunk[] {
+  const { strategy, params } = resolveChunkingOptions(
+    options.documentType,
+    options.chunking,
+  );
+
+  return strategy
+    .split(text, params, {
+      sections: options.sections,
+      slides: options.slides,
+      rows: options.rows,
+    })
+    .filter((span) => span.text.trim().length > 0)
+    .map((span, index) => ({
+      id: crypto.randomUUID(),
+      documentId: options.documentId,
+      text: span.text,
+      metadata: {
+        ...span.metadata,
+        ...findPageRange(options.pages, span.startIndex, span.endIndex),
+        ...findSectionPath(options.sections, span.startIndex),
+        ...findSlide(options.slides, span.startIndex),
+        ...findRowRange(options.rows, span.startIndex, span.endIndex),
+        ...findRegions(options.regions, span.startIndex, span.endIndex),
+        startIndex: span.startIndex,
+        endIndex: span.endIndex,
+        chunkIndex: index,
+        chunker: {
+          strategy: strategy.id,
+          params,
+        },
+      },
+    }));
+}
+
+// Pages covered by a span of the full text
+function findPageRange(
+  pages: PageSpan[] | undefined,
+  startIndex: number,
+  endIndex: number,
+): { pageNumber?: number; pageEnd?: number } {
+  if (!pages || pages.length === 0) return {};
+
+  const pageAt = (offset: number) => {
+    let page = pages[0];
+    for (const candidate of pages) {
+      if (candidate.startIndex > offset) break;
+      page = candidate;
+    }
+    return page.pageNumber;
+  };
+
+  return {
+    pageNumber: pageAt(startIndex),
+    pageEnd: pageAt(Math.max(startIndex, endIndex - 1)),
+  };
+}
+
+// Heading path of the innermost section containing an offset
+function findSectionPath(
+  sections: SectionSpan[] | undefined,
+  offset: number,
+): { section?: string; sectionPath?: string[] } {
+  if (!sections || sections.length === 0) return {};
+
+  let innermost: SectionSpan | null = null;
+  for (const section of sections) {
+    if (section.startIndex > offset) break;
+    if (section.endIndex > offset) innermost = section;
+  }
+
+  return innermost
+    ? { section: innermost.path.join(" > "), sectionPath: innermost.path }
+    : {};
+}
+
+// Slide containing an offset
+function findSlide(
+  slides: SlideSpan[] | undefined,
+  offset: number,
+): { slideNumber?: number; slideTitle?: string } {
+  const slide = slides?.find(
+    (s) => s.startIndex <= offset && offset < s.endIndex,
+  );
+  return slide
+    ? { slideNumber: slide.slideNumber, slideTitle: slide.title }
+    : {};
+}
+
+// Sheet rows held by a span, as row numbers and an A1-style cell range
+function findRowRange(
+  rows: RowSpan[] | undefined,
+  startIndex: number,
+  endIndex: number,
+): { sheetName?: string; rowStart?: number; rowEnd?: number; cellRange?: string } {
+  const overlapping = (rows || []).filter(
+    (r) => r.startIndex < endIndex && r.endIndex > startIndex,
+  );
+  if (overlapping.length === 0) return {};
+
+  // Chunks never span sheets, but a custom strategy might
+  const sheet = overlapping[0].sheet;
+  const inSheet = overlapping.filter((r) => r.sheet === sheet);
+  const first = inSheet[0];
+  const last = inSheet[inSheet.length - 1];
+  const firstColumn = Math.min(...inSheet.map((r) => r.firstColumn));
+  const lastColumn = Math.max(...inSheet.map((r) => r.lastColumn));
+
+  return {
+    sheetName: sheet,
+    rowStart: first.rowNumber,
+    rowEnd: last.rowNumber,
+    cellRange: `${columnName(firstColumn)}${first.rowNumber}:${columnName(lastColumn)}${last.rowNumber}`,
+  };
+}
+
+// Spreadsheet column letters for a 1-based column number (1 is A, 27 is AA)
+function columnName(column: number): string {
+  let name = "";
+  for (let n = column; n > 0; n = Math.floor((n - 1) / 26)) {
+    name = String.fromCharCode(65 + ((n - 1) % 26)) + name;
+  }
+  return name;
+}
+
+// OCR lines overlapping a span, with their mean confidence
+function findRegions(
+  regions: LayoutRegion[] | undefined,
+  startIndex: number,
+  endIndex: number,
+): {
+  boundingBoxes?: Array<BoundingBox & { pageNumber?: number }>;
+  ocrConfidence?: number;
+} {
+  const overlapping = (regions || []).filter(
+    (r) => r.startIndex < endIndex && r.endIndex > startIndex,
+  );
+  if (overlapping.length === 0) return {};
+
+  return {
+    boundingBoxes: overlapping.map((r) => ({
+      ...r.bbox,
+      pageNumber: r.pageNumber,
+    })),
+    ocrConfidence:
+      overlapping.reduce((sum, r) => sum + r.confidence, 0) /
+      overlapping.length,
+  };
+}
+
+// Find all matches of a pattern together with their offsets
+function findSpans(text: string, pattern: RegExp): ChunkSpan[] {
+  const spans: ChunkSpan[] = [];
+  let match: RegExpExecArray | null;
+  pattern.lastIndex = 0;
+
+  while ((match = pattern.exec(text)) !== null) {
+    if (match[0].length === 0) {
+      pattern.lastIndex++;
+      continue;
+    }
+    if (!match[0].trim()) continue;
+    spans.push({
+      text: match[0],
+      startIndex: match.index,
+      endIndex: match.index + match[0].length,
+    });
+  }
+  return spans;
+}
+
+// Trim a span without losing track of its offsets
+function trimSpan(
+  text: string,
+  startIndex: number,
+  endIndex: number,
+): ChunkSpan {
+  const raw = text.slice(startIndex, endIndex);
+  const leading = raw.length - raw.trimStart().length;
+  const trimmed = raw.trim();
+  return {
+    text: trimmed,
+    startIndex: startIndex + leading,
+    endIndex: startIndex + leading + trimmed.length,
+  };
+}
+
+function findParagraphs(text: string): ChunkSpan[] {
+  return findSpans(text, /\S[\s\S]*?(?=\n\s*\n|$)/g);
+}
+
+// Sentences end in ., !, ? or the Devanagari danda, or at a line break
+function findSentences(text: string): ChunkSpan[] {
+  return findSpans(text, /[^\s.!?।][^.!?।\n]*(?:[.!?।]+|\n|$)/g).map(
+    (span) => trimSpan(text, span.startIndex, span.endIndex),
+  );
+}
+
+// Words (Latin or Devanagari) and standalone punctuation, an approximation
+// of model tokens
+function findTokens(text: string): ChunkSpan[] {
+  return findSpans(
+    text,
+    /[\w\u00C0-\u024F\u0900-\u097F]+|[^\s\w\u00C0-\u024F\u0900-\u097F]/g,
+  );
+}
+
+// Cut a span that is too long into windows, preferring whitespace boundaries
+function splitLongSpan(
+  text: string,
+  span: ChunkSpan,
+  maxChars: number,
+  overlapChars = 0,
+): ChunkSpan[] {
+  const windows: ChunkSpan[] = [];
+  let start = span.startIndex;
+
+  while (start < span.endIndex) {
+    let end = Math.min(start + maxChars, span.endIndex);
+    if (end < span.endIndex) {
+      let breakAt = end;
+      while (breakAt > start && !/\s/.test(text[breakAt])) breakAt--;
+      if (breakAt > start + maxChars / 2) end = breakAt;
+    }
+
+    windows.push(trimSpan(text, start, end));
+    if (end >= span.endIndex) break;
+
+    let next = Math.max(end - overlapChars, start + 1);
+    if (overlapChars > 0) {
+      let wordStart = next;
+      while (wordStart < end && !/\s/.test(text[wordStart - 1])) wordStart++;
+      if (wordStart < end) next = wordStart;
+    }
+    start = next;
+  }
+
+  return windows;
+}
+
+// Greedily pack consecutive segments into chunks of at most maxChars
+function packSegments(
+  text: string,
+  segments: ChunkSpan[],
+  maxChars: number,
+): ChunkSpan[] {
+  const chunks: ChunkSpan[] = [];
+  let current: ChunkSpan[] = [];
+
+  const flush = () => {
+    if (current.length === 0) return;
+    chunks.push(
+      trimSpan(
+        text,
+        current[0].startIndex,
+        current[current.length - 1].endIndex,
+      ),
+    );
+  };
+
+  for (const segment of segments) {
+    if (segment.endIndex - segment.startIndex > maxChars) {
+      flush();
+      current = [];
+      chunks.push(...splitLongSpan(text, segment, maxChars));
+      continue;
+    }
+
+    if (
+      current.length > 0 &&
+      segment.endIndex - current[0].startIndex > maxChars
+    ) {
+      flush();
+      current = [];
+    }
+
+    current.push(segment);
+  }
+
+  flush();
+  return chunks;
+}
+
+// Paragraph merging: small paragraphs are merged until they reach minChars,
+// paragraphs over maxChars are split at sentence boundaries
+registerChunkingStrategy({
+  id: "paragraph",
+  label: "Paragraphs",
+  defaults: { maxChars: 1000, minChars: 200 },
+  split: (text, { maxChars, minChars }) => {
+    const chunks: ChunkSpan[] = [];
+    let pending: ChunkSpan | null = null;
+    let paragraph = 0;
+
+    for (const p of findParagraphs(text)) {
+      paragraph++;
+
+      if (p.text.length > maxChars) {
+        if (pending) chunks.push(pending);
+        pending = null;
+
+        const sentences = findSentences(p.text).map((s) => ({
+          ...s,
+          startIndex: p.startIndex + s.startIndex,
+          endIndex: p.startIndex + s.endIndex,
+        }));
+        for (const span of packSegments(text, sentences, maxChars)) {
+          chunks.push({ ...span, metadata: { paragraph } });
+        }
+        continue;
+      }
+
+      const merged: ChunkSpan = pending
+        ? trimSpan(text, pending.startIndex, p.endIndex)
+        : p;
+
+      if (pending && merged.text.length > maxChars) {
+        chunks.push(pending);
+        pending = { ...p, metadata: { paragraph } };
+      } else {
+        pending = { ...merged, metadata: { paragraph } };
+      }
+
+      if (pending.text.length >= minChars) {
+        chunks.push(pending);
+        pending = null;
+      }
+    }
+
+    if (pending) chunks.push(pending);
+    return chunks;
+  },
+});
+
+// Fixed windows of approximate tokens, with optional token overlap
+registerChunkingStrategy({
+  id: "token",
+  label: "Token count",
+  defaults: { maxTokens: 256, overlapTokens: 32 },
+  split: (text, { maxTokens, overlapTokens }) => {
+    const tokens = findTokens(text);
+    const chunks: ChunkSpan[] = [];
+    const step = Math.max(1, maxTokens - overlapTokens);
+
+    for (let i = 0; i < tokens.length; i += step) {
+      const window = tokens.slice(i, i + maxTokens);
+      chunks.push({
+        ...trimSpan(
+          text,
+          window[0].startIndex,
+          window[window.length - 1].endIndex,
+        ),
+        metadata: { tokenCount: window.length },
+      });
+      if (i + maxTokens >= tokens.length) break;
+    }
+
+    return chunks;
+  },
+});
+
+// Windows of whole sentences, each window sharing overlapSentences
+// sentences with the previous one
+registerChunkingStrategy({
+  id: "sentence-window",
+  label: "Sentence window",
+  defaults: { windowSentences: 5, overlapSentences: 1 },
+  split: (text, { windowSentences, overlapSentences }) => {
+    const sentences = findSentences(text);
+    const chunks: ChunkSpan[] = [];
+    const step = Math.max(1, windowSentences - overlapSentences);
+
+    for (let i = 0; i < sentences.length; i += step) {
+      const window = sentences.slice(i, i + windowSentences);
+      chunks.push({
+        ...trimSpan(
+          text,
+          window[0].startIndex,
+          window[window.length - 1].endIndex,
+        ),
+        metadata: { sentenceCount: window.length },
+      });
+      if (i + windowSentences >= sentences.length) break;
+    }
+
+    return chunks;
+  },
+});
+
+// Markdown headings, numbered clause headings ("4.2 Payment Terms") and
+// short all-caps lines start a new section
+const HEADING_PATTERN =
+  /^(?:#{1,6}\s+.+|\d+(?:\.\d+)*\.?\s+[A-Zऀ-ॿ][^\n]{0,80}|[A-Z][A-Z0-9 ,&'()\-]{2,60})$/gm;
+
+// Sections between headings; sections longer than maxChars are packed by
+// paragraph and tagged with the heading they belong to. Headings reported by
+// the processor are used as-is, otherwise they are detected in the text.
+registerChunkingStrategy({
+  id: "heading",
+  label: "Headings",
+  defaults: { maxChars: 1500 },
+  split: (text, { maxChars }, { sections }) => {
+    const headings =
+      sections && sections.length > 0
+        ? sections.map((s) => ({
+            text: s.title,
+            startIndex: s.startIndex,
+            endIndex: s.startIndex + s.title.length,
+          }))
+        : findSpans(text, HEADING_PATTERN);
+    const chunks: ChunkSpan[] = [];
+
+    const boundaries = headings.map((h) => h.startIndex);
+    if (boundaries[0] !== 0) boundaries.unshift(0);
+
+    for (let i = 0; i < boundaries.length; i++) {
+      const start = boundaries[i];
+      const end = i + 1 < boundaries.length ? boundaries[i + 1] : text.length;
+      const heading = headings.find((h) => h.startIndex === start);
+      const section = heading
+        ? heading.text.replace(/^#+\s*/, "").trim()
+        : undefined;
+
+      const paragraphs = findParagraphs(text.slice(start, end)).map((p) => ({
+        ...p,
+        startIndex: start + p.startIndex,
+        endIndex: start + p.endIndex,
+      }));
+
+      for (const span of packSegments(text, paragraphs, maxChars)) {
+        chunks.push({ ...span, metadata: section ? { section } : {} });
+      }
+    }
+
+    return chunks;
+  },
+});
+
+// Fixed-size character windows that overlap by overlapChars, snapped to
+// word boundaries
+registerChunkingStrategy({
+  id: "sliding-overlap",
+  label: "Sliding window with overlap",
+  defaults: { windowChars: 1000, overlapChars: 200 },
+  split: (text, { windowChars, overlapChars }) => {
+    const content = trimSpan(text, 0, text.length);
+    if (!content.text) return [];
+    return splitLongSpan(text, content, windowChars, overlapChars);
+  },
+});
+
+// One chunk per presentation slide; slides longer than maxChars are packed
+// by paragraph. Without slide spans this falls back to paragraph packing.
+registerChunkingStrategy({
+  id: "slide",
+  label: "Slides",
+  defaults: { maxChars: 1500 },
+  split: (text, { maxChars }, { slides }) => {
+    const ranges =
+      slides && slides.length > 0
+        ? slides
+        : [{ startIndex: 0, endIndex: text.length }];
+
+    return ranges.flatMap((range) => {
+      const paragraphs = findParagraphs(
+        text.slice(range.startIndex, range.endIndex),
+      ).map((p) => ({
+        ...p,
+        startIndex: range.startIndex + p.startIndex,
+        endIndex: range.startIndex + p.endIndex,
+      }));
+      return packSegments(text, paragraphs, maxChars);
+    });
+  },
+});
+
+// Consecutive spreadsheet rows of one sheet, up to maxRows rows or maxChars
+// characters per chunk. Without row spans this falls back to paragraph
+// packing.
+registerChunkingStrategy({
+  id: "rows",
+  label: "Spreadsheet rows",
+  defaults: { maxRows: 20, maxChars: 1500 },
+  split: (text, { maxRows, maxChars }, { rows }) => {
+    if (!rows || rows.length === 0) {
+      return packSegments(text, findParagraphs(text), maxChars);
+    }
+
+    const chunks: ChunkSpan[] = [];
+    let current: RowSpan[] = [];
+
+    const flush = () => {
+      if (current.length === 0) return;
+      chunks.push(
+        trimSpan(text, current[0].startIndex, current[current.length - 1].endIndex),
+      );
+      current = [];
+    };
+
+    for (const row of rows) {
+      if (
+        current.length > 0 &&
+        (current[0].sheet !== row.sheet ||
+          current.length >= maxRows ||
+          row.endIndex - current[0].startIndex > maxChars)
+      ) {
+        flush();
+      }
+
+      // A single row longer than maxChars is cut into windows
+      if (row.endIndex - row.startIndex > maxChars) {
+        const span = trimSpan(text, row.startIndex, row.endIndex);
+        chunks.push(...splitLongSpan(text, span, maxChars));
+        continue;
+      }
+
+      current.push(row);
+    }
+
+    flush();
+    return chunks;
+  },
+});
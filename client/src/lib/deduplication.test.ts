@@ -0,0 +1,35 @@
+import { describe, it, expect } from 'vitest';
+import { reconcileChunks } from './deduplication';
+import { DocumentChunk } from '@/types';
+
+const chunk = (id: string, text: string, startIndex = 0): DocumentChunk => ({
+  id,
+  documentId: 'doc-1',
+  text,
+  metadata: { startIndex, endIndex: startIndex + text.length },
+});
+
+describe('reconcileChunks', () => {
+  it('keeps the ids of unchanged chunks and reports added and removed ones', () => {
+    const previous = [chunk('a', 'Intro'), chunk('b', 'Old terms'), chunk('c', 'Contacts')];
+    const next = [chunk('x', 'Intro'), chunk('y', 'New terms'), chunk('z', 'Contacts', 20)];
+
+    const { chunks, added, removedChunkIds } = reconcileChunks(previous, next);
+
+    expect(chunks.map((c) => c.id)).toEqual(['a', 'y', 'c']);
+    expect(chunks[2].metadata.startIndex).toBe(20);
+    expect(added.map((c) => c.id)).toEqual(['y']);
+    expect(removedChunkIds).toEqual(['b']);
+  });
+
+  it('matches repeated text one previous chunk at a time', () => {
+    const previous = [chunk('a', 'Total'), chunk('b', 'Total')];
+    const next = [chunk('x', 'Total'), chunk('y', 'Total'), chunk('z', 'Total')];
+
+    const { chunks, added, removedChunkIds } = reconcileChunks(previous, next);
+
+    expect(chunks.map((c) => c.id)).toEqual(['a', 'b', 'z']);
+    expect(added).toHaveLength(1);
+    expect(removedChunkIds).toEqual([]);
+  });
+});
@@ -0,0 +1,59 @@
+import { DocumentChunk } from '@/types';
+
+export interface ChunkReconciliation {
+  // The new version's chunks, reusing the previous chunk where the text is unchanged
+  chunks: DocumentChunk[];
+  // Chunks whose text is new and still need entities and embeddings
+  added: DocumentChunk[];
+  // Chunks of the previous version that no longer exist
+  removedChunkIds: string[];
+}
+
+// SHA-256 of the raw file bytes, hex encoded
+export async function computeContentHash(buffer: ArrayBuffer): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', buffer);
+  return Array.from(new Uint8Array(digest))
+    .map(byte => byte.toString(16).padStart(2, '0'))
+    .join('');
+}
+
+// Match the chunks of a re-extracted document against the previous version.
+// A chunk with the same text as an unused previous chunk keeps that chunk's
+// id, entities and embedding, and takes the new position metadata; anything
+// else is treated as added.
+export function reconcileChunks(
+  previous: DocumentChunk[],
+  next: DocumentChunk[]
+): ChunkReconciliation {
+  const previousByText = new Map<string, DocumentChunk[]>();
+  for (const chunk of previous) {
+    const matches = previousByText.get(chunk.text) || [];
+    matches.push(chunk);
+    previousByText.set(chunk.text, matches);
+  }
+
+  const reused = new Set<string>();
+  const added: DocumentChunk[] = [];
+
+  const chunks = next.map(chunk => {
+    const match = previousByText.get(chunk.text)?.shift();
+    if (!match) {
+      added.push(chunk);
+      return chunk;
+    }
+
+    reused.add(match.id);
+    return {
+      ...match,
+      metadata: chunk.metadata,
+    };
+  });
+
+  return {
+    chunks,
+    added,
+    removedChunkIds: previous
+      .filter(chunk => !reused.has(chunk.id))
+      .map(chunk => chunk.id),
+  };
+}
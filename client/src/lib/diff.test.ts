@@ -0,0 +1,32 @@
+import { describe, it, expect } from 'vitest';
+import { diffParagraphs, splitParagraphs } from './diff';
+
+describe('splitParagraphs', () => {
+  it('splits on blank lines and normalizes whitespace', () => {
+    expect(splitParagraphs('First  line\nwraps\n\n  \n\nSecond\n')).toEqual(['First line wraps', 'Second']);
+  });
+});
+
+describe('diffParagraphs', () => {
+  it('marks added, removed and edited paragraphs in reading order', () => {
+    const before = 'Scope of work\n\nBids close on 12 March.\n\nEarnest money: 2%';
+    const after = 'Scope of work\n\nBids close on 19 March.\n\nEarnest money: 2%\n\nContact the tender cell.';
+
+    expect(diffParagraphs(before, after)).toEqual([
+      { type: 'unchanged', text: 'Scope of work' },
+      { type: 'removed', text: 'Bids close on 12 March.' },
+      { type: 'added', text: 'Bids close on 19 March.' },
+      { type: 'unchanged', text: 'Earnest money: 2%' },
+      { type: 'added', text: 'Contact the tender cell.' },
+    ]);
+  });
+
+  it('ignores reflowed paragraphs', () => {
+    expect(diffParagraphs('One two\nthree', 'One\ntwo three').map(change => change.type)).toEqual(['unchanged']);
+  });
+
+  it('handles empty texts', () => {
+    expect(diffParagraphs('', 'New')).toEqual([{ type: 'added', text: 'New' }]);
+    expect(diffParagraphs('Old', '')).toEqual([{ type: 'removed', text: 'Old' }]);
+  });
+});
@@ -0,0 +1,57 @@
+export interface ParagraphChange {
+  type: 'unchanged' | 'added' | 'removed';
+  text: string;
+}
+
+// Paragraphs are separated by blank lines; whitespace inside a paragraph
+// does not count as a change
+export function splitParagraphs(text: string): string[] {
+  return text
+    .split(/\n\s*\n/)
+    .map(paragraph => paragraph.replace(/\s+/g, ' ').trim())
+    .filter(paragraph => paragraph.length > 0);
+}
+
+// Compare two texts paragraph by paragraph. The result lists the paragraphs
+// of both in reading order, with those only in the old text marked removed
+// and those only in the new text marked added. An edited paragraph shows up
+// as its old text removed followed by its new text added.
+export function diffParagraphs(oldText: string, newText: string): ParagraphChange[] {
+  const before = splitParagraphs(oldText);
+  const after = splitParagraphs(newText);
+
+  // Length of the longest common subsequence of before[i..] and after[j..]
+  const lengths: number[][] = [];
+  for (let i = before.length; i >= 0; i--) {
+    lengths[i] = [];
+    for (let j = after.length; j >= 0; j--) {
+      if (i === before.length || j === after.length) {
+        lengths[i][j] = 0;
+      } else if (before[i] === after[j]) {
+        lengths[i][j] = lengths[i + 1][j + 1] + 1;
+      } else {
+        lengths[i][j] = Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+      }
+    }
+  }
+
+  const changes: ParagraphChange[] = [];
+  let i = 0;
+  let j = 0;
+
+  while (i < before.length || j < after.length) {
+    if (i < before.length && j < after.length && before[i] === after[j]) {
+      changes.push({ type: 'unchanged', text: before[i] });
+      i++;
+      j++;
+    } else if (j < after.length && (i === before.length || lengths[i][j + 1] > lengths[i + 1][j])) {
+      changes.push({ type: 'added', text: after[j] });
+      j++;
+    } else {
+      changes.push({ type: 'removed', text: before[i] });
+      i++;
+    }
+  }
+
+  return changes;
+}
@@ -0,0 +1,57 @@
+import { describe, it, expect } from 'vitest';
+import { SearchResult } from '@/types';
+import { DEFAULT_DIVERSITY, diversifyResults } from './diversification';
+
+const result = (chunkId: string, documentId: string, score: number): SearchResult => ({
+  documentId,
+  documentName: `${documentId}.pdf`,
+  documentType: 'pdf',
+  chunkId,
+  text: '',
+  score,
+  matchPercentage: Math.round(score * 100),
+  metadata: {},
+});
+
+describe('diversifyResults', () => {
+  // Three copies of a boilerplate clause in one contract, then other content
+  const results = [
+    result('clause-1', 'contract', 0.92),
+    result('clause-2', 'contract', 0.91),
+    result('clause-3', 'contract', 0.9),
+    result('terms', 'contract', 0.8),
+    result('memo', 'memo', 0.75),
+  ];
+  const embeddings: Record<string, number[]> = {
+    'clause-1': [1, 0, 0],
+    'clause-2': [1, 0.01, 0],
+    'clause-3': [1, 0, 0.01],
+    terms: [0.2, 1, 0],
+    memo: [0, 0.2, 1],
+  };
+  const embeddingOf = (chunkId: string) => embeddings[chunkId] && new Float32Array(embeddings[chunkId]);
+  const ids = (list: SearchResult[]) => list.map(item => item.chunkId);
+
+  it('keeps the ranking when off', () => {
+    expect(diversifyResults(results, DEFAULT_DIVERSITY, embeddingOf)).toBe(results);
+  });
+
+  it('moves near-duplicate chunks below different ones with MMR', () => {
+    const diversified = diversifyResults(results, { ...DEFAULT_DIVERSITY, mode: 'mmr', lambda: 0.5 }, embeddingOf);
+    expect(ids(diversified)).toEqual(['clause-1', 'memo', 'terms', 'clause-2', 'clause-3']);
+
+    // Relevance alone keeps the original order
+    expect(ids(diversifyResults(results, { ...DEFAULT_DIVERSITY, mode: 'mmr', lambda: 1 }, embeddingOf)))
+      .toEqual(ids(results));
+  });
+
+  it('treats chunks of one document without embeddings as alike', () => {
+    const diversified = diversifyResults(results, { ...DEFAULT_DIVERSITY, mode: 'mmr', lambda: 0.5 }, () => undefined);
+    expect(ids(diversified)).toEqual(['clause-1', 'memo', 'clause-2', 'clause-3', 'terms']);
+  });
+
+  it('puts the best few results of each document first', () => {
+    const diversified = diversifyResults(results, { ...DEFAULT_DIVERSITY, mode: 'per-document', maxPerDocument: 2 }, embeddingOf);
+    expect(ids(diversified)).toEqual(['clause-1', 'clause-2', 'memo', 'clause-3', 'terms']);
+  });
+});
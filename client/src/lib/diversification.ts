@@ -0,0 +1,79 @@
+import { SearchDiversity, SearchResult } from '@/types';
+import { cosineSimilarity } from './quantization';
+
+export const DEFAULT_DIVERSITY: SearchDiversity = { mode: 'off', lambda: 0.7, maxPerDocument: 2 };
+
+export const DIVERSITY_MODES: Array<{ id: SearchDiversity['mode']; label: string }> = [
+  { id: 'off', label: 'Off' },
+  { id: 'mmr', label: 'Vary content (MMR)' },
+  { id: 'per-document', label: 'Limit per document' },
+];
+
+// Reorder ranked results so that near-identical chunks, or many chunks of
+// one document, do not fill the top. Nothing is dropped.
+export function diversifyResults(
+  results: SearchResult[],
+  diversity: SearchDiversity,
+  embeddingOf: (chunkId: string) => Float32Array | undefined
+): SearchResult[] {
+  if (diversity.mode === 'per-document') {
+    return capPerDocument(results, diversity.maxPerDocument);
+  }
+  if (diversity.mode === 'mmr') {
+    return maximalMarginalRelevance(results, diversity.lambda, embeddingOf);
+  }
+  return results;
+}
+
+// The best few results of each document first, in their order, then the
+// rest
+function capPerDocument(results: SearchResult[], maxPerDocument: number): SearchResult[] {
+  const counts = new Map<string, number>();
+  const kept: SearchResult[] = [];
+  const overflow: SearchResult[] = [];
+
+  for (const result of results) {
+    const count = counts.get(result.documentId) || 0;
+    (count < Math.max(1, maxPerDocument) ? kept : overflow).push(result);
+    counts.set(result.documentId, count + 1);
+  }
+  return kept.concat(overflow);
+}
+
+// Pick results one at a time by relevance, less their similarity to the
+// results already picked. Chunks of one document without an embedding
+// count as similar to each other, so they are still spread out.
+function maximalMarginalRelevance(
+  results: SearchResult[],
+  lambda: number,
+  embeddingOf: (chunkId: string) => Float32Array | undefined
+): SearchResult[] {
+  const maxScore = Math.max(...results.map(result => result.score), 0) || 1;
+  const remaining = results.map(result => ({ result, embedding: embeddingOf(result.chunkId) }));
+  const selected: typeof remaining = [];
+
+  const similarity = (a: (typeof remaining)[number], b: (typeof remaining)[number]) => {
+    if (a.embedding && b.embedding && a.embedding.length === b.embedding.length) {
+      return cosineSimilarity(a.embedding, b.embedding);
+    }
+    return a.result.documentId === b.result.documentId ? 1 : 0;
+  };
+
+  while (remaining.length > 0) {
+    let best = 0;
+    let bestValue = -Infinity;
+    remaining.forEach((candidate, i) => {
+      const redundancy = selected.length > 0
+        ? Math.max(...selected.map(other => similarity(candidate, other)))
+        : 0;
+      const value = lambda * (candidate.result.score / maxScore) - (1 - lambda) * redundancy;
+      if (value > bestValue) {
+        best = i;
+        bestValue = value;
+      }
+    });
+    selected.push(remaining.splice(best, 1)[0]);
+  }
+
+  return selected.map(({ result }) => result);
+}
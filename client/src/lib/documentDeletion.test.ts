@@ -0,0 +1,140 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { deleteDocuments } from './documentDeletion';
+import { useDocumentStore } from '@/hooks/useDocumentStore';
+import * as storage from './storage';
+import * as duckdb from './duckdb';
+import * as vectorStore from './vectorStore';
+import * as knowledgeGraph from './knowledgeGraph';
+
+vi.mock('./storage', () => ({
+  deleteDocument: vi.fn(),
+  findDocumentsByParent: vi.fn(),
+  getDocumentById: vi.fn(),
+}));
+
+vi.mock('./duckdb', () => ({
+  deleteDocument: vi.fn(),
+  dropDataTables: vi.fn(),
+  restoreDocument: vi.fn(),
+}));
+
+vi.mock('./vectorStore', () => ({
+  removeFromVectorStore: vi.fn(),
+  restoreToVectorStore: vi.fn(),
+}));
+
+vi.mock('./knowledgeGraph', () => ({
+  removeDocumentFromGraph: vi.fn(),
+  addDocumentToGraph: vi.fn(),
+}));
+
+const document = (id: string, parentId?: string) => ({
+  id,
+  name: `${id}.txt`,
+  type: 'txt',
+  size: 10,
+  sizeFormatted: '10 B',
+  createdAt: new Date('2024-01-15T00:00:00Z'),
+  source: 'local' as const,
+  content: {
+    fullText: 'Rent is due',
+    chunks: [{ id: `${id}-1`, documentId: id, text: 'Rent is due', metadata: { startIndex: 0, endIndex: 11 } }],
+  },
+  metadata: {},
+  ...(parentId ? { parentId } : {}),
+});
+
+describe('deleteDocuments', () => {
+  const saved = [document('archive'), document('report', 'archive'), document('memo')];
+  const entry = {
+    chunkId: 'memo-1',
+    documentId: 'memo',
+    documentName: 'memo.txt',
+    documentType: 'txt',
+    facets: { type: 'txt', tags: [] },
+    vector: { quantization: 'float32' as const, values: new Float32Array([1, 0, 0]) },
+    model: 'Xenova/multilingual-e5-small',
+    metadata: {},
+  };
+  let calls: string[];
+
+  beforeEach(() => {
+    vi.resetAllMocks();
+    calls = [];
+    useDocumentStore.setState({ documents: saved, selectedDocument: saved[2] });
+
+    vi.mocked(storage.getDocumentById).mockImplementation(async id => saved.find(doc => doc.id === id) || null);
+    vi.mocked(storage.findDocumentsByParent).mockImplementation(async id => saved.filter(doc => doc.parentId === id));
+    vi.mocked(vectorStore.removeFromVectorStore).mockImplementation(async id => {
+      calls.push(`vectors ${id}`);
+      return id === 'memo' ? [entry] : [];
+    });
+    vi.mocked(knowledgeGraph.removeDocumentFromGraph).mockImplementation(async id => {
+      calls.push(`graph ${id}`);
+    });
+    vi.mocked(duckdb.deleteDocument).mockImplementation(async id => {
+      calls.push(`duckdb ${id}`);
+    });
+    vi.mocked(storage.deleteDocument).mockImplementation(async id => {
+      calls.push(`storage ${id}`);
+    });
+    vi.mocked(duckdb.dropDataTables).mockImplementation(async id => {
+      calls.push(`tables ${id}`);
+    });
+  });
+
+  it('deletes from every store, extracted documents before their archive', async () => {
+    const result = await deleteDocuments(['archive', 'report', 'memo']);
+
+    expect(result).toEqual({ deleted: ['report', 'archive', 'memo'], failed: [] });
+    expect(calls).toEqual([
+      'vectors report', 'graph report', 'duckdb report', 'storage report', 'tables report',
+      'vectors archive', 'graph archive', 'duckdb archive', 'storage archive', 'tables archive',
+      'vectors memo', 'graph memo', 'duckdb memo', 'storage memo', 'tables memo',
+    ]);
+    expect(useDocumentStore.getState().documents).toEqual([]);
+    expect(useDocumentStore.getState().selectedDocument).toBeNull();
+  });
+
+  it('undoes the failed step and the ones before it, and deletes the rest', async () => {
+    // Failing partway, after some of the rows were deleted
+    vi.mocked(duckdb.deleteDocument).mockImplementation(async id => {
+      if (id === 'memo') throw new Error('Database connection not established');
+    });
+
+    const result = await deleteDocuments(['memo', 'archive']);
+
+    expect(result.deleted).toEqual(['report', 'archive']);
+    expect(result.failed).toEqual([{
+      id: 'memo',
+      name: 'memo.txt',
+      error: 'Could not remove memo.txt from the search index: Database connection not established',
+    }]);
+    expect(duckdb.restoreDocument).toHaveBeenCalledWith(saved[2], [{
+      ...saved[2].content.chunks[0],
+      embedding: new Float32Array([1, 0, 0]),
+      embeddingModel: entry.model,
+    }]);
+    // Entities left by a removal that did not finish are not doubled
+    expect(calls.slice(0, 3)).toEqual(['vectors memo', 'graph memo', 'graph memo']);
+    expect(knowledgeGraph.addDocumentToGraph).toHaveBeenCalledWith(saved[2]);
+    expect(vectorStore.restoreToVectorStore).toHaveBeenCalledWith([entry]);
+    expect(storage.deleteDocument).not.toHaveBeenCalledWith('memo');
+    // The data tables are kept while the original file they come from is
+    expect(duckdb.dropDataTables).not.toHaveBeenCalledWith('memo');
+    expect(useDocumentStore.getState().documents.map(doc => doc.id)).toEqual(['memo']);
+  });
+
+  it('keeps an archive when a document extracted from it cannot be deleted', async () => {
+    vi.mocked(storage.deleteDocument).mockImplementation(async id => {
+      if (id === 'report') throw new Error('Transaction failed');
+    });
+
+    const result = await deleteDocuments(['archive']);
+
+    expect(result.deleted).toEqual([]);
+    expect(result.failed.map(failure => failure.id)).toEqual(['archive']);
+    expect(duckdb.restoreDocument).toHaveBeenCalledWith(saved[1], saved[1].content.chunks);
+    expect(knowledgeGraph.removeDocumentFromGraph).not.toHaveBeenCalledWith('archive');
+  });
+});
@@ -0,0 +1,147 @@
+import { Document, DocumentChunk } from '@/types';
+import { useDocumentStore } from '@/hooks/useDocumentStore';
+import { deleteDocument as deleteSavedDocument, findDocumentsByParent, getDocumentById } from './storage';
+import { deleteDocument as deleteIndexedDocument, dropDataTables, restoreDocument } from './duckdb';
+import { removeFromVectorStore, restoreToVectorStore } from './vectorStore';
+import { dequantize } from './quantization';
+import { VectorEntry } from './vectorSnapshot';
+
+export interface DeletionResult {
+  // Every document deleted, including those extracted from an archive
+  deleted: string[];
+  failed: Array<{ id: string; name: string; error: string }>;
+}
+
+interface DeletionStep {
+  name: string;
+  run: () => Promise<void>;
+  undo: () => Promise<void>;
+}
+
+// Delete documents from every store, with the documents extracted from them.
+// A document that cannot be deleted everywhere is left as it was, and the
+// others are deleted regardless.
+export async function deleteDocuments(ids: string[]): Promise<DeletionResult> {
+  const result: DeletionResult = { deleted: [], failed: [] };
+  const store = useDocumentStore.getState();
+
+  for (const id of ids) {
+    // Already gone with an archive it came from
+    if (result.deleted.includes(id)) continue;
+
+    const document = await getDocumentById(id);
+    if (!document) {
+      // Listed but never saved, e.g. left behind by an interrupted upload
+      store.removeDocument(id);
+      result.deleted.push(id);
+      continue;
+    }
+
+    // Extracted documents deleted before one failed stay deleted
+    const deleted: string[] = [];
+    try {
+      await deleteWithChildren(document, deleted);
+    } catch (error) {
+      console.error(`Failed to delete ${document.name}:`, error);
+      result.failed.push({
+        id,
+        name: document.name,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+    deleted.forEach(deletedId => store.removeDocument(deletedId));
+    result.deleted.push(...deleted);
+  }
+
+  return result;
+}
+
+// The extracted documents go first, so an archive is only deleted once
+// nothing from it is left. The ids of the deleted documents are added to
+// the given list.
+async function deleteWithChildren(document: Document, deleted: string[]): Promise<void> {
+  for (const child of await findDocumentsByParent(document.id)) {
+    const full = await getDocumentById(child.id);
+    if (full) {
+      await deleteWithChildren(full, deleted);
+    }
+  }
+
+  await deleteFromAllStores(document);
+  deleted.push(document.id);
+}
+
+// The indexes built from a document are removed first and IndexedDB last,
+// in one transaction: it keeps the document, so as long as it has not been
+// deleted the indexes can be rebuilt from it. When a step fails it and the
+// steps before it are undone, latest first. A step may have failed partway,
+// so undoing one does not depend on how much of it ran. Data tables are
+// only dropped once the document is gone, since they are loaded from the
+// original file kept with it.
+async function deleteFromAllStores(document: Document): Promise<void> {
+  let vectorEntries: VectorEntry[] = [];
+
+  const steps: DeletionStep[] = [
+    {
+      name: 'vector index',
+      run: async () => {
+        vectorEntries = await removeFromVectorStore(document.id);
+      },
+      undo: () => restoreToVectorStore(vectorEntries),
+    },
+    {
+      name: 'knowledge graph',
+      run: () => import('./knowledgeGraph').then(module => module.removeDocumentFromGraph(document.id)),
+      undo: () => import('./knowledgeGraph').then(async module => {
+        await module.removeDocumentFromGraph(document.id);
+        await module.addDocumentToGraph(document);
+      }),
+    },
+    {
+      name: 'search index',
+      run: () => deleteIndexedDocument(document.id),
+      undo: () => restoreDocument(document, withEmbeddings(document.content.chunks, vectorEntries)),
+    },
+    {
+      // One transaction, so it deletes everything or nothing
+      name: 'document storage',
+      run: () => deleteSavedDocument(document.id),
+      undo: async () => {},
+    },
+  ];
+
+  const started: DeletionStep[] = [];
+  for (const step of steps) {
+    started.push(step);
+    try {
+      await step.run();
+    } catch (error) {
+      for (const undone of started.reverse()) {
+        try {
+          await undone.undo();
+        } catch (undoError) {
+          console.error(`Failed to restore ${document.name} to the ${undone.name}:`, undoError);
+        }
+      }
+      const reason = error instanceof Error ? error.message : String(error);
+      throw new Error(`Could not remove ${document.name} from the ${step.name}: ${reason}`);
+    }
+  }
+
+  // Tables left behind are reported by the integrity check
+  try {
+    await dropDataTables(document.id);
+  } catch (error) {
+    console.error(`Failed to drop the data tables of ${document.name}:`, error);
+  }
+}
+
+// The search index shards place chunks in their centroids by embedding,
+// which is only saved separately from the chunks
+function withEmbeddings(chunks: DocumentChunk[], entries: VectorEntry[]): DocumentChunk[] {
+  const byChunk = new Map(entries.map(entry => [entry.chunkId, entry]));
+  return chunks.map(chunk => {
+    const entry = byChunk.get(chunk.id);
+    return entry ? { ...chunk, embedding: dequantize(entry.vector), embeddingModel: entry.model } : chunk;
+  });
+}
@@ -1,371 +1,542 @@
-import { Document, DocumentChunk, DocumentMetadata } from "@/types";
-import { processDocx } from "./processors/docxProcessor";
-import { processPdf } from "./processors/pdfProcessor";
-import { processXlsx } from "./processors/xlsxProcessor";
-import { processText } from "./processors/textProcessor";
-import { saveDocument } from "./storage";
-import { formatBytes, getFileExtension } from "./utils";
-import { generateEmbeddings } from "./languageProcessing";
-import { layoutProcessor } from "./processors/layoutProcessor";
-import { insertDocument } from "./duckdb";
-
-// Document processing worker
-let worker: Worker | null = null;
-
-function getWorker() {
-  if (!worker) {
-    worker = new Worker(
-      new URL("../workers/documentWorker.ts", import.meta.url),
-      { type: "module" },
+import { ChunkProgress, Document, DocumentChunk, ExtractedFile, TabularData } from "@/types";
+import { resolveProcessor } from "./processors/registry";
+import {
+  deleteChunks,
+  findDocumentByContentHash,
+  findDocumentsByName,
+  findDocumentsByParent,
+  getAllDocuments,
+  getDocumentById,
+  getOriginalFile,
+  saveDocument,
+  saveDocumentVersion,
+  saveOriginalFile,
+} from "./storage";
+import { formatBytes, throwIfAborted } from "./utils";
+import {
+  DataTable,
+  insertDocument,
+  listDataTables,
+  loadDataTables,
+  updateDocument,
+} from "./duckdb";
+import { ChunkingOptions, splitIntoChunks } from "./chunking";
+import { WorkerPool } from "./workerPool";
+import { getActiveEmbeddingModel } from "./embeddingModels";
+import { computeContentHash, reconcileChunks } from "./deduplication";
+import { deleteDocuments } from "./documentDeletion";
+
+// Workers that compute embeddings and entities. Each loads its own copy of
+// the models, so only a few are started.
+const WORKER_COUNT = Math.max(
+  1,
+  Math.min(2, (globalThis.navigator?.hardwareConcurrency || 2) - 1),
+);
+
+// Chunks embedded together in one pass through the model
+const EMBEDDING_BATCH_SIZE = 16;
+
+// Archives inside archives are expanded this many levels deep; files nested
+// deeper are skipped, so an archive that contains itself cannot recurse on
+const MAX_NESTING_DEPTH = 3;
+
+let workerPool: WorkerPool | null = null;
+
+function getWorkerPool() {
+  if (!workerPool) {
+    workerPool = new WorkerPool(
+      () =>
+        new Worker(new URL("../workers/documentWorker.ts", import.meta.url), {
+          type: "module",
+        }),
+      WORKER_COUNT,
     );
   }
-  return worker;
+  return workerPool;
 }
 
-// Process document using worker
-async function processDocumentWithWorker(
+// Send chunks to the worker pool in batches. onProgress is called with the
+// number of chunks done so far.
+async function runInWorkers(
+  type: "PROCESS_DOCUMENT" | "EMBED_CHUNKS" | "EXTRACT_ENTITIES",
   chunks: DocumentChunk[],
+  model: string | undefined,
+  onProgress: (processed: number) => void,
+  signal?: AbortSignal,
 ): Promise<DocumentChunk[]> {
-  return new Promise((resolve, reject) => {
-    const worker = getWorker();
-    const cleanupListener = () => {
-      worker.onmessage = null;
-      worker.onerror = null;
-    };
+  throwIfAborted(signal);
 
-    worker.onerror = (error) => {
-      cleanupListener();
-      reject(error);
-    };
+  const batches: DocumentChunk[][] = [];
+  for (let i = 0; i < chunks.length; i += EMBEDDING_BATCH_SIZE) {
+    batches.push(chunks.slice(i, i + EMBEDDING_BATCH_SIZE));
+  }
 
-    worker.onmessage = (e) => {
-      const { type, payload } = e.data;
-      if (type === "PROCESSING_COMPLETE") {
-        cleanupListener();
-        resolve(payload);
-      } else if (type === "PROCESSING_ERROR") {
-        cleanupListener();
-        reject(new Error(payload));
-      }
-    };
+  const processedPerBatch = batches.map(() => 0);
+  const results = await Promise.all(
+    batches.map((batch, index) =>
+      getWorkerPool().run<DocumentChunk[]>(
+        type,
+        { chunks: batch, model },
+        {
+          signal,
+          onProgress: (processed: number) => {
+            processedPerBatch[index] = processed;
+            onProgress(processedPerBatch.reduce((sum, count) => sum + count, 0));
+          },
+        },
+      ),
+    ),
+  );
 
-    // Ensure listeners are registered before posting message
-    setTimeout(() => {
-      worker.postMessage({ type: "PROCESS_DOCUMENT", payload: { chunks } });
-    }, 0);
-  });
+  return results.reduce((all, batch) => all.concat(batch), []);
+}
+
+// Compute embeddings with the active model and extract entities
+function processChunksInWorkers(
+  chunks: DocumentChunk[],
+  onProgress: (processed: number) => void,
+  signal?: AbortSignal,
+): Promise<DocumentChunk[]> {
+  return runInWorkers(
+    "PROCESS_DOCUMENT",
+    chunks,
+    getActiveEmbeddingModel().id,
+    onProgress,
+    signal,
+  );
+}
+
+// Compute embeddings with the given model only, for chunks that already
+// have their entities
+export function embedChunksInWorkers(
+  chunks: DocumentChunk[],
+  model: string,
+  onProgress: (processed: number) => void,
+  signal?: AbortSignal,
+): Promise<DocumentChunk[]> {
+  return runInWorkers("EMBED_CHUNKS", chunks, model, onProgress, signal);
+}
+
+// Extract entities only, for chunks that were indexed without them
+export function extractEntitiesInWorkers(
+  chunks: DocumentChunk[],
+  onProgress: (processed: number) => void = () => {},
+  signal?: AbortSignal,
+): Promise<DocumentChunk[]> {
+  return runInWorkers("EXTRACT_ENTITIES", chunks, undefined, onProgress, signal);
+}
+
+export interface ProcessFileOptions {
+  // Overrides the chunking strategy picked for the document type
+  chunking?: ChunkingOptions;
+  // Cancels processing; nothing is written once the signal has fired
+  signal?: AbortSignal;
+  // Id to give a new document, so a restarted job reuses the same one
+  documentId?: string;
+  // Decode text files with this encoding instead of detecting it
+  encoding?: string;
+  // Process the file even if identical content is already indexed, e.g.
+  // to apply a different encoding
+  reindex?: boolean;
+  // Archive the file was extracted from, and its path inside it
+  parentId?: string;
+  archivePath?: string;
+  // How many archives the file is nested in
+  depth?: number;
+  // Document the file is a new version of, whatever the file is named
+  versionOf?: string;
+}
+
+export interface ProcessFileResult {
+  document: Document;
+  // "duplicate" when the exact same content was already indexed, "updated"
+  // when the file is a new version of a document and was re-indexed in place
+  status: "indexed" | "updated" | "duplicate";
+  // Chunks that still need to be added to the vector index, with their
+  // embeddings
+  addedChunks: DocumentChunk[];
+  // Chunks of the earlier version that were dropped
+  removedChunkIds: string[];
+  // Results for the files extracted from an archive
+  children?: ProcessFileResult[];
+  // Documents that were extracted from an earlier version of the archive
+  // and no longer exist; they are already deleted from every store and the
+  // document list
+  removedDocumentIds?: string[];
 }
 
 // Main document processing function
 export async function processFile(
   file: File,
-  onProgress: (progress: number) => void,
-): Promise<Document> {
+  onProgress: (progress: number, chunks?: ChunkProgress) => void,
+  options: ProcessFileOptions = {},
+): Promise<ProcessFileResult> {
   try {
     onProgress(10);
 
     // Step 1: Read the file
+    const { signal } = options;
+    if ((options.depth || 0) > MAX_NESTING_DEPTH) {
+      throw new Error(`Nested in more than ${MAX_NESTING_DEPTH} archives`);
+    }
     const arrayBuffer = await readFileAsArrayBuffer(file);
-    onProgress(20);
+    throwIfAborted(signal);
+
+    // Step 2: Choose a processor from the file's content, extension and MIME type
+    const match = resolveProcessor(arrayBuffer, file.name, file.type);
+    if (!match) {
+      throw new Error(`Unsupported file type: ${file.name}`);
+    }
+    const { processor, fileType } = match;
+
+    // Skip the file if the same content is already indexed. Files in an
+    // archive belong to it, so they are indexed even if the same content
+    // was uploaded on its own.
+    const contentHash = await computeContentHash(arrayBuffer);
+
+    const duplicate = options.reindex || options.parentId
+      ? null
+      : await findDocumentByContentHash(contentHash);
+    if (duplicate) {
+      onProgress(100);
+      return {
+        document: duplicate,
+        status: "duplicate",
+        addedChunks: [],
+        removedChunkIds: [],
+      };
+    }
 
-    // Step 2: Determine file type and choose processor
-    const fileType = getFileExtension(file.name);
+    // A file with the same name but different content is a new version of
+    // that document and is re-indexed in place, unless the upload names the
+    // document it is a version of. Inside an archive the path identifies the
+    // file instead.
+    const previous = options.versionOf
+      ? await getDocumentById(options.versionOf)
+      : (await findDocumentsByName(file.name)).find(
+          (doc) =>
+            doc.parentId === options.parentId &&
+            doc.archivePath === options.archivePath,
+        );
+    if (options.versionOf && !previous) {
+      throw new Error("The document this is a new version of no longer exists");
+    }
+    // A document found by name is read without its chunks
+    const previousChunks = !previous
+      ? []
+      : options.versionOf
+        ? previous.content.chunks
+        : (await getDocumentById(previous.id))?.content.chunks || [];
+
+    // Re-processing the same content, e.g. with another encoding, replaces
+    // the current version instead of adding one
+    const previousVersion = previous?.version || 1;
+    const replacesVersion =
+      !!previous && previous.metadata.contentHash !== contentHash;
+    onProgress(20);
 
-    // Step 3: Extract text, layout, and metadata based on file type
-    const { text, metadata } = await extractTextAndMetadata(
+    // Step 3: Extract text, layout, and metadata. Any structure the
+    // processor reports (pages, sections, slides, OCR regions) is handed on
+    // to the chunker.
+    const { text, metadata, tables, children, ...structure } = await processor.process(
       arrayBuffer,
-      fileType,
-      file.name,
       (subProgress) => onProgress(20 + subProgress * 0.2),
+      signal,
+      { encoding: options.encoding },
     );
 
-    // Process layout if document contains images
-    let layoutChunks: Array<DocumentChunk> = [];
-    // layoutChunks = await layoutProcessor.processDocument(arrayBuffer);
-    // onProgress(40);
-
     onProgress(50);
 
-    // Step 4: Split text into chunks and merge with layout chunks
-    const textChunks = await splitIntoChunks(text, {
-      documentId: crypto.randomUUID(),
-      fileName: file.name,
-    });
-
-    const chunks = [
-      ...textChunks,
-      ...layoutChunks.map((chunk) => ({
-        ...chunk,
-        documentId: textChunks[0].documentId,
-      })),
-    ];
+    // Step 4: Split text into chunks. Scanned pages and images were already
+    // OCRed by their processor, so their regions are mapped onto the chunks.
+    // Chunks whose text did not change since the previous version are reused.
+    const documentId = previous?.id || options.documentId || crypto.randomUUID();
+    const { chunks, added, removedChunkIds } = reconcileChunks(
+      previousChunks,
+      splitIntoChunks(text, {
+        documentId,
+        documentType: fileType,
+        chunking: options.chunking,
+        ...structure,
+      }),
+    );
 
     onProgress(60);
 
-    // Step 5: Generate embeddings for chunks using worker
-    const chunksWithEmbeddings = await processDocumentWithWorker(chunks);
-
-    console.log("Chunks with embeddings:", chunksWithEmbeddings);
+    // Step 5: Index the files inside an archive as documents of their own
+    const childResults = children
+      ? await processChildren(children, documentId, options, (childProgress) =>
+          onProgress(60 + childProgress * 0.1),
+        )
+      : null;
+
+    // Step 6: Compute embeddings and extract entities for the new chunks in
+    // the worker pool, which takes most of the time for large documents
+    const processedChunks = added.length > 0
+      ? await processChunksInWorkers(
+          added,
+          (processed) =>
+            onProgress(70 + (processed / added.length) * 20, {
+              processed,
+              total: added.length,
+            }),
+          signal,
+        )
+      : [];
+
+    // Embeddings are kept in their own store rather than with the document
+    const processedById = new Map(
+      processedChunks.map(({ embedding, embeddingModel, ...chunk }) => [
+        chunk.id,
+        chunk,
+      ]),
+    );
+    const documentChunks = chunks.map(
+      (chunk) => processedById.get(chunk.id) || chunk,
+    );
 
     onProgress(90);
 
-    // Step 6: Create document object
+    // Step 7: Create document object
     const document: Document = {
-      id: chunks[0].documentId,
+      id: documentId,
       name: file.name,
       type: fileType,
       size: file.size,
       sizeFormatted: formatBytes(file.size),
-      createdAt: new Date(),
+      createdAt: previous?.createdAt || new Date(),
       content: {
         fullText: text,
-        chunks: chunksWithEmbeddings,
+        chunks: documentChunks,
       },
       source: "local",
+      version: replacesVersion ? previousVersion + 1 : previousVersion,
       metadata: {
         ...metadata,
         mimeType: file.type,
+        processor: processor.id,
+        contentHash,
+        ...(previous ? { reindexedAt: new Date() } : {}),
+        ...(childResults?.skipped.length
+          ? { skippedFiles: childResults.skipped }
+          : {}),
       },
+      ...(options.parentId
+        ? { parentId: options.parentId, archivePath: options.archivePath }
+        : {}),
     };
 
-    // Step 7: Build knowledge graph
-    await import("./knowledgeGraph").then((module) =>
-      module.addDocumentToGraph(document),
-    );
+    // Last chance to cancel; from here on the stores are written
+    throwIfAborted(signal);
+
+    // Step 8: Build knowledge graph. A new document may have entities left
+    // over from an attempt that was interrupted by a reload.
+    await import("./knowledgeGraph").then(async (module) => {
+      if (previous) {
+        await module.removeChunksFromGraph(removedChunkIds);
+      } else {
+        await module.removeDocumentFromGraph(documentId);
+      }
+      await module.addDocumentToGraph(document, processedChunks);
+    });
+
+    // Step 9: Save document to storage. IndexedDB is written last, so a
+    // document found there by its content hash is known to be fully indexed.
+    // The version being replaced is kept first; its id is fixed so that a
+    // restarted job keeps it only once.
+    if (previous && replacesVersion) {
+      await saveDocumentVersion({
+        id: `${documentId}:${previousVersion}`,
+        documentId,
+        version: previousVersion,
+        name: previous.name,
+        size: previous.size,
+        sizeFormatted: previous.sizeFormatted,
+        indexedAt: previous.metadata.reindexedAt || previous.createdAt,
+        fullText: previous.content.fullText,
+        metadata: previous.metadata,
+      });
+    }
+
+    if (previous) {
+      await updateDocument(document, processedChunks, removedChunkIds);
+    } else {
+      await insertDocument(document, processedChunks);
+    }
 
-    // Step 8: Save document to storage
+    // Spreadsheets and CSV files are also loaded as tables for SQL queries
+    const dataTables = dataTablesOf(fileType, text, tables);
+    if (dataTables.length > 0 || previous) {
+      await loadDataTables(documentId, file.name, dataTables);
+    }
+    await deleteChunks(removedChunkIds);
     await saveDocument(document);
-    await insertDocument(document);
+
+    // Files dropped from a new version of an archive go with it
+    const removedDocumentIds = previous
+      ? await removeStaleChildren(
+          documentId,
+          (children || []).map((child) => child.path),
+        )
+      : [];
+
+    // Text can be decoded again with another encoding, and data tables
+    // loaded again after a page load, which needs the bytes
+    if (processor.supportsEncoding || dataTables.length > 0) {
+      await saveOriginalFile(documentId, file);
+    }
 
     onProgress(100);
 
-    return document;
+    return {
+      document,
+      status: previous ? "updated" : "indexed",
+      addedChunks: processedChunks,
+      removedChunkIds,
+      children: childResults?.results,
+      removedDocumentIds,
+    };
   } catch (error) {
     console.error("Error processing file:", error);
     throw error;
   }
 }
 
-// Read file as ArrayBuffer
-function readFileAsArrayBuffer(file: File): Promise<ArrayBuffer> {
-  return new Promise((resolve, reject) => {
-    const reader = new FileReader();
-
-    reader.onload = () => {
-      resolve(reader.result as ArrayBuffer);
-    };
+// Spreadsheets and CSV files, which are loaded as data tables
+export const DATA_TABLE_TYPES = ["csv", "xlsx", "xls"];
 
-    reader.onerror = () => {
-      reject(new Error("Error reading file"));
-    };
+// Tables to load for SQL queries: the sheets the processor extracted, or a
+// CSV file as a whole
+function dataTablesOf(
+  fileType: string,
+  text: string,
+  tables?: TabularData[],
+): TabularData[] {
+  return tables || (fileType === "csv" ? [{ csv: text }] : []);
+}
 
-    reader.readAsArrayBuffer(file);
-  });
+// Load a document's data tables again from its original file. DuckDB runs
+// in memory, so they are gone after a page load. There are none to load if
+// the original file was not kept.
+export async function reloadDataTables(document: Document): Promise<DataTable[]> {
+  const file = await getOriginalFile(document.id);
+  if (!file) return [];
+
+  const arrayBuffer = await readFileAsArrayBuffer(file);
+  const match = resolveProcessor(arrayBuffer, file.name, file.type);
+  if (!match) return [];
+
+  const { text, tables } = await match.processor.process(
+    arrayBuffer,
+    () => {},
+    undefined,
+    { encoding: document.metadata.encoding },
+  );
+  return loadDataTables(
+    document.id,
+    document.name,
+    dataTablesOf(match.fileType, text, tables),
+  );
 }
 
-// Extract text and metadata from file
-async function extractTextAndMetadata(
-  buffer: ArrayBuffer,
-  fileType: string,
-  fileName: string,
-  onProgress: (progress: number) => void,
-): Promise<{ text: string; metadata: DocumentMetadata }> {
-  switch (fileType.toLowerCase()) {
-    case "pdf":
-      return processPdf(buffer, onProgress);
-    case "docx":
-    case "doc":
-      return processDocx(buffer, onProgress);
-    case "xlsx":
-    case "xls":
-      return processXlsx(buffer, onProgress);
-    case "txt":
-    case "md":
-    case "csv":
-      return processText(buffer, onProgress);
-    default:
-      try {
-        // Try text processing as fallback
-        return processText(buffer, onProgress);
-      } catch (error) {
-        throw new Error(`Unsupported file type: ${fileType}`);
+// Load the data tables of the spreadsheets and CSV files that have none
+// loaded, e.g. on start-up. Returns the ids of the documents that got them
+// back.
+export async function restoreDataTables(): Promise<string[]> {
+  const loaded = new Set(
+    (await listDataTables()).map((table) => table.documentId),
+  );
+  const restored: string[] = [];
+
+  for (const document of await getAllDocuments()) {
+    if (!DATA_TABLE_TYPES.includes(document.type) || loaded.has(document.id)) {
+      continue;
+    }
+    try {
+      if ((await reloadDataTables(document)).length > 0) {
+        restored.push(document.id);
       }
+    } catch (error) {
+      console.warn(`Failed to load the data tables of ${document.name}:`, error);
+    }
   }
-}
-
-// Split text into chunks
-async function splitIntoChunks(
-  text: string,
-  options: { documentId: string; fileName: string },
-): Promise<DocumentChunk[]> {
-  const { documentId, fileName } = options;
-
-  // Simple chunking strategy: split by paragraphs then combine
-  // If a paragraph is too long, split it further
-  const MAX_CHUNK_SIZE = 1000; // characters
-  const MIN_CHUNK_SIZE = 200; // characters
-
-  const paragraphs = text.split(/\n\s*\n/);
-  const chunks: DocumentChunk[] = [];
-
-  let currentChunk = "";
-  let startIndex = 0;
-  let paragraph = 1;
-
-  for (const p of paragraphs) {
-    const trimmedP = p.trim();
-    if (!trimmedP) continue;
-
-    // If this paragraph is very large, split it further
-    if (trimmedP.length > MAX_CHUNK_SIZE) {
-      // First, add existing chunk if needed
-      if (currentChunk) {
-        chunks.push({
-          id: crypto.randomUUID(),
-          documentId,
-          text: currentChunk,
-          metadata: {
-            startIndex,
-            endIndex: startIndex + currentChunk.length,
-            paragraph: paragraph - 1,
-          },
-        });
 
-        currentChunk = "";
-      }
+  return restored;
+}
 
-      // Now split the large paragraph
-      let sentenceStart = 0;
-      const sentences = trimmedP.match(/[^.!?]+[.!?]+/g) || [trimmedP];
-
-      let sentenceChunk = "";
-
-      for (const sentence of sentences) {
-        if (sentenceChunk.length + sentence.length > MAX_CHUNK_SIZE) {
-          chunks.push({
-            id: crypto.randomUUID(),
-            documentId,
-            text: sentenceChunk,
-            metadata: {
-              startIndex: startIndex + sentenceStart,
-              endIndex: startIndex + sentenceStart + sentenceChunk.length,
-              paragraph,
-            },
-          });
-
-          sentenceStart += sentenceChunk.length;
-          sentenceChunk = sentence;
-        } else {
-          sentenceChunk += sentence;
-        }
-      }
+// Process the files extracted from an archive. Files that are not supported
+// or fail to process are skipped and listed on the archive instead.
+async function processChildren(
+  children: ExtractedFile[],
+  parentId: string,
+  options: ProcessFileOptions,
+  onProgress: (progress: number) => void,
+): Promise<{
+  results: ProcessFileResult[];
+  skipped: Array<{ path: string; reason: string }>;
+}> {
+  const results: ProcessFileResult[] = [];
+  const skipped: Array<{ path: string; reason: string }> = [];
 
-      // Add any remaining sentence chunk
-      if (sentenceChunk) {
-        chunks.push({
-          id: crypto.randomUUID(),
-          documentId,
-          text: sentenceChunk,
-          metadata: {
-            startIndex: startIndex + sentenceStart,
-            endIndex: startIndex + sentenceStart + sentenceChunk.length,
-            paragraph,
-          },
-        });
-      }
-    } else {
-      // Normal sized paragraph
-      if (currentChunk.length + trimmedP.length > MAX_CHUNK_SIZE) {
-        // Current chunk would be too large, store it and start a new one
-        chunks.push({
-          id: crypto.randomUUID(),
-          documentId,
-          text: currentChunk,
-          metadata: {
-            startIndex,
-            endIndex: startIndex + currentChunk.length,
-            paragraph: paragraph - 1,
-          },
-        });
-
-        currentChunk = trimmedP;
-        startIndex = text.indexOf(trimmedP);
-      } else if (currentChunk.length + trimmedP.length < MIN_CHUNK_SIZE) {
-        // Chunk is still small, add to it
-        currentChunk = currentChunk
-          ? `${currentChunk}\n\n${trimmedP}`
-          : trimmedP;
-        if (!currentChunk) startIndex = text.indexOf(trimmedP);
-      } else {
-        // Chunk would be a good size, add this paragraph
-        currentChunk = currentChunk
-          ? `${currentChunk}\n\n${trimmedP}`
-          : trimmedP;
-        if (!currentChunk) startIndex = text.indexOf(trimmedP);
-
-        chunks.push({
-          id: crypto.randomUUID(),
-          documentId,
-          text: currentChunk,
-          metadata: {
-            startIndex,
-            endIndex: startIndex + currentChunk.length,
-            paragraph,
-          },
-        });
+  for (let i = 0; i < children.length; i++) {
+    const { path, data } = children[i];
+    const name = path.split("/").pop() || path;
 
-        currentChunk = "";
-      }
+    try {
+      const result = await processFile(
+        new File([data], name),
+        (progress) => onProgress(((i + progress / 100) / children.length) * 100),
+        {
+          chunking: options.chunking,
+          signal: options.signal,
+          parentId,
+          archivePath: path,
+          depth: (options.depth || 0) + 1,
+        },
+      );
+      results.push(result);
+    } catch (error) {
+      throwIfAborted(options.signal);
+      skipped.push({ path, reason: (error as Error)?.message || "Unknown error" });
     }
-
-    paragraph++;
-  }
-
-  // Add the last chunk if there is one
-  if (currentChunk) {
-    chunks.push({
-      id: crypto.randomUUID(),
-      documentId,
-      text: currentChunk,
-      metadata: {
-        startIndex,
-        endIndex: startIndex + currentChunk.length,
-        paragraph: paragraph - 1,
-      },
-    });
   }
 
-  return chunks;
+  return { results, skipped };
 }
 
-// Process chunks with embeddings -  This function is now largely handled by the worker
-async function processChunksWithEmbeddings(
-  chunks: DocumentChunk[],
-  onProgress: (progress: number) => void,
-): Promise<DocumentChunk[]> {
-  const total = chunks.length;
-  const processed = [];
+// Remove the documents extracted from an earlier version of an archive that
+// are not at one of the given paths any more, including anything extracted
+// from them in turn. Returns the ids of the removed documents.
+async function removeStaleChildren(
+  parentId: string,
+  paths: string[],
+): Promise<string[]> {
+  const current = new Set(paths);
+  const stale = (await findDocumentsByParent(parentId)).filter(
+    (doc) => !current.has(doc.archivePath || ""),
+  );
+  if (stale.length === 0) return [];
+
+  const { deleted, failed } = await deleteDocuments(stale.map((doc) => doc.id));
+  if (failed.length > 0) {
+    throw new Error(failed.map((failure) => failure.error).join("; "));
+  }
+  return deleted;
+}
 
-  for (let i = 0; i < chunks.length; i++) {
-    const chunk = chunks[i];
-    try {
-      //The embedding generation is now handled in the worker.
-      const embedding = await generateEmbeddings(chunk.text);
+// Read file as ArrayBuffer
+function readFileAsArrayBuffer(file: File): Promise<ArrayBuffer> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
 
-      // Add embedding to chunk
-      const processedChunk = {
-        ...chunk,
-        embedding,
-      };
+    reader.onload = () => {
+      resolve(reader.result as ArrayBuffer);
+    };
 
-      processed.push(processedChunk);
-      onProgress(((i + 1) / total) * 100);
-    } catch (error) {
-      console.error("Error generating embedding for chunk:", error);
-      processed.push(chunk); // Still add chunk without embedding
-      onProgress(((i + 1) / total) * 100);
-    }
-  }
+    reader.onerror = () => {
+      reject(new Error("Error reading file"));
+    };
 
-  return processed;
+    reader.readAsArrayBuffer(file);
+  });
 }
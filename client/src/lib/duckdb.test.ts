@@ -0,0 +1,11 @@
+import { describe, it, expect } from 'vitest';
+import { dataTableName } from './duckdb';
+
+describe('dataTableName', () => {
+  it('derives SQL-friendly names from files and sheets', () => {
+    expect(dataTableName('Invoices 2024.csv')).toBe('invoices_2024');
+    expect(dataTableName('Sales.xlsx', 'Q4 (final)')).toBe('sales_q4_final');
+    expect(dataTableName('2024.csv')).toBe('t_2024');
+    expect(dataTableName('बिक्री.csv')).toBe('table');
+  });
+});
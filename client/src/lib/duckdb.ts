@@ -1,23 +1,45 @@
 import * as duckdb from "@duckdb/duckdb-wasm";
-import { ShardedStorageManager } from "./shardedStorage";
+import { Document, DocumentChunk, SearchFilters, SearchResult, TabularData } from "@/types";
+import { ShardedStorageManager, ShardSearchResult } from "./shardedStorage";
+import { absoluteAssetUrl } from "./offlineAssets";
+import { documentFacets, hasFilters, matchesFilters } from "./searchFilters";
+
+// Builds with and without WASM exceptions, served by our own server
+const DUCKDB_BUNDLES: duckdb.DuckDBBundles = {
+  mvp: {
+    mainModule: absoluteAssetUrl("duckdb/duckdb-mvp.wasm"),
+    mainWorker: absoluteAssetUrl("duckdb/duckdb-browser-mvp.worker.js"),
+  },
+  eh: {
+    mainModule: absoluteAssetUrl("duckdb/duckdb-eh.wasm"),
+    mainWorker: absoluteAssetUrl("duckdb/duckdb-browser-eh.worker.js"),
+  },
+};
 
 // Initialize DuckDB database
 let db: duckdb.AsyncDuckDB | null = null;
 let conn: duckdb.AsyncDuckDBConnection | null = null;
+// Search index kept in IndexedDB shards. DuckDB runs in memory, so chunks
+// indexed in earlier sessions are only found through the shards.
+let shardManager: ShardedStorageManager | null = null;
 
 // Initialize DuckDB with sharded storage support
 export async function initDuckDB(): Promise<void> {
   try {
     if (db) return;
 
-    const shardManager = new ShardedStorageManager();
-    await shardManager.initialize();
-
-    // Load the WASM files and worker
-    const JSDELIVR_BUNDLES = duckdb.getJsDelivrBundles();
+    if (!shardManager) {
+      try {
+        const manager = new ShardedStorageManager();
+        await manager.initialize();
+        shardManager = manager;
+      } catch (error) {
+        console.error("Error initializing search index shards:", error);
+      }
+    }
 
     // Select the bundle based on browser support
-    const bundle = await duckdb.selectBundle(JSDELIVR_BUNDLES);
+    const bundle = await duckdb.selectBundle(DUCKDB_BUNDLES);
 
     const worker_url = URL.createObjectURL(
       new Blob([`importScripts("${bundle.mainWorker!}");`], {
@@ -97,6 +119,20 @@ async function createTables(): Promise<void> {
         result_count INTEGER
       )
     `);
+
+    // Create data_tables catalog, mapping tables loaded from spreadsheets
+    // and CSV files to the document they came from
+    await conn.query(`
+      CREATE TABLE IF NOT EXISTS data_tables (
+        table_name VARCHAR PRIMARY KEY,
+        document_id VARCHAR,
+        sheet VARCHAR,
+        row_count BIGINT,
+        columns JSON,
+        created_at TIMESTAMP,
+        FOREIGN KEY (document_id) REFERENCES documents(id)
+      )
+    `);
   } catch (error) {
     console.error("Error creating tables:", error);
     throw error;
@@ -131,19 +167,25 @@ export async function executeQuery<T = any>(
   }
 }
 
-// Insert a document
+// Insert a document. Embeddings given with its chunks go into the centroids
+// of the search index shards.
 export async function insertDocument(document: {
   id: string;
   name: string;
   type: string;
   size: number;
   createdAt: Date;
-  source: string;
+  source: Document["source"];
   metadata: any;
   content: {
-    chunks: any[];
+    chunks: DocumentChunk[];
   };
-}): Promise<void> {
+}, embeddedChunks: DocumentChunk[] = document.content.chunks): Promise<void> {
+  await insertDocumentRows(document);
+  await shardManager?.addDocument(document, embeddedChunks);
+}
+
+async function insertDocumentRows(document: Parameters<typeof insertDocument>[0]): Promise<void> {
   await executeQuery(
     `INSERT INTO documents (id, name, type, size, created_at, source, metadata)
     VALUES (?, ?, ?, ?, ?, ?, ?)`,
@@ -189,23 +231,310 @@ export async function insertDocumentChunks(
   }
 }
 
-// Execute a keyword search
+// Bring a re-indexed document up to date: drop the chunks that no longer
+// exist, refresh the document row and insert the new chunks
+export async function updateDocument(
+  document: Parameters<typeof insertDocument>[0],
+  addedChunks: DocumentChunk[],
+  removedChunkIds: string[],
+): Promise<void> {
+  // The shards outlive the session and keep the unchanged chunks
+  await shardManager?.updateDocument(document, addedChunks, removedChunkIds);
+
+  const existing = await executeQuery(
+    `SELECT id FROM documents WHERE id = ?`,
+    [document.id],
+  );
+
+  // DuckDB runs in memory, so after a reload the previous version is gone
+  if (existing.length === 0) {
+    await insertDocumentRows(document);
+    return;
+  }
+
+  for (const chunkId of removedChunkIds) {
+    await executeQuery(`DELETE FROM search_index WHERE chunk_id = ?`, [chunkId]);
+    await executeQuery(`DELETE FROM document_chunks WHERE id = ?`, [chunkId]);
+  }
+
+  await executeQuery(
+    `UPDATE documents SET size = ?, metadata = ? WHERE id = ?`,
+    [document.size, JSON.stringify(document.metadata), document.id],
+  );
+
+  await insertDocumentChunks(addedChunks);
+}
+
+// Remove a document together with its chunks and search index entries. Its
+// data tables are dropped separately, as they cannot be restored without
+// the original file.
+export async function deleteDocument(documentId: string): Promise<void> {
+  await executeQuery(`DELETE FROM search_index WHERE document_id = ?`, [
+    documentId,
+  ]);
+  await executeQuery(`DELETE FROM document_chunks WHERE document_id = ?`, [
+    documentId,
+  ]);
+  await executeQuery(`DELETE FROM documents WHERE id = ?`, [documentId]);
+  await shardManager?.removeDocument(documentId);
+}
+
+// Chunk ids of every document in the database, to compare with the saved
+// documents. A document without chunks is listed with an empty list.
+export async function listIndexedChunks(): Promise<Map<string, string[]>> {
+  const documents = await executeQuery<{ id: string }>(`SELECT id FROM documents`);
+  const chunks = await executeQuery<{ id: string; document_id: string }>(
+    `SELECT id, document_id FROM document_chunks`,
+  );
+
+  const chunkIds = new Map<string, string[]>();
+  documents.forEach((row) => chunkIds.set(row.id, []));
+  chunks.forEach((row) => {
+    chunkIds.set(row.document_id, [...(chunkIds.get(row.document_id) || []), row.id]);
+  });
+  return chunkIds;
+}
+
+// Write a document's chunk rows again from its saved copy, e.g. after a
+// reload emptied the database. The document row and its data tables are
+// kept when present.
+export async function rewriteDocumentRows(
+  document: Parameters<typeof insertDocument>[0],
+): Promise<void> {
+  const existing = await executeQuery(
+    `SELECT id FROM documents WHERE id = ?`,
+    [document.id],
+  );
+  if (existing.length === 0) {
+    await insertDocumentRows(document);
+    return;
+  }
+
+  await executeQuery(`DELETE FROM search_index WHERE document_id = ?`, [
+    document.id,
+  ]);
+  await executeQuery(`DELETE FROM document_chunks WHERE document_id = ?`, [
+    document.id,
+  ]);
+  await insertDocumentChunks(document.content.chunks);
+}
+
+// Put a document back after a deletion that did not go through, whatever
+// part of it had already been removed. Running it again changes nothing.
+export async function restoreDocument(
+  document: Parameters<typeof insertDocument>[0],
+  embeddedChunks: DocumentChunk[] = document.content.chunks,
+): Promise<void> {
+  await rewriteDocumentRows(document);
+  await shardManager?.addDocument(document, embeddedChunks);
+}
+
+// The search index shards, once DuckDB has been initialized
+export function getShardManager(): ShardedStorageManager | null {
+  return shardManager;
+}
+
+export interface DataTable {
+  tableName: string;
+  documentId: string;
+  sheet: string | null;
+  rowCount: number;
+  columns: Array<{ name: string; type: string }>;
+}
+
+// Tables the application itself keeps, which data tables must not shadow
+const RESERVED_TABLE_NAMES = [
+  "documents",
+  "document_chunks",
+  "search_index",
+  "search_logs",
+  "data_tables",
+];
+
+// Load a document's tabular data as typed tables, one per CSV file or sheet,
+// replacing the tables of any earlier version. DuckDB's CSV reader infers
+// the column types. A table that fails to load is skipped, since the text
+// of the document has been indexed regardless.
+export async function loadDataTables(
+  documentId: string,
+  documentName: string,
+  tables: TabularData[],
+): Promise<DataTable[]> {
+  if (!db) await initDuckDB();
+  if (!db) throw new Error("Database connection not established");
+
+  await dropDataTables(documentId);
+
+  const existing = await executeQuery<{ table_name: string }>(
+    `SELECT table_name FROM data_tables`,
+  );
+  const taken = new Set([
+    ...RESERVED_TABLE_NAMES,
+    ...existing.map((row) => row.table_name),
+  ]);
+  const loaded: DataTable[] = [];
+
+  for (const table of tables) {
+    const tableName = uniqueTableName(
+      dataTableName(documentName, table.sheet),
+      taken,
+    );
+    const fileName = `${tableName}.csv`;
+
+    try {
+      await db.registerFileText(fileName, table.csv);
+      await executeQuery(
+        `CREATE TABLE "${tableName}" AS
+         SELECT * FROM read_csv_auto('${fileName}', header = true)`,
+      );
+
+      const columns = await executeQuery<{
+        column_name: string;
+        column_type: string;
+      }>(`DESCRIBE "${tableName}"`);
+      const [{ count }] = await executeQuery<{ count: number | bigint }>(
+        `SELECT COUNT(*) AS count FROM "${tableName}"`,
+      );
+
+      const dataTable: DataTable = {
+        tableName,
+        documentId,
+        sheet: table.sheet ?? null,
+        rowCount: Number(count),
+        columns: columns.map((column) => ({
+          name: column.column_name,
+          type: column.column_type,
+        })),
+      };
+
+      await executeQuery(
+        `INSERT INTO data_tables (table_name, document_id, sheet, row_count, columns, created_at)
+         VALUES (?, ?, ?, ?, ?, ?)`,
+        [
+          tableName,
+          documentId,
+          dataTable.sheet,
+          dataTable.rowCount,
+          JSON.stringify(dataTable.columns),
+          new Date().toISOString(),
+        ],
+      );
+
+      taken.add(tableName);
+      loaded.push(dataTable);
+    } catch (error) {
+      console.warn(`Failed to load table ${tableName} from ${documentName}:`, error);
+      await executeQuery(`DROP TABLE IF EXISTS "${tableName}"`).catch(() => {});
+    } finally {
+      await db.dropFile(fileName);
+    }
+  }
+
+  return loaded;
+}
+
+// Drop the data tables loaded from a document and their catalog entries
+export async function dropDataTables(documentId: string): Promise<void> {
+  const tables = await executeQuery<{ table_name: string }>(
+    `SELECT table_name FROM data_tables WHERE document_id = ?`,
+    [documentId],
+  );
+
+  for (const table of tables) {
+    await executeQuery(`DROP TABLE IF EXISTS "${table.table_name}"`);
+  }
+
+  await executeQuery(`DELETE FROM data_tables WHERE document_id = ?`, [
+    documentId,
+  ]);
+}
+
+// List the loaded data tables, optionally only those of one document
+export async function listDataTables(documentId?: string): Promise<DataTable[]> {
+  const rows = documentId
+    ? await executeQuery(
+        `SELECT * FROM data_tables WHERE document_id = ? ORDER BY created_at, table_name`,
+        [documentId],
+      )
+    : await executeQuery(
+        `SELECT * FROM data_tables ORDER BY created_at, table_name`,
+      );
+
+  return rows.map((row) => ({
+    tableName: row.table_name,
+    documentId: row.document_id,
+    sheet: row.sheet,
+    rowCount: Number(row.row_count),
+    columns: JSON.parse(row.columns),
+  }));
+}
+
+// Table name for a file or sheet, e.g. "Invoices 2024.xlsx" sheet "Q4"
+// becomes invoices_2024_q4
+export function dataTableName(documentName: string, sheet?: string): string {
+  const slug = (value: string) =>
+    value
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, "_")
+      .replace(/^_+|_+$/g, "");
+
+  const name = [slug(documentName.replace(/\.[^.]+$/, "")), sheet ? slug(sheet) : ""]
+    .filter(Boolean)
+    .join("_");
+
+  if (!name) return "table";
+  return /^[0-9]/.test(name) ? `t_${name}` : name;
+}
+
+// Add a numeric suffix when the name is already in use
+function uniqueTableName(name: string, taken: Set<string>): string {
+  if (!taken.has(name)) return name;
+
+  let suffix = 2;
+  while (taken.has(`${name}_${suffix}`)) suffix++;
+  return `${name}_${suffix}`;
+}
+
+// Execute a keyword search over the chunks in DuckDB, added this session,
+// and those in the search index shards
 export async function keywordSearch(
   query: string,
   limit: number = 10,
-): Promise<
-  Array<{
-    chunkId: string;
-    documentId: string;
-    documentName: string;
-    text: string;
-    score: number;
-    metadata: any;
-    documentType: string;
-  }>
-> {
-  // For MVP, return an empty array since DuckDB is not initialized
+  filters?: SearchFilters,
+): Promise<SearchResult[]> {
   console.log(`Keyword search for: "${query}" (limit: ${limit})`);
+
+  let results: ShardSearchResult[] = [];
+  try {
+    results = await searchChunkRows(query, limit, filters);
+  } catch (error) {
+    console.error("Keyword search in DuckDB failed:", error);
+  }
+
+  if (shardManager) {
+    const found = new Set(results.map((result) => result.chunkId));
+    const shardResults = await shardManager.search(query, limit, filters);
+    results = results.concat(
+      shardResults.filter((result) => !found.has(result.chunkId)),
+    );
+  }
+
+  return results
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit)
+    .map((result) => ({
+      ...result,
+      matchPercentage: Math.round(result.score * 100),
+    }));
+}
+
+// Keyword search in DuckDB. Type, source and document filters are applied
+// in SQL, the ones on document metadata to the matching rows.
+async function searchChunkRows(
+  query: string,
+  limit: number,
+  filters?: SearchFilters,
+): Promise<ShardSearchResult[]> {
   // Prepare search terms
   const searchTerms = query
     .toLowerCase()
@@ -221,6 +550,26 @@ export async function keywordSearch(
     .join(" OR ");
   const likeParams = searchTerms.map((term) => `%${term}%`);
 
+  const conditions = [`(${likeConditions})`];
+  const filterParams: string[] = [];
+  const inList = (column: string, values?: string[]) => {
+    if (!values?.length) return;
+    conditions.push(`${column} IN (${values.map(() => "?").join(", ")})`);
+    filterParams.push(...values);
+  };
+  inList("d.type", filters?.documentTypes);
+  inList("d.source", filters?.sources);
+  inList("d.id", filters?.documentIds);
+
+  // The rest can only be checked once rows are read, so the limit is
+  // applied after them
+  const residual = hasFilters({
+    ...filters,
+    documentTypes: undefined,
+    sources: undefined,
+    documentIds: undefined,
+  });
+
   const sql = `
     SELECT
       dc.id as chunk_id,
@@ -228,17 +577,40 @@ export async function keywordSearch(
       d.name as document_name,
       dc.text,
       dc.metadata,
-      d.type as document_type
+      d.type as document_type,
+      d.source as document_source,
+      CAST(d.created_at AS VARCHAR) as document_created_at,
+      d.metadata as document_metadata
     FROM
       document_chunks dc
     JOIN
       documents d ON dc.document_id = d.id
     WHERE
-      ${likeConditions}
-    LIMIT ?
+      ${conditions.join(" AND ")}
+    ${residual ? "" : "LIMIT ?"}
   `;
 
-  const results = await executeQuery(sql, [...likeParams, limit]);
+  let results = await executeQuery(sql, [
+    ...likeParams,
+    ...filterParams,
+    ...(residual ? [] : [limit]),
+  ]);
+
+  if (residual) {
+    results = results.filter((result) =>
+      matchesFilters(
+        result.document_id,
+        documentFacets({
+          type: result.document_type,
+          source: result.document_source,
+          // Stored as UTC without a zone
+          createdAt: new Date(`${String(result.document_created_at).replace(" ", "T")}Z`),
+          metadata: JSON.parse(result.document_metadata || "{}"),
+        }),
+        filters!,
+      ),
+    );
+  }
 
   // Simple scoring based on number of terms matched
   return results
@@ -264,7 +636,8 @@ export async function keywordSearch(
         metadata: JSON.parse(result.metadata),
       };
     })
-    .sort((a, b) => b.score - a.score);
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit);
 }
 
 // Log search query
@@ -0,0 +1,76 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { DocumentChunk } from '@/types';
+import * as storage from './storage';
+import * as vectorStore from './vectorStore';
+import * as documentProcessing from './documentProcessing';
+import { getActiveEmbeddingModel } from './embeddingModels';
+import {
+  EmbeddingMigrationStatus,
+  subscribeToEmbeddingMigration,
+  switchEmbeddingModel,
+} from './embeddingMigration';
+
+vi.mock('./storage', () => ({
+  getAllDocuments: vi.fn(),
+  getMetadata: vi.fn(),
+  saveMetadata: vi.fn(),
+}));
+
+vi.mock('./vectorStore', () => ({
+  addToVectorStore: vi.fn(),
+  getChunksEmbeddedWithOtherModels: vi.fn(),
+}));
+
+vi.mock('./documentProcessing', () => ({
+  embedChunksInWorkers: vi.fn(),
+}));
+
+const chunk = (id: string): DocumentChunk => ({
+  id,
+  documentId: 'doc-1',
+  text: `Text of ${id}`,
+  metadata: { startIndex: 0, endIndex: 10 },
+});
+
+describe('embedding migration', () => {
+  beforeEach(() => {
+    vi.resetAllMocks();
+  });
+
+  it('re-embeds the chunks left on another model after a switch', async () => {
+    const statuses: Array<EmbeddingMigrationStatus | null> = [];
+    const unsubscribe = subscribeToEmbeddingMigration((status) => statuses.push(status));
+
+    vi.mocked(vectorStore.getChunksEmbeddedWithOtherModels).mockReturnValue(['chunk-1', 'chunk-3']);
+    vi.mocked(storage.getAllDocuments).mockResolvedValue([
+      {
+        id: 'doc-1',
+        name: 'lease.txt',
+        type: 'txt',
+        content: { fullText: '', chunks: [chunk('chunk-1'), chunk('chunk-2'), chunk('chunk-3')] },
+      } as any,
+    ]);
+    vi.mocked(documentProcessing.embedChunksInWorkers).mockImplementation(async (chunks, model, onProgress) => {
+      onProgress(chunks.length);
+      return chunks.map((c) => ({ ...c, embedding: new Float32Array([1, 0]), embeddingModel: model }));
+    });
+
+    await switchEmbeddingModel('Xenova/paraphrase-multilingual-MiniLM-L12-v2');
+    await vi.waitFor(() => expect(statuses[statuses.length - 1]?.running).toBe(false));
+
+    expect(getActiveEmbeddingModel().id).toBe('Xenova/paraphrase-multilingual-MiniLM-L12-v2');
+    expect(storage.saveMetadata).toHaveBeenCalledWith('embeddingModel', 'Xenova/paraphrase-multilingual-MiniLM-L12-v2');
+    expect(vi.mocked(documentProcessing.embedChunksInWorkers).mock.calls[0][0].map((c) => c.id))
+      .toEqual(['chunk-1', 'chunk-3']);
+    expect(vi.mocked(vectorStore.addToVectorStore).mock.calls[0][0].map((c) => c.embeddingModel))
+      .toEqual(['Xenova/paraphrase-multilingual-MiniLM-L12-v2', 'Xenova/paraphrase-multilingual-MiniLM-L12-v2']);
+    expect(statuses[statuses.length - 1]).toEqual({
+      model: 'Xenova/paraphrase-multilingual-MiniLM-L12-v2',
+      processed: 2,
+      total: 2,
+      running: false,
+    });
+
+    unsubscribe();
+  });
+});
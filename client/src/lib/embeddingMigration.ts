@@ -0,0 +1,146 @@
+import { DocumentChunk, EmbeddingQuantization } from '@/types';
+import { getAllDocuments, getMetadata, saveMetadata } from './storage';
+import { getActiveEmbeddingModel, setActiveEmbeddingModel } from './embeddingModels';
+import { setEmbeddingQuantization } from './quantization';
+import { addToVectorStore, getChunksEmbeddedWithOtherModels, requantizeVectorStore } from './vectorStore';
+import { embedChunksInWorkers } from './documentProcessing';
+import { throwIfAborted } from './utils';
+import { DocumentFacets, documentFacets } from './searchFilters';
+
+// Metadata keys the chosen model and quantization are kept under between
+// sessions
+const MODEL_SETTING = 'embeddingModel';
+const QUANTIZATION_SETTING = 'embeddingQuantization';
+
+export interface EmbeddingMigrationStatus {
+  model: string;
+  processed: number;
+  total: number;
+  running: boolean;
+  error?: string;
+}
+
+let status: EmbeddingMigrationStatus | null = null;
+let controller: AbortController | null = null;
+const listeners = new Set<(status: EmbeddingMigrationStatus | null) => void>();
+
+// Listen for migration progress; the listener is called right away with the
+// current status
+export function subscribeToEmbeddingMigration(
+  listener: (status: EmbeddingMigrationStatus | null) => void
+): () => void {
+  listeners.add(listener);
+  listener(status);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+// Use the model and quantization chosen in an earlier session
+export async function loadEmbeddingSettings(): Promise<void> {
+  const id = await getMetadata(MODEL_SETTING);
+  if (id) {
+    try {
+      setActiveEmbeddingModel(id);
+    } catch (error) {
+      console.warn(`Ignoring unknown embedding model ${id}:`, error);
+    }
+  }
+
+  const quantization = await getMetadata(QUANTIZATION_SETTING);
+  if (quantization) {
+    try {
+      setEmbeddingQuantization(quantization);
+    } catch (error) {
+      console.warn(`Ignoring unknown embedding quantization ${quantization}:`, error);
+    }
+  }
+}
+
+// Embed new chunks and queries with another model. Chunks that are already
+// indexed are re-embedded in the background.
+export async function switchEmbeddingModel(id: string): Promise<void> {
+  setActiveEmbeddingModel(id);
+  await saveMetadata(MODEL_SETTING, id);
+  migrateEmbeddings();
+}
+
+// Store new embeddings another way. Embeddings already stored at a higher
+// precision are converted; re-embedding is not needed for that. Returns how
+// many were converted.
+export async function switchEmbeddingQuantization(quantization: EmbeddingQuantization): Promise<number> {
+  setEmbeddingQuantization(quantization);
+  await saveMetadata(QUANTIZATION_SETTING, quantization);
+
+  return requantizeVectorStore(quantization);
+}
+
+// Re-embed every indexed chunk whose embedding came from another model than
+// the active one. Until a chunk is re-embedded it is left out of vector
+// search. Starting again, e.g. after a reload or another switch, picks up
+// whatever is left.
+export async function migrateEmbeddings(): Promise<void> {
+  controller?.abort();
+  const current = new AbortController();
+  controller = current;
+  const model = getActiveEmbeddingModel().id;
+
+  try {
+    const stale = new Set(getChunksEmbeddedWithOtherModels(model));
+    if (stale.size === 0) {
+      setStatus(null);
+      return;
+    }
+
+    const work: Array<{ name: string; type: string; facets: DocumentFacets; chunks: DocumentChunk[] }> = [];
+    for (const doc of await getAllDocuments()) {
+      const chunks = (doc.content?.chunks || []).filter(chunk => stale.has(chunk.id));
+      if (chunks.length > 0) {
+        work.push({ name: doc.name, type: doc.type, facets: documentFacets(doc), chunks });
+      }
+    }
+    throwIfAborted(current.signal);
+
+    const total = work.reduce((sum, item) => sum + item.chunks.length, 0);
+    let processed = 0;
+    setStatus({ model, processed, total, running: true });
+
+    for (const { name, type, facets, chunks } of work) {
+      const embedded = await embedChunksInWorkers(
+        chunks,
+        model,
+        (done) => setStatus({ model, processed: processed + done, total, running: true }),
+        current.signal
+      );
+      throwIfAborted(current.signal);
+
+      await addToVectorStore(embedded, name, type, facets);
+      processed += chunks.length;
+    }
+
+    setStatus({ model, processed, total, running: false });
+  } catch (error) {
+    // A newer migration took over
+    if (current.signal.aborted) return;
+
+    console.error('Failed to re-embed chunks:', error);
+    setStatus({
+      model,
+      processed: status?.processed || 0,
+      total: status?.total || 0,
+      running: false,
+      error: (error as Error)?.message || 'Unknown error',
+    });
+  } finally {
+    if (controller === current) {
+      controller = null;
+    }
+  }
+}
+
+function setStatus(next: EmbeddingMigrationStatus | null) {
+  status = next;
+  for (const listener of Array.from(listeners)) {
+    listener(status);
+  }
+}
@@ -0,0 +1,36 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import {
+  DEFAULT_EMBEDDING_MODEL,
+  getActiveEmbeddingModel,
+  getEmbeddingModel,
+  prepareEmbeddingInput,
+  registerEmbeddingModel,
+  setActiveEmbeddingModel,
+} from './embeddingModels';
+
+describe('embedding models', () => {
+  afterEach(() => {
+    setActiveEmbeddingModel(DEFAULT_EMBEDDING_MODEL);
+  });
+
+  it('defaults to a multilingual model', () => {
+    expect(getActiveEmbeddingModel()).toMatchObject({ id: DEFAULT_EMBEDDING_MODEL, multilingual: true });
+  });
+
+  it('prefixes queries and passages for models trained with them', () => {
+    const e5 = getEmbeddingModel('Xenova/multilingual-e5-small');
+    const miniLm = getEmbeddingModel('Xenova/all-MiniLM-L6-v2');
+
+    expect(prepareEmbeddingInput(e5, 'kiraya kitna hai', 'query')).toBe('query: kiraya kitna hai');
+    expect(prepareEmbeddingInput(e5, 'किराया ₹12,000', 'passage')).toBe('passage: किराया ₹12,000');
+    expect(prepareEmbeddingInput(miniLm, 'rent', 'query')).toBe('rent');
+  });
+
+  it('switches only to registered models', () => {
+    expect(() => setActiveEmbeddingModel('example/unknown')).toThrow('Unknown embedding model');
+
+    registerEmbeddingModel({ id: 'example/custom', label: 'Custom', dimensions: 256, multilingual: true });
+    setActiveEmbeddingModel('example/custom');
+    expect(getActiveEmbeddingModel().dimensions).toBe(256);
+  });
+});
@@ -0,0 +1,89 @@
+export interface EmbeddingModel {
+  // Hugging Face model id, loaded through transformers.js
+  id: string;
+  label: string;
+  dimensions: number;
+  multilingual: boolean;
+  // Some models are trained to tell queries and passages apart by a prefix
+  queryPrefix?: string;
+  passagePrefix?: string;
+}
+
+// Handles Hindi, Hinglish and English text in the same vector space
+export const DEFAULT_EMBEDDING_MODEL = 'Xenova/multilingual-e5-small';
+
+// Embeddings stored before they were tagged with a model came from this one
+export const LEGACY_EMBEDDING_MODEL = 'Xenova/all-MiniLM-L6-v2';
+
+const models: EmbeddingModel[] = [
+  {
+    id: 'Xenova/multilingual-e5-small',
+    label: 'Multilingual E5 small',
+    dimensions: 384,
+    multilingual: true,
+    queryPrefix: 'query: ',
+    passagePrefix: 'passage: ',
+  },
+  {
+    id: 'Xenova/multilingual-e5-base',
+    label: 'Multilingual E5 base',
+    dimensions: 768,
+    multilingual: true,
+    queryPrefix: 'query: ',
+    passagePrefix: 'passage: ',
+  },
+  {
+    id: 'Xenova/paraphrase-multilingual-MiniLM-L12-v2',
+    label: 'Multilingual MiniLM',
+    dimensions: 384,
+    multilingual: true,
+  },
+  {
+    id: 'Xenova/all-MiniLM-L6-v2',
+    label: 'MiniLM (English only)',
+    dimensions: 384,
+    multilingual: false,
+  },
+];
+
+let activeModelId = DEFAULT_EMBEDDING_MODEL;
+
+export function registerEmbeddingModel(model: EmbeddingModel) {
+  const index = models.findIndex(existing => existing.id === model.id);
+  if (index === -1) {
+    models.push(model);
+  } else {
+    models[index] = model;
+  }
+}
+
+export function getEmbeddingModels(): EmbeddingModel[] {
+  return [...models];
+}
+
+export function getEmbeddingModel(id: string): EmbeddingModel {
+  const model = models.find(candidate => candidate.id === id);
+  if (!model) {
+    throw new Error(`Unknown embedding model: ${id}`);
+  }
+  return model;
+}
+
+// The model new chunks and queries are embedded with
+export function getActiveEmbeddingModel(): EmbeddingModel {
+  return getEmbeddingModel(activeModelId);
+}
+
+export function setActiveEmbeddingModel(id: string) {
+  activeModelId = getEmbeddingModel(id).id;
+}
+
+// Text as the model expects it for a query or for an indexed passage
+export function prepareEmbeddingInput(
+  model: EmbeddingModel,
+  text: string,
+  input: 'query' | 'passage'
+): string {
+  const prefix = input === 'query' ? model.queryPrefix : model.passagePrefix;
+  return prefix ? prefix + text : text;
+}
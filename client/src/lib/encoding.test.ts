@@ -0,0 +1,55 @@
+import { describe, it, expect } from 'vitest';
+import { decodeText, detectEncoding } from './encoding';
+
+const utf8 = (text: string) => new TextEncoder().encode(text);
+
+// UTF-16 code units written out byte by byte
+function utf16(text: string, littleEndian: boolean): Uint8Array {
+  const bytes = new Uint8Array(text.length * 2);
+  for (let i = 0; i < text.length; i++) {
+    const code = text.charCodeAt(i);
+    bytes[i * 2 + (littleEndian ? 0 : 1)] = code & 0xff;
+    bytes[i * 2 + (littleEndian ? 1 : 0)] = code >> 8;
+  }
+  return bytes;
+}
+
+// Windows-1252 for the Latin-1 range is one byte per character
+const latin1 = (text: string) => new Uint8Array(text.split('').map((c) => c.charCodeAt(0)));
+
+describe('detectEncoding', () => {
+  it('trusts a byte order mark', () => {
+    expect(detectEncoding(new Uint8Array([0xef, 0xbb, 0xbf, 0x41]))).toMatchObject({ encoding: 'utf-8', source: 'bom' });
+    expect(detectEncoding(new Uint8Array([0xff, 0xfe, 0x41, 0x00]))).toMatchObject({ encoding: 'utf-16le', source: 'bom' });
+    expect(detectEncoding(new Uint8Array([0xfe, 0xff, 0x00, 0x41]))).toMatchObject({ encoding: 'utf-16be', source: 'bom' });
+  });
+
+  it('recognizes UTF-16 exports without a byte order mark', () => {
+    const csv = 'District,Population\nPune,9429408\n';
+
+    expect(detectEncoding(utf16(csv, true)).encoding).toBe('utf-16le');
+    expect(detectEncoding(utf16(csv, false)).encoding).toBe('utf-16be');
+    expect(decodeText(utf16(csv, true), 'utf-16le')).toBe(csv);
+  });
+
+  it('keeps valid UTF-8, including Devanagari', () => {
+    expect(detectEncoding(utf8('जिला,जनसंख्या\nपुणे,9429408'))).toMatchObject({ encoding: 'utf-8', confidence: 1 });
+  });
+
+  it('falls back to Windows-1252 for Western text that is not UTF-8', () => {
+    const bytes = latin1('Café,Résumé,Straße\nJosé,Zürich,Ånge\n');
+    const detection = detectEncoding(bytes);
+
+    expect(detection.encoding).toBe('windows-1252');
+    expect(detection.confidence).toBeGreaterThan(0.9);
+    expect(decodeText(bytes, detection.encoding)).toBe('Café,Résumé,Straße\nJosé,Zürich,Ånge\n');
+  });
+
+  it('detects and decodes ISCII Devanagari', () => {
+    // नमस्ते दुनिया
+    const bytes = new Uint8Array([0xc6, 0xcc, 0xd7, 0xe8, 0xc2, 0xe1, 0x20, 0xc4, 0xdd, 0xc6, 0xdb, 0xcd, 0xda]);
+
+    expect(detectEncoding(bytes).encoding).toBe('iscii-devanagari');
+    expect(decodeText(bytes, 'iscii-devanagari')).toBe('नमस्ते दुनिया');
+  });
+});
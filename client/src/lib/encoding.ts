@@ -0,0 +1,252 @@
+// Character encodings text files can be decoded with. The ISCII decoder is
+// our own; the others come from TextDecoder.
+export const SUPPORTED_ENCODINGS = [
+  { id: 'utf-8', label: 'UTF-8' },
+  { id: 'utf-16le', label: 'UTF-16 LE' },
+  { id: 'utf-16be', label: 'UTF-16 BE' },
+  { id: 'windows-1252', label: 'Windows-1252 (Western)' },
+  { id: 'iscii-devanagari', label: 'ISCII (Devanagari)' },
+];
+
+export interface EncodingDetection {
+  encoding: string;
+  // 0-1; 1 for a byte order mark or valid UTF-8 with non-ASCII text
+  confidence: number;
+  source: 'bom' | 'detected' | 'override';
+}
+
+// Work out a text file's encoding: a byte order mark wins, then UTF-16 and
+// UTF-8 are checked structurally, and anything else is scored as
+// Windows-1252 or ISCII by how plausible its high bytes look in each.
+export function detectEncoding(bytes: Uint8Array): EncodingDetection {
+  if (bytes[0] === 0xef && bytes[1] === 0xbb && bytes[2] === 0xbf) {
+    return { encoding: 'utf-8', confidence: 1, source: 'bom' };
+  }
+  if (bytes[0] === 0xff && bytes[1] === 0xfe) {
+    return { encoding: 'utf-16le', confidence: 1, source: 'bom' };
+  }
+  if (bytes[0] === 0xfe && bytes[1] === 0xff) {
+    return { encoding: 'utf-16be', confidence: 1, source: 'bom' };
+  }
+
+  const sample = bytes.subarray(0, 64 * 1024);
+
+  const utf16 = detectUtf16(sample);
+  if (utf16) return utf16;
+
+  let highBytes = 0;
+  for (let i = 0; i < sample.length; i++) {
+    if (sample[i] >= 0x80) highBytes++;
+  }
+
+  // Plain ASCII decodes the same in all of them
+  if (highBytes === 0) {
+    return { encoding: 'utf-8', confidence: 1, source: 'detected' };
+  }
+
+  if (isValidUtf8(sample)) {
+    return { encoding: 'utf-8', confidence: 1, source: 'detected' };
+  }
+
+  const windows1252 = scoreWindows1252(sample);
+  const iscii = scoreIscii(sample);
+
+  return iscii > windows1252
+    ? { encoding: 'iscii-devanagari', confidence: round(iscii), source: 'detected' }
+    : { encoding: 'windows-1252', confidence: round(windows1252), source: 'detected' };
+}
+
+export function decodeText(bytes: Uint8Array, encoding: string): string {
+  if (encoding === 'iscii-devanagari') {
+    return decodeIscii(bytes);
+  }
+
+  // TextDecoder drops a matching byte order mark
+  return new TextDecoder(encoding).decode(bytes);
+}
+
+// UTF-16 without a byte order mark: text in the Latin or Devanagari blocks
+// leaves every other byte zero or nearly constant. Only zero bytes are
+// checked, which covers the ASCII-heavy exports we see.
+export function detectUtf16(sample: Uint8Array): EncodingDetection | null {
+  if (sample.length < 4) return null;
+
+  let evenZeros = 0;
+  let oddZeros = 0;
+  for (let i = 0; i + 1 < sample.length; i += 2) {
+    if (sample[i] === 0) evenZeros++;
+    if (sample[i + 1] === 0) oddZeros++;
+  }
+
+  const pairs = Math.floor(sample.length / 2);
+  if (oddZeros / pairs > 0.3 && evenZeros / pairs < 0.05) {
+    return { encoding: 'utf-16le', confidence: round(oddZeros / pairs), source: 'detected' };
+  }
+  if (evenZeros / pairs > 0.3 && oddZeros / pairs < 0.05) {
+    return { encoding: 'utf-16be', confidence: round(evenZeros / pairs), source: 'detected' };
+  }
+  return null;
+}
+
+function isValidUtf8(sample: Uint8Array): boolean {
+  // A multi-byte sequence may have been cut off at the end of the sample
+  let end = sample.length;
+  for (let i = sample.length - 1; i >= Math.max(0, sample.length - 4); i--) {
+    if ((sample[i] & 0xc0) !== 0x80) {
+      if (sample[i] >= 0xc0) end = i;
+      break;
+    }
+  }
+
+  try {
+    new TextDecoder('utf-8', { fatal: true }).decode(sample.subarray(0, end));
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// Share of high bytes that look like Western text: a letter or common
+// punctuation next to ASCII. Western languages rarely run several accented
+// letters together, while single-byte Indic text is almost all high bytes.
+function scoreWindows1252(sample: Uint8Array): number {
+  const decoded = new TextDecoder('windows-1252').decode(sample);
+  let high = 0;
+  let plausible = 0;
+
+  for (let i = 0; i < sample.length; i++) {
+    if (sample[i] < 0x80) continue;
+    high++;
+
+    const char = decoded[i];
+    const isLetter = /[À-ÿŒœŠšŸŽž]/.test(char)
+      && char !== '×' && char !== '÷';
+    const isPunctuation = /[‘’“”–—…€•\u00a0£°©]/.test(char);
+    const nextToAscii = (i > 0 && sample[i - 1] < 0x80) || (i + 1 < sample.length && sample[i + 1] < 0x80);
+
+    if ((isLetter || isPunctuation) && nextToAscii) plausible++;
+  }
+
+  return high === 0 ? 0 : plausible / high;
+}
+
+// Share of high bytes that form valid ISCII Devanagari: mapped characters,
+// with vowel signs, virama and nukta following a consonant
+function scoreIscii(sample: Uint8Array): number {
+  let high = 0;
+  let plausible = 0;
+
+  for (let i = 0; i < sample.length; i++) {
+    const byte = sample[i];
+    if (byte < 0x80) continue;
+    high++;
+
+    if (!(byte in ISCII_TO_UNICODE) && byte !== ISCII_NUKTA) continue;
+
+    const previous = i > 0 ? sample[i - 1] : 0;
+    if (isIsciiSign(byte)) {
+      if (isIsciiConsonant(previous) || previous === ISCII_NUKTA || isIsciiSign(previous) || isIsciiVowel(previous)) {
+        plausible++;
+      }
+    } else {
+      plausible++;
+    }
+  }
+
+  return high === 0 ? 0 : plausible / high;
+}
+
+const ISCII_NUKTA = 0xe9;
+const ISCII_VIRAMA = 0xe8;
+// Attribute and extension codes take a following byte and produce no text
+const ISCII_ATR = 0xef;
+const ISCII_EXT = 0xf0;
+const ISCII_INV = 0xd9;
+
+const isIsciiConsonant = (byte: number) => byte >= 0xb3 && byte <= 0xd8;
+const isIsciiVowel = (byte: number) => byte >= 0xa4 && byte <= 0xb2;
+// Candrabindu, anusvara, visarga, vowel signs, virama and nukta
+const isIsciiSign = (byte: number) =>
+  (byte >= 0xa1 && byte <= 0xa3) || (byte >= 0xda && byte <= 0xe9);
+
+// ISCII-91 Devanagari, byte to code point
+const ISCII_TO_UNICODE: Record<number, number> = (() => {
+  const table: Record<number, number> = {
+    0xa1: 0x0901, 0xa2: 0x0902, 0xa3: 0x0903,
+    0xa4: 0x0905, 0xa5: 0x0906, 0xa6: 0x0907, 0xa7: 0x0908, 0xa8: 0x0909,
+    0xa9: 0x090a, 0xaa: 0x090b, 0xab: 0x090e, 0xac: 0x090f, 0xad: 0x0910,
+    0xae: 0x090d, 0xaf: 0x0912, 0xb0: 0x0913, 0xb1: 0x0914, 0xb2: 0x0911,
+    0xce: 0x095f,
+    0xda: 0x093e, 0xdb: 0x093f, 0xdc: 0x0940, 0xdd: 0x0941, 0xde: 0x0942,
+    0xdf: 0x0943, 0xe0: 0x0946, 0xe1: 0x0947, 0xe2: 0x0948, 0xe3: 0x0945,
+    0xe4: 0x094a, 0xe5: 0x094b, 0xe6: 0x094c, 0xe7: 0x0949,
+    0xe8: 0x094d, 0xea: 0x0964,
+  };
+
+  // KA (0xB3) to YA (0xCD) and RA (0xCF) to HA (0xD8) are contiguous in
+  // both encodings
+  for (let byte = 0xb3; byte <= 0xcd; byte++) table[byte] = 0x0915 + (byte - 0xb3);
+  for (let byte = 0xcf; byte <= 0xd8; byte++) table[byte] = 0x0930 + (byte - 0xcf);
+  // Digits
+  for (let byte = 0xf1; byte <= 0xfa; byte++) table[byte] = 0x0966 + (byte - 0xf1);
+
+  return table;
+})();
+
+// Characters written as a base byte followed by nukta
+const ISCII_NUKTA_FORMS: Record<number, number> = {
+  0xa1: 0x0950, // OM
+  0xa6: 0x090c, // vocalic L
+  0xa7: 0x0961, // vocalic LL
+  0xdb: 0x0962, // vocalic L sign
+  0xdc: 0x0963, // vocalic LL sign
+  0xdf: 0x0944, // vocalic RR sign
+  0xea: 0x093d, // avagraha
+};
+
+function decodeIscii(bytes: Uint8Array): string {
+  const chars: string[] = [];
+
+  for (let i = 0; i < bytes.length; i++) {
+    const byte = bytes[i];
+
+    if (byte < 0x80) {
+      chars.push(String.fromCharCode(byte));
+      continue;
+    }
+
+    if (byte === ISCII_ATR || byte === ISCII_EXT) {
+      i++;
+      continue;
+    }
+    if (byte === ISCII_INV) continue;
+
+    const next = bytes[i + 1];
+    if (next === ISCII_NUKTA && byte in ISCII_NUKTA_FORMS) {
+      chars.push(String.fromCharCode(ISCII_NUKTA_FORMS[byte]));
+      i++;
+      continue;
+    }
+
+    // Virama twice is an explicit halant, virama then nukta a soft one
+    if (byte === ISCII_VIRAMA && (next === ISCII_VIRAMA || next === ISCII_NUKTA)) {
+      chars.push('\u094d', next === ISCII_VIRAMA ? '\u200c' : '\u200d');
+      i++;
+      continue;
+    }
+
+    if (byte === ISCII_NUKTA) {
+      chars.push('\u093c');
+    } else if (byte in ISCII_TO_UNICODE) {
+      chars.push(String.fromCharCode(ISCII_TO_UNICODE[byte]));
+    } else {
+      chars.push('\ufffd');
+    }
+  }
+
+  return chars.join('');
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
@@ -208,7 +208,7 @@ export async function processGoogleDriveFile(
     );
     
     // Process the file
-    const document = await processFile(file, (progress) => {
+    const { document } = await processFile(file, (progress) => {
       // Scale progress to account for download step
       onProgress(20 + (progress * 0.8));
     });
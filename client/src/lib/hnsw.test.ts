@@ -0,0 +1,92 @@
+import { describe, it, expect } from 'vitest';
+import { HnswIndex } from './hnsw';
+import { cosineSimilarity } from './quantization';
+
+// Deterministic pseudo-random vectors
+function randomVectors(count: number, dimensions: number, seed = 1): Float32Array[] {
+  let state = seed;
+  const next = () => {
+    state = (state * 1103515245 + 12345) % 2147483648;
+    return state / 2147483648 - 0.5;
+  };
+  return Array.from({ length: count }, () => Float32Array.from({ length: dimensions }, next));
+}
+
+function exactTop(vectors: Map<string, Float32Array>, query: Float32Array, k: number): string[] {
+  return Array.from(vectors.entries())
+    .map(([id, vector]) => ({ id, score: cosineSimilarity(query, vector) }))
+    .sort((a, b) => b.score - a.score)
+    .slice(0, k)
+    .map(item => item.id);
+}
+
+function recall(index: HnswIndex<Float32Array>, vectors: Map<string, Float32Array>, queries: Float32Array[]) {
+  let found = 0;
+  for (const query of queries) {
+    const exact = new Set(exactTop(vectors, query, 10));
+    found += index
+      .search(vector => cosineSimilarity(query, vector), 10)
+      .filter(result => exact.has(result.id)).length;
+  }
+  return found / (queries.length * 10);
+}
+
+describe('HnswIndex', () => {
+  const vectors = new Map(randomVectors(600, 32, 3).map((vector, i) => [`chunk-${i}`, vector] as const));
+  const queries = randomVectors(20, 32, 11);
+
+  function buildIndex() {
+    const index = new HnswIndex<Float32Array>(cosineSimilarity, { M: 8, efConstruction: 64, efSearch: 64 });
+    vectors.forEach((vector, id) => index.insert(id, vector));
+    return index;
+  }
+
+  it('finds nearly all of the exact nearest neighbours', () => {
+    const index = buildIndex();
+    expect(index.size).toBe(600);
+    expect(recall(index, vectors, queries)).toBeGreaterThan(0.9);
+  });
+
+  it('finds more neighbours with a higher ef', () => {
+    const index = buildIndex();
+    index.setParams({ efSearch: 10 });
+    const low = recall(index, vectors, queries);
+    index.setParams({ efSearch: 200 });
+    expect(recall(index, vectors, queries)).toBeGreaterThanOrEqual(low);
+  });
+
+  it('keeps finding neighbours after nodes are removed', () => {
+    const index = buildIndex();
+    const remaining = new Map(vectors);
+    for (let i = 0; i < 600; i += 2) {
+      index.remove(`chunk-${i}`);
+      remaining.delete(`chunk-${i}`);
+    }
+
+    expect(index.size).toBe(300);
+    const results = index.search(vector => cosineSimilarity(queries[0], vector), 10);
+    expect(results.every(result => remaining.has(result.id))).toBe(true);
+    expect(recall(index, remaining, queries)).toBeGreaterThan(0.85);
+  });
+
+  it('returns only accepted nodes while walking through the others', () => {
+    const index = buildIndex();
+    const accepted = new Map(Array.from(vectors).filter((_, i) => i % 10 === 0));
+    const results = index.search(vector => cosineSimilarity(queries[2], vector), 10, 64, id => accepted.has(id));
+
+    expect(results.map(result => result.id)).toEqual(exactTop(accepted, queries[2], 10));
+  });
+
+  it('restores a serialized graph with the same results', () => {
+    const index = buildIndex();
+    index.remove('chunk-5');
+    const restored = HnswIndex.deserialize(index.serialize(), id => vectors.get(id), cosineSimilarity)!;
+
+    expect(restored.size).toBe(599);
+    expect(restored.getParams()).toEqual(index.getParams());
+    const score = (vector: Float32Array) => cosineSimilarity(queries[1], vector);
+    expect(restored.search(score, 10)).toEqual(index.search(score, 10));
+
+    expect(HnswIndex.deserialize(index.serialize(), () => undefined, cosineSimilarity)).toBeNull();
+  });
+});
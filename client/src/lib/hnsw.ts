@@ -0,0 +1,393 @@
+// Hierarchical navigable small world graph (Malkov & Yashunin) for
+// approximate nearest-neighbour search. Each node is linked to its nearest
+// neighbours on layer 0 and, with exponentially decreasing probability, on
+// the sparser layers above it; a search descends greedily from the top
+// layer and widens to ef candidates on layer 0, so its cost grows with the
+// log of the number of nodes rather than linearly.
+
+export interface HnswParams {
+  // Links per node on the upper layers; layer 0 keeps twice as many
+  M: number;
+  // Candidates considered when linking a new node
+  efConstruction: number;
+  // Candidates considered when searching; higher finds more of the true
+  // nearest neighbours at the cost of speed
+  efSearch: number;
+}
+
+export const DEFAULT_HNSW_PARAMS: HnswParams = { M: 16, efConstruction: 100, efSearch: 64 };
+
+// The graph without its vectors, which are stored with the embeddings
+export interface SerializedHnsw {
+  params: HnswParams;
+  entryPoint: string | null;
+  ids: string[];
+  levels: Uint8Array;
+  // Number of links of each node on each of its layers, node by node
+  linkCounts: Uint16Array;
+  // Links as positions in ids, in the same order
+  links: Uint32Array;
+}
+
+interface HnswNode<V> {
+  id: string;
+  vector: V;
+  level: number;
+  links: string[][];
+}
+
+interface Scored<V> {
+  node: HnswNode<V>;
+  score: number;
+}
+
+export class HnswIndex<V> {
+  private nodes = new Map<string, HnswNode<V>>();
+  private entryPoint: HnswNode<V> | null = null;
+  private params: HnswParams;
+
+  // similarity is higher for closer vectors, e.g. cosine similarity
+  constructor(private similarity: (a: V, b: V) => number, params: Partial<HnswParams> = {}) {
+    this.params = { ...DEFAULT_HNSW_PARAMS, ...params };
+  }
+
+  get size(): number {
+    return this.nodes.size;
+  }
+
+  has(id: string): boolean {
+    return this.nodes.has(id);
+  }
+
+  getParams(): HnswParams {
+    return { ...this.params };
+  }
+
+  // efSearch applies to the next search; M and efConstruction to nodes
+  // linked from then on
+  setParams(params: Partial<HnswParams>) {
+    this.params = { ...this.params, ...params };
+  }
+
+  // Replace the vector of a node without relinking it, e.g. after it was
+  // quantized differently
+  updateVector(id: string, vector: V) {
+    const node = this.nodes.get(id);
+    if (node) {
+      node.vector = vector;
+    }
+  }
+
+  insert(id: string, vector: V) {
+    this.remove(id);
+
+    const level = Math.floor(-Math.log(Math.random() || Number.MIN_VALUE) / Math.log(this.params.M));
+    const node: HnswNode<V> = { id, vector, level, links: [] };
+    for (let layer = 0; layer <= level; layer++) {
+      node.links.push([]);
+    }
+
+    const entryPoint = this.entryPoint;
+    this.nodes.set(id, node);
+    if (!entryPoint) {
+      this.entryPoint = node;
+      return;
+    }
+
+    const score = (other: V) => this.similarity(vector, other);
+    let current = entryPoint;
+    for (let layer = entryPoint.level; layer > level; layer--) {
+      current = this.greedyClosest(score, current, layer);
+    }
+
+    for (let layer = Math.min(level, entryPoint.level); layer >= 0; layer--) {
+      const candidates = this.searchLayer(score, current, this.params.efConstruction, layer);
+      const neighbours = this.selectNeighbours(candidates, this.params.M);
+      node.links[layer] = neighbours.map(neighbour => neighbour.node.id);
+
+      for (const { node: neighbour } of neighbours) {
+        neighbour.links[layer].push(id);
+        if (neighbour.links[layer].length > this.maxLinks(layer)) {
+          this.relink(neighbour, neighbour.links[layer], layer);
+        }
+      }
+      current = candidates[0].node;
+    }
+
+    if (level > entryPoint.level) {
+      this.entryPoint = node;
+    }
+  }
+
+  remove(id: string) {
+    const node = this.nodes.get(id);
+    if (!node) return;
+    this.nodes.delete(id);
+
+    // Link the removed node's neighbours to each other where it was their
+    // shortcut, so the graph stays navigable. Nodes that linked to it one
+    // way just lose the link; searches skip links to removed nodes.
+    for (let layer = 0; layer <= node.level; layer++) {
+      for (const neighbourId of node.links[layer]) {
+        const neighbour = this.nodes.get(neighbourId);
+        if (!neighbour || neighbour.level < layer) continue;
+
+        const candidates = neighbour.links[layer].filter(linked => linked !== id);
+        for (const linked of node.links[layer]) {
+          if (linked !== neighbourId && candidates.indexOf(linked) === -1) {
+            candidates.push(linked);
+          }
+        }
+        this.relink(neighbour, candidates, layer);
+      }
+    }
+
+    if (this.entryPoint === node) {
+      this.entryPoint = null;
+      this.nodes.forEach(candidate => {
+        if (!this.entryPoint || candidate.level > this.entryPoint.level) {
+          this.entryPoint = candidate;
+        }
+      });
+    }
+  }
+
+  // The k nodes scoring highest, best first. With accept, only accepted
+  // nodes are returned; the others are still walked through, so the graph
+  // stays connected however few nodes are accepted.
+  search(
+    score: (vector: V) => number,
+    k: number,
+    ef: number = this.params.efSearch,
+    accept?: (id: string) => boolean
+  ): Array<{ id: string; vector: V; score: number }> {
+    if (!this.entryPoint) return [];
+
+    let current = this.entryPoint;
+    for (let layer = current.level; layer > 0; layer--) {
+      current = this.greedyClosest(score, current, layer);
+    }
+
+    return this.searchLayer(score, current, Math.max(ef, k), 0, accept)
+      .slice(0, k)
+      .map(({ node, score }) => ({ id: node.id, vector: node.vector, score }));
+  }
+
+  serialize(): SerializedHnsw {
+    const ids: string[] = [];
+    const positions = new Map<string, number>();
+    this.nodes.forEach(node => {
+      positions.set(node.id, ids.length);
+      ids.push(node.id);
+    });
+
+    const levels = new Uint8Array(ids.length);
+    const linkCounts: number[] = [];
+    const links: number[] = [];
+    ids.forEach((id, index) => {
+      const node = this.nodes.get(id)!;
+      levels[index] = node.level;
+      for (const layerLinks of node.links) {
+        const live = layerLinks.filter(linked => positions.has(linked));
+        linkCounts.push(live.length);
+        for (const linked of live) {
+          links.push(positions.get(linked)!);
+        }
+      }
+    });
+
+    return {
+      params: this.getParams(),
+      entryPoint: this.entryPoint?.id ?? null,
+      ids,
+      levels,
+      linkCounts: Uint16Array.from(linkCounts),
+      links: Uint32Array.from(links),
+    };
+  }
+
+  // Restore a serialized graph. Returns null when a node's vector is
+  // missing, in which case the graph has to be rebuilt.
+  static deserialize<V>(
+    data: SerializedHnsw,
+    vectorOf: (id: string) => V | undefined,
+    similarity: (a: V, b: V) => number
+  ): HnswIndex<V> | null {
+    const index = new HnswIndex<V>(similarity, data.params);
+    let count = 0;
+    let offset = 0;
+
+    for (let i = 0; i < data.ids.length; i++) {
+      const vector = vectorOf(data.ids[i]);
+      if (vector === undefined) return null;
+
+      const node: HnswNode<V> = { id: data.ids[i], vector, level: data.levels[i], links: [] };
+      for (let layer = 0; layer <= node.level; layer++) {
+        const layerLinks: string[] = [];
+        for (let j = 0; j < data.linkCounts[count]; j++) {
+          layerLinks.push(data.ids[data.links[offset + j]]);
+        }
+        offset += data.linkCounts[count++];
+        node.links.push(layerLinks);
+      }
+      index.nodes.set(node.id, node);
+    }
+
+    index.entryPoint = data.entryPoint ? index.nodes.get(data.entryPoint) || null : null;
+    return index;
+  }
+
+  private maxLinks(layer: number): number {
+    return layer === 0 ? this.params.M * 2 : this.params.M;
+  }
+
+  // Keep the best of the candidate links of a node
+  private relink(node: HnswNode<V>, candidateIds: string[], layer: number) {
+    const candidates: Scored<V>[] = [];
+    for (const id of candidateIds) {
+      const candidate = this.nodes.get(id);
+      if (candidate && candidate !== node) {
+        candidates.push({ node: candidate, score: this.similarity(node.vector, candidate.vector) });
+      }
+    }
+    candidates.sort((a, b) => b.score - a.score);
+    node.links[layer] = this.selectNeighbours(candidates, this.maxLinks(layer)).map(c => c.node.id);
+  }
+
+  // Prefer candidates that are closer to the base node than to any
+  // neighbour already chosen, so links point in different directions, and
+  // fill up with the rest. Candidates are sorted best first.
+  private selectNeighbours(candidates: Scored<V>[], count: number): Scored<V>[] {
+    const selected: Scored<V>[] = [];
+    const skipped: Scored<V>[] = [];
+
+    for (const candidate of candidates) {
+      if (selected.length >= count) break;
+      const diverse = selected.every(
+        chosen => this.similarity(candidate.node.vector, chosen.node.vector) < candidate.score
+      );
+      (diverse ? selected : skipped).push(candidate);
+    }
+
+    for (const candidate of skipped) {
+      if (selected.length >= count) break;
+      selected.push(candidate);
+    }
+    return selected;
+  }
+
+  private greedyClosest(score: (vector: V) => number, start: HnswNode<V>, layer: number): HnswNode<V> {
+    let current = start;
+    let currentScore = score(start.vector);
+
+    for (let improved = true; improved; ) {
+      improved = false;
+      for (const id of current.links[layer] || []) {
+        const neighbour = this.nodes.get(id);
+        if (!neighbour) continue;
+        const neighbourScore = score(neighbour.vector);
+        if (neighbourScore > currentScore) {
+          current = neighbour;
+          currentScore = neighbourScore;
+          improved = true;
+        }
+      }
+    }
+    return current;
+  }
+
+  // Best-first search of one layer, keeping the ef best accepted nodes
+  // found. Returns them best first.
+  private searchLayer(
+    score: (vector: V) => number,
+    start: HnswNode<V>,
+    ef: number,
+    layer: number,
+    accept?: (id: string) => boolean
+  ): Scored<V>[] {
+    const first = { node: start, score: score(start.vector) };
+    const visited = new Set<string>([start.id]);
+    const candidates = new Heap<Scored<V>>((a, b) => a.score > b.score);
+    const results = new Heap<Scored<V>>((a, b) => a.score < b.score);
+    candidates.push(first);
+    if (!accept || accept(start.id)) {
+      results.push(first);
+    }
+
+    while (candidates.size > 0) {
+      const candidate = candidates.pop()!;
+      if (results.size >= ef && candidate.score < results.peek()!.score) break;
+
+      for (const id of candidate.node.links[layer] || []) {
+        if (visited.has(id)) continue;
+        visited.add(id);
+
+        const neighbour = this.nodes.get(id);
+        if (!neighbour) continue;
+        const scored = { node: neighbour, score: score(neighbour.vector) };
+        if (results.size < ef || scored.score > results.peek()!.score) {
+          candidates.push(scored);
+          if (accept && !accept(id)) continue;
+          results.push(scored);
+          if (results.size > ef) {
+            results.pop();
+          }
+        }
+      }
+    }
+
+    return results.toArray().sort((a, b) => b.score - a.score);
+  }
+}
+
+// Binary heap; before(a, b) is true when a should come out first
+class Heap<T> {
+  private items: T[] = [];
+
+  constructor(private before: (a: T, b: T) => boolean) {}
+
+  get size(): number {
+    return this.items.length;
+  }
+
+  peek(): T | undefined {
+    return this.items[0];
+  }
+
+  push(item: T) {
+    const items = this.items;
+    items.push(item);
+    let i = items.length - 1;
+    while (i > 0) {
+      const parent = (i - 1) >> 1;
+      if (!this.before(items[i], items[parent])) break;
+      [items[i], items[parent]] = [items[parent], items[i]];
+      i = parent;
+    }
+  }
+
+  pop(): T | undefined {
+    const items = this.items;
+    const top = items[0];
+    const last = items.pop();
+    if (items.length > 0 && last !== undefined) {
+      items[0] = last;
+      let i = 0;
+      for (;;) {
+        const left = i * 2 + 1;
+        const right = left + 1;
+        let first = i;
+        if (left < items.length && this.before(items[left], items[first])) first = left;
+        if (right < items.length && this.before(items[right], items[first])) first = right;
+        if (first === i) break;
+        [items[i], items[first]] = [items[first], items[i]];
+        i = first;
+      }
+    }
+    return top;
+  }
+
+  toArray(): T[] {
+    return this.items.slice();
+  }
+}
@@ -0,0 +1,123 @@
+import { IngestionJob, IngestionStatus, ProcessingStatus } from '@/types';
+import { useDocumentStore } from '@/hooks/useDocumentStore';
+import { processFile, ProcessFileResult } from './documentProcessing';
+import { getDocumentById, getOriginalFile } from './storage';
+import { addToVectorStore, removeChunksFromVectorStore } from './vectorStore';
+import { IngestionQueue, isUnfinished } from './ingestionQueue';
+import { documentFacets } from './searchFilters';
+
+// Process a queued file and add the result to the document list and vector index
+async function runIngestionJob(
+  job: IngestionJob,
+  signal: AbortSignal,
+  onProgress: (progress: number) => void
+): Promise<IngestionStatus> {
+  const result = await processFile(
+    job.file,
+    onProgress,
+    {
+      chunking: job.chunking,
+      encoding: job.encoding,
+      reindex: job.reindex,
+      signal,
+      documentId: job.id,
+      parentId: job.parentId,
+      archivePath: job.archivePath,
+      versionOf: job.versionOf,
+    }
+  );
+
+  // Identical content is already indexed; flag it instead of adding it twice
+  if (result.status === 'duplicate') {
+    useDocumentStore.getState().markDuplicate(result.document.id);
+    return 'duplicate';
+  }
+
+  await applyResult(result);
+  return 'complete';
+}
+
+// Add a processed document, and the documents extracted from it, to the
+// document list and vector index
+async function applyResult(result: ProcessFileResult): Promise<void> {
+  const { document, status, addedChunks, removedChunkIds } = result;
+  const store = useDocumentStore.getState();
+
+  // Add processed document to store, replacing an earlier version
+  if (status === 'updated') {
+    store.updateDocument(document.id, document);
+  } else {
+    store.addDocument(document);
+  }
+
+  // Add new chunks to vector store and drop the ones that went away
+  await removeChunksFromVectorStore(removedChunkIds);
+  await addToVectorStore(addedChunks, document.name, document.type, documentFacets(document));
+
+  for (const child of result.children || []) {
+    await applyResult(child);
+  }
+}
+
+// Queue a document's original file to be processed again with another
+// encoding. Only documents whose processor decodes text keep the original.
+export async function reprocessWithEncoding(documentId: string, encoding: string): Promise<void> {
+  const file = await getOriginalFile(documentId);
+  if (!file) {
+    throw new Error('The original file was not kept, upload it again to re-process it');
+  }
+
+  // A file from an archive stays linked to it
+  const document = await getDocumentById(documentId);
+  ingestionQueue.enqueue(file, {
+    encoding,
+    reindex: true,
+    parentId: document?.parentId,
+    archivePath: document?.archivePath,
+  });
+}
+
+// Queue a file to be indexed as the next version of a document, whatever
+// the file is named
+export async function uploadNewVersion(documentId: string, file: File): Promise<void> {
+  const document = await getDocumentById(documentId);
+  if (!document) {
+    throw new Error('The document no longer exists');
+  }
+
+  ingestionQueue.enqueue(file, {
+    versionOf: documentId,
+    parentId: document.parentId,
+    archivePath: document.archivePath,
+  });
+}
+
+// Summarize the queue for the processing status panel. Cancelled jobs do not
+// count towards the overall progress; finished ones count as done.
+export function toProcessingStatus(jobs: IngestionJob[]): ProcessingStatus {
+  const counted = jobs.filter(job => job.status !== 'cancelled');
+  const done = counted.reduce(
+    (acc, job) => acc + (isUnfinished(job) ? job.progress : 100),
+    0
+  );
+
+  return {
+    overall: jobs.length === 0
+      ? 0
+      : counted.length === 0 ? 100 : Math.round(done / counted.length),
+    files: jobs.map(job => ({
+      id: job.id,
+      name: job.file.name,
+      progress: job.progress,
+      chunks: job.chunks,
+      status: job.status,
+      error: job.error,
+    })),
+  };
+}
+
+export const ingestionQueue = new IngestionQueue({ run: runIngestionJob });
+
+ingestionQueue.subscribe((jobs) => {
+  useDocumentStore.getState().updateProcessingStatus(toProcessingStatus(jobs));
+});
@@ -0,0 +1,120 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { IngestionQueue, IngestionJobStore } from './ingestionQueue';
+import { IngestionJob, IngestionStatus } from '@/types';
+
+// In-memory stand-in for the IndexedDB job store
+function memoryStore(initial: IngestionJob[] = []): IngestionJobStore & { jobs: Map<string, IngestionJob> } {
+  const jobs = new Map(initial.map((job) => [job.id, job]));
+  return {
+    jobs,
+    save: async (job) => {
+      jobs.set(job.id, job);
+    },
+    load: async () => Array.from(jobs.values()),
+    remove: async (id) => {
+      jobs.delete(id);
+    },
+  };
+}
+
+// A runner whose jobs finish only when told to, and reject when aborted
+function controllableRunner() {
+  const pending = new Map<string, (status: IngestionStatus) => void>();
+  const run = vi.fn((job: IngestionJob, signal: AbortSignal) =>
+    new Promise<IngestionStatus>((resolve, reject) => {
+      pending.set(job.file.name, resolve);
+      signal.addEventListener('abort', () => reject(new DOMException('Aborted', 'AbortError')));
+    })
+  );
+  return { run, finish: (name: string, status: IngestionStatus = 'complete') => pending.get(name)?.(status) };
+}
+
+const file = (name: string) => new File(['content'], name);
+const flush = () => new Promise((resolve) => setTimeout(resolve, 0));
+const statuses = (queue: IngestionQueue) => queue.getJobs().map((job) => job.status);
+
+describe('IngestionQueue', () => {
+  // The test setup's randomUUID is a constant; jobs need distinct ids
+  beforeEach(() => {
+    let count = 0;
+    vi.spyOn(crypto, 'randomUUID').mockImplementation(
+      () => `job-${++count}` as ReturnType<typeof crypto.randomUUID>
+    );
+  });
+
+  it('runs no more jobs at once than the concurrency allows', async () => {
+    const { run, finish } = controllableRunner();
+    const queue = new IngestionQueue({ run, concurrency: 2, store: memoryStore() });
+
+    queue.enqueue(file('a.txt'));
+    queue.enqueue(file('b.txt'));
+    queue.enqueue(file('c.txt'));
+    expect(statuses(queue)).toEqual(['running', 'running', 'queued']);
+
+    finish('a.txt');
+    await flush();
+    expect(statuses(queue)).toEqual(['complete', 'running', 'running']);
+  });
+
+  it('pauses, resumes and cancels individual jobs', async () => {
+    const { run, finish } = controllableRunner();
+    const store = memoryStore();
+    const queue = new IngestionQueue({ run, concurrency: 1, store });
+
+    const first = queue.enqueue(file('a.txt'));
+    const second = queue.enqueue(file('b.txt'));
+
+    queue.pause(first.id);
+    await flush();
+    expect(statuses(queue)).toEqual(['paused', 'running']);
+
+    queue.cancel(second.id);
+    await flush();
+    expect(statuses(queue)).toEqual(['paused', 'cancelled']);
+    expect(store.jobs.has(second.id)).toBe(false);
+
+    queue.resume(first.id);
+    expect(statuses(queue)).toEqual(['running', 'cancelled']);
+    expect(run).toHaveBeenCalledTimes(3);
+
+    finish('a.txt', 'duplicate');
+    await flush();
+    expect(statuses(queue)).toEqual(['duplicate', 'cancelled']);
+    expect(store.jobs.size).toBe(0);
+  });
+
+  it('marks a job as failed with the error message', async () => {
+    const run = vi.fn().mockRejectedValue(new Error('Failed to process PDF file'));
+    const queue = new IngestionQueue({ run, store: memoryStore() });
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    queue.enqueue(file('broken.pdf'));
+    await flush();
+
+    expect(queue.getJobs()[0]).toMatchObject({
+      status: 'failed',
+      error: 'Failed to process PDF file',
+    });
+  });
+
+  it('resumes unfinished jobs saved by a previous page load', async () => {
+    const { run } = controllableRunner();
+    const saved = (id: string, status: IngestionStatus, createdAt: number): IngestionJob => ({
+      id,
+      file: file(`${id}.txt`),
+      status,
+      progress: 40,
+      createdAt,
+    });
+    const store = memoryStore([saved('b', 'paused', 2), saved('a', 'running', 1)]);
+    const queue = new IngestionQueue({ run, store });
+
+    await queue.restore();
+
+    expect(queue.getJobs().map((job) => [job.id, job.status, job.progress])).toEqual([
+      ['a', 'running', 0],
+      ['b', 'paused', 0],
+    ]);
+    expect(run).toHaveBeenCalledTimes(1);
+  });
+});
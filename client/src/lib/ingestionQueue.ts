@@ -0,0 +1,237 @@
+import { ChunkProgress, IngestionJob, IngestionStatus } from '@/types';
+import { deleteIngestionJob, getIngestionJobs, saveIngestionJob } from './storage';
+
+// Processes one job and resolves with its final status ('complete' or
+// 'duplicate'). The signal fires when the job is paused or cancelled.
+// Progress may come with the number of chunks embedded so far.
+export type IngestionRunner = (
+  job: IngestionJob,
+  signal: AbortSignal,
+  onProgress: (progress: number, chunks?: ChunkProgress) => void
+) => Promise<IngestionStatus>;
+
+// Where unfinished jobs are kept between page loads
+export interface IngestionJobStore {
+  save: (job: IngestionJob) => Promise<void>;
+  load: () => Promise<IngestionJob[]>;
+  remove: (id: string) => Promise<void>;
+}
+
+export interface IngestionQueueOptions {
+  run: IngestionRunner;
+  concurrency?: number;
+  store?: IngestionJobStore;
+}
+
+export const DEFAULT_CONCURRENCY = 2;
+
+const UNFINISHED_STATUSES: IngestionStatus[] = ['queued', 'running', 'paused'];
+
+const indexedDbJobStore: IngestionJobStore = {
+  save: (job) => saveIngestionJob(job),
+  load: () => getIngestionJobs(),
+  remove: (id) => deleteIngestionJob(id),
+};
+
+export function isUnfinished(job: IngestionJob): boolean {
+  return UNFINISHED_STATUSES.includes(job.status);
+}
+
+export class IngestionQueue {
+  private jobs: IngestionJob[] = [];
+  private controllers = new Map<string, AbortController>();
+  private listeners = new Set<(jobs: IngestionJob[]) => void>();
+  private concurrency: number;
+  private run: IngestionRunner;
+  private store: IngestionJobStore;
+
+  constructor(options: IngestionQueueOptions) {
+    this.run = options.run;
+    this.concurrency = options.concurrency || DEFAULT_CONCURRENCY;
+    this.store = options.store || indexedDbJobStore;
+  }
+
+  // Listen for job changes; the listener is called right away with the current jobs
+  subscribe(listener: (jobs: IngestionJob[]) => void): () => void {
+    this.listeners.add(listener);
+    listener(this.jobs);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  getJobs(): IngestionJob[] {
+    return this.jobs;
+  }
+
+  getConcurrency(): number {
+    return this.concurrency;
+  }
+
+  setConcurrency(concurrency: number) {
+    this.concurrency = Math.max(1, Math.floor(concurrency));
+    this.pump();
+  }
+
+  enqueue(
+    file: File,
+    options: Pick<IngestionJob, 'chunking' | 'encoding' | 'reindex' | 'parentId' | 'archivePath' | 'versionOf'> = {}
+  ): IngestionJob {
+    // Start a fresh list once everything from the previous batch has finished
+    if (!this.jobs.some(isUnfinished)) {
+      this.jobs = [];
+    }
+
+    const job: IngestionJob = {
+      id: crypto.randomUUID(),
+      file,
+      ...options,
+      status: 'queued',
+      progress: 0,
+      createdAt: Date.now(),
+    };
+
+    this.jobs = [...this.jobs, job];
+    this.notify();
+    this.persist(job);
+    this.pump();
+
+    return job;
+  }
+
+  // Pausing a running job aborts it; it starts over when resumed
+  pause(id: string) {
+    const job = this.find(id);
+    if (!job || (job.status !== 'queued' && job.status !== 'running')) return;
+
+    this.update(id, { status: 'paused', progress: 0 });
+    this.controllers.get(id)?.abort();
+    this.pump();
+  }
+
+  resume(id: string) {
+    if (this.find(id)?.status !== 'paused') return;
+
+    this.update(id, { status: 'queued' });
+    this.pump();
+  }
+
+  cancel(id: string) {
+    const job = this.find(id);
+    if (!job || !isUnfinished(job)) return;
+
+    this.update(id, { status: 'cancelled' });
+    this.controllers.get(id)?.abort();
+    this.pump();
+  }
+
+  // Put a failed or cancelled job back in the queue
+  retry(id: string) {
+    const job = this.find(id);
+    if (!job || (job.status !== 'failed' && job.status !== 'cancelled')) return;
+
+    this.update(id, { status: 'queued', progress: 0, error: undefined });
+    this.pump();
+  }
+
+  // Pick up the jobs left unfinished by a previous page load. Jobs that were
+  // running when the page went away start over.
+  async restore(): Promise<void> {
+    const saved = await this.store.load();
+    const known = new Set(this.jobs.map(job => job.id));
+
+    const restored = saved
+      .filter(job => !known.has(job.id) && isUnfinished(job))
+      .sort((a, b) => a.createdAt - b.createdAt)
+      .map(job => ({
+        ...job,
+        status: job.status === 'running' ? 'queued' as const : job.status,
+        progress: 0,
+        chunks: undefined,
+      }));
+
+    if (restored.length === 0) return;
+
+    this.jobs = [...this.jobs, ...restored];
+    this.notify();
+    this.pump();
+  }
+
+  // Start queued jobs, oldest first, until the concurrency limit is reached
+  private pump() {
+    let running = this.jobs.filter(job => job.status === 'running').length;
+
+    for (const job of this.jobs) {
+      if (running >= this.concurrency) break;
+      if (job.status === 'queued') {
+        running++;
+        this.start(job.id);
+      }
+    }
+  }
+
+  private async start(id: string) {
+    const controller = new AbortController();
+    this.controllers.set(id, controller);
+    this.update(id, { status: 'running', progress: 0, chunks: undefined, error: undefined });
+
+    try {
+      const status = await this.run(this.find(id)!, controller.signal, (progress, chunks) => {
+        if (!controller.signal.aborted) {
+          this.update(id, { progress: Math.round(progress), ...(chunks ? { chunks } : {}) });
+        }
+      });
+
+      // A job that got past its last cancellation point has been indexed,
+      // even if it was paused or cancelled in the meantime
+      this.update(id, { status, progress: 100, chunks: undefined });
+    } catch (error) {
+      // Paused and cancelled jobs already carry their new status
+      if (!controller.signal.aborted) {
+        console.error(`Ingestion of ${this.find(id)?.file.name} failed:`, error);
+        this.update(id, {
+          status: 'failed',
+          error: (error as Error)?.message || 'Unknown error',
+        });
+      }
+    } finally {
+      // A resumed job may already be running again under a new controller
+      if (this.controllers.get(id) === controller) {
+        this.controllers.delete(id);
+      }
+      this.pump();
+    }
+  }
+
+  private find(id: string): IngestionJob | undefined {
+    return this.jobs.find(job => job.id === id);
+  }
+
+  private update(id: string, data: Partial<IngestionJob>) {
+    const previous = this.find(id);
+    if (!previous) return;
+
+    const job = { ...previous, ...data };
+    this.jobs = this.jobs.map(item => (item.id === id ? job : item));
+    this.notify();
+
+    if (job.status !== previous.status) {
+      this.persist(job);
+    }
+  }
+
+  // Keep unfinished jobs in the store and drop the others
+  private persist(job: IngestionJob) {
+    Promise.resolve()
+      .then(() => (isUnfinished(job) ? this.store.save(job) : this.store.remove(job.id)))
+      .catch((error) => {
+        console.warn(`Failed to persist ingestion job ${job.id}:`, error);
+      });
+  }
+
+  private notify() {
+    for (const listener of Array.from(this.listeners)) {
+      listener(this.jobs);
+    }
+  }
+}
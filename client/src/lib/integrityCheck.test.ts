@@ -0,0 +1,193 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { checkIntegrity, hasProblems, repairIntegrity } from './integrityCheck';
+import { useDocumentStore } from '@/hooks/useDocumentStore';
+import * as storage from './storage';
+import * as duckdb from './duckdb';
+import * as vectorStore from './vectorStore';
+import * as knowledgeGraph from './knowledgeGraph';
+import * as documentProcessing from './documentProcessing';
+
+vi.mock('./storage', () => ({
+  deleteChunks: vi.fn(),
+  getAllChunks: vi.fn(),
+  getAllDocuments: vi.fn(),
+  getAllEmbeddings: vi.fn(),
+}));
+
+vi.mock('./duckdb', () => ({
+  deleteDocument: vi.fn(),
+  dropDataTables: vi.fn(),
+  getShardManager: vi.fn(),
+  listDataTables: vi.fn(),
+  listIndexedChunks: vi.fn(),
+  rewriteDocumentRows: vi.fn(),
+}));
+
+vi.mock('./vectorStore', () => ({
+  addToVectorStore: vi.fn(),
+  getIndexedChunks: vi.fn(),
+  removeChunksFromVectorStore: vi.fn(),
+  removeFromVectorStore: vi.fn(),
+}));
+
+vi.mock('./documentProcessing', () => ({
+  DATA_TABLE_TYPES: ['csv', 'xlsx', 'xls'],
+  reloadDataTables: vi.fn(),
+}));
+
+vi.mock('./knowledgeGraph', () => ({
+  addDocumentToGraph: vi.fn(),
+  listGraphChunks: vi.fn(),
+  removeChunksFromGraph: vi.fn(),
+  removeDocumentFromGraph: vi.fn(),
+}));
+
+const MODEL = 'Xenova/multilingual-e5-small';
+
+const chunk = (id: string, documentId: string) => ({
+  id,
+  documentId,
+  text: `Text of ${id}`,
+  metadata: { startIndex: 0, endIndex: 10 },
+});
+
+const document = (id: string) => ({
+  id,
+  name: `${id}.txt`,
+  type: 'txt',
+  size: 10,
+  sizeFormatted: '10 B',
+  createdAt: new Date('2024-01-15T00:00:00Z'),
+  source: 'local' as const,
+  // Chunks are read from their own store
+  content: { fullText: '', chunks: [] },
+  metadata: {},
+});
+
+describe('integrity check', () => {
+  const shardManager = {
+    getShards: vi.fn(),
+    addDocument: vi.fn(),
+    removeDocument: vi.fn(),
+  };
+
+  beforeEach(() => {
+    vi.resetAllMocks();
+
+    // Saved: a lease with two chunks, a memo with one and a document without
+    // any, plus a chunk and an embedding left behind by a deleted document
+    vi.mocked(storage.getAllDocuments).mockResolvedValue([document('lease'), document('memo'), document('empty')]);
+    vi.mocked(storage.getAllChunks).mockResolvedValue([
+      chunk('lease-1', 'lease'),
+      chunk('lease-2', 'lease'),
+      chunk('memo-1', 'memo'),
+      chunk('gone-1', 'gone'),
+    ]);
+    vi.mocked(storage.getAllEmbeddings).mockResolvedValue([
+      { chunkId: 'lease-2', documentId: 'lease', embedding: { quantization: 'float32', values: new Float32Array([1, 0]) }, model: MODEL, dimensions: 2 },
+      { chunkId: 'stray-1', documentId: 'stray', embedding: { quantization: 'float32', values: new Float32Array([0, 1]) }, model: MODEL, dimensions: 2 },
+    ]);
+
+    useDocumentStore.setState({ documents: [document('lease'), document('empty'), document('old')] });
+    vi.mocked(vectorStore.getIndexedChunks).mockReturnValue(new Map([
+      ['lease', ['lease-1']],
+      ['old', ['old-1']],
+    ]));
+    // Emptied by a reload
+    vi.mocked(duckdb.listIndexedChunks).mockResolvedValue(new Map([['empty', []]]));
+    vi.mocked(duckdb.listDataTables).mockResolvedValue([]);
+    vi.mocked(duckdb.getShardManager).mockReturnValue(shardManager as any);
+    shardManager.getShards.mockReturnValue([{ documentIds: ['lease', 'memo'] }]);
+    vi.mocked(knowledgeGraph.listGraphChunks).mockResolvedValue(new Map([
+      ['lease', ['lease-1', 'lease-old']],
+    ]));
+  });
+
+  it('reports what each store lacks and keeps beyond the saved documents', async () => {
+    const report = await checkIntegrity();
+    const byStore = Object.fromEntries(report.stores.map(check => [check.store, check]));
+
+    expect(report).toMatchObject({ documentCount: 3, chunkCount: 3 });
+    expect(byStore.documentList).toMatchObject({ missingDocumentIds: ['memo'], orphanDocumentIds: ['old'] });
+    expect(byStore.storage).toMatchObject({ chunkCount: 3, orphanChunkIds: ['gone-1', 'stray-1'] });
+    expect(byStore.vectorIndex).toMatchObject({
+      chunkCount: 2,
+      missingDocumentIds: ['memo'],
+      missingChunkIds: ['lease-2'],
+      orphanDocumentIds: ['old'],
+      orphanChunkIds: [],
+    });
+    expect(byStore.duckdb).toMatchObject({ documentCount: 1, missingDocumentIds: ['lease', 'memo'] });
+    // None of the documents is a spreadsheet
+    expect(hasProblems(byStore.dataTables)).toBe(false);
+    // A document without chunks is in no shard
+    expect(hasProblems(byStore.shards)).toBe(false);
+    expect(byStore.knowledgeGraph).toMatchObject({
+      missingDocumentIds: ['memo'],
+      missingChunkIds: [],
+      orphanChunkIds: ['lease-old'],
+    });
+  });
+
+  it('reports a store that cannot be read and checks the others', async () => {
+    vi.mocked(knowledgeGraph.listGraphChunks).mockRejectedValue(new Error('IDBFS is not mounted'));
+
+    const report = await checkIntegrity();
+
+    expect(report.stores.find(check => check.store === 'knowledgeGraph')).toMatchObject({
+      error: 'IDBFS is not mounted',
+      documentCount: 0,
+    });
+    expect(report.stores.filter(check => check.error)).toHaveLength(1);
+  });
+
+  it('derives what is missing from the saved documents and removes the rest', async () => {
+    vi.mocked(duckdb.rewriteDocumentRows).mockImplementation(async doc => {
+      if (doc.id === 'memo') throw new Error('Database connection not established');
+    });
+
+    const report = await repairIntegrity();
+
+    expect(useDocumentStore.getState().documents.map(doc => doc.id)).toEqual(['lease', 'empty', 'memo']);
+    expect(storage.deleteChunks).toHaveBeenCalledWith(['gone-1', 'stray-1']);
+
+    expect(vectorStore.removeFromVectorStore).toHaveBeenCalledWith('old');
+    expect(vectorStore.addToVectorStore).toHaveBeenCalledWith(
+      [chunk('memo-1', 'memo')], 'memo.txt', 'txt', expect.objectContaining({ type: 'txt' }),
+    );
+    // The saved embedding is indexed rather than computed again
+    expect(vectorStore.addToVectorStore).toHaveBeenCalledWith(
+      [{ ...chunk('lease-2', 'lease'), embedding: new Float32Array([1, 0]), embeddingModel: MODEL }],
+      'lease.txt', 'txt', expect.anything(),
+    );
+
+    expect(duckdb.rewriteDocumentRows).toHaveBeenCalledWith(expect.objectContaining({
+      id: 'lease',
+      content: { fullText: '', chunks: [chunk('lease-1', 'lease'), chunk('lease-2', 'lease')] },
+    }));
+    expect(shardManager.addDocument).not.toHaveBeenCalled();
+    expect(knowledgeGraph.removeChunksFromGraph).toHaveBeenCalledWith(['lease-old']);
+    expect(knowledgeGraph.addDocumentToGraph).toHaveBeenCalledWith(expect.objectContaining({ id: 'memo' }));
+
+    expect(report.repairErrors).toEqual(['Keyword database: Database connection not established']);
+  });
+
+  it('loads the tables of spreadsheets and CSV files again from their original file', async () => {
+    const sales = { ...document('sales'), name: 'sales.csv', type: 'csv' };
+    vi.mocked(storage.getAllDocuments).mockResolvedValue([document('lease'), document('memo'), document('empty'), sales]);
+    vi.mocked(duckdb.listDataTables).mockResolvedValue([
+      { tableName: 'old', documentId: 'old', sheet: null, rowCount: 2, columns: [] },
+    ]);
+    // The original file was not kept
+    vi.mocked(documentProcessing.reloadDataTables).mockResolvedValue([]);
+
+    const check = (await checkIntegrity()).stores.find(item => item.store === 'dataTables');
+    expect(check).toMatchObject({ documentCount: 1, missingDocumentIds: ['sales'], orphanDocumentIds: ['old'] });
+
+    const report = await repairIntegrity();
+
+    expect(duckdb.dropDataTables).toHaveBeenCalledWith('old');
+    expect(documentProcessing.reloadDataTables).toHaveBeenCalledWith(expect.objectContaining({ id: 'sales' }));
+    expect(report.repairErrors).toContain('Data tables: No tables could be loaded from sales.csv');
+  });
+});
@@ -0,0 +1,380 @@
+import { Document, DocumentChunk, StoredEmbedding } from '@/types';
+import { useDocumentStore } from '@/hooks/useDocumentStore';
+import { deleteChunks, getAllChunks, getAllDocuments, getAllEmbeddings } from './storage';
+import {
+  deleteDocument as deleteIndexedDocument,
+  dropDataTables,
+  getShardManager,
+  listDataTables,
+  listIndexedChunks,
+  rewriteDocumentRows,
+} from './duckdb';
+import {
+  addToVectorStore,
+  getIndexedChunks,
+  removeChunksFromVectorStore,
+  removeFromVectorStore,
+} from './vectorStore';
+import { dequantize } from './quantization';
+import { documentFacets } from './searchFilters';
+import { DATA_TABLE_TYPES, reloadDataTables } from './documentProcessing';
+
+export type IndexStoreId =
+  | 'documentList'
+  | 'storage'
+  | 'vectorIndex'
+  | 'duckdb'
+  | 'dataTables'
+  | 'shards'
+  | 'knowledgeGraph';
+
+export interface StoreCheck {
+  store: IndexStoreId;
+  label: string;
+  documentCount: number;
+  // Only for stores that keep chunks
+  chunkCount?: number;
+  // Saved documents and chunks the store lacks
+  missingDocumentIds: string[];
+  missingChunkIds: string[];
+  // Documents and chunks the store has that are not saved
+  orphanDocumentIds: string[];
+  orphanChunkIds: string[];
+  // Set when the store could not be read
+  error?: string;
+}
+
+export interface IntegrityReport {
+  checkedAt: Date;
+  // Saved in IndexedDB, which every other store is compared with
+  documentCount: number;
+  chunkCount: number;
+  stores: StoreCheck[];
+  // Repairs that failed, when the report was made after repairing
+  repairErrors: string[];
+}
+
+// The saved documents with the chunks saved for them, and what is saved
+// without a document
+interface SavedState {
+  documents: Map<string, Document>;
+  embeddings: Map<string, StoredEmbedding>;
+  // Document id of each saved chunk
+  chunkDocuments: Map<string, string>;
+  orphanChunkIds: string[];
+}
+
+const STORE_LABELS: Record<IndexStoreId, string> = {
+  documentList: 'Document list',
+  storage: 'Saved chunks and embeddings',
+  vectorIndex: 'Vector index',
+  duckdb: 'Keyword database',
+  dataTables: 'Data tables',
+  shards: 'Search index shards',
+  knowledgeGraph: 'Knowledge graph',
+};
+
+export function hasProblems(check: StoreCheck): boolean {
+  return (
+    check.missingDocumentIds.length +
+      check.missingChunkIds.length +
+      check.orphanDocumentIds.length +
+      check.orphanChunkIds.length >
+    0
+  );
+}
+
+// Compare the documents and chunks of every store with the copy saved in
+// IndexedDB
+export async function checkIntegrity(): Promise<IntegrityReport> {
+  return runChecks(await loadSavedState());
+}
+
+// Bring every store in line with IndexedDB: derive what is missing from the
+// saved documents and remove what is not saved. Returns a fresh report.
+export async function repairIntegrity(): Promise<IntegrityReport> {
+  const saved = await loadSavedState();
+  const report = await runChecks(saved);
+  const repairErrors: string[] = [];
+
+  for (const check of report.stores) {
+    if (check.error || !hasProblems(check)) continue;
+    try {
+      await REPAIRS[check.store](check, saved);
+    } catch (error) {
+      console.error(`Failed to repair the ${check.label.toLowerCase()}:`, error);
+      repairErrors.push(`${check.label}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  return { ...(await checkIntegrity()), repairErrors };
+}
+
+async function loadSavedState(): Promise<SavedState> {
+  const [documents, chunks, embeddings] = await Promise.all([
+    getAllDocuments(),
+    getAllChunks(),
+    getAllEmbeddings(),
+  ]);
+
+  // The chunk store is what a document is read back with
+  const chunksByDocument = new Map<string, DocumentChunk[]>(documents.map(doc => [doc.id, []]));
+  const orphanChunkIds: string[] = [];
+  const chunkDocuments = new Map<string, string>();
+  for (const chunk of chunks) {
+    const list = chunksByDocument.get(chunk.documentId);
+    if (list) {
+      list.push(chunk);
+      chunkDocuments.set(chunk.id, chunk.documentId);
+    } else {
+      orphanChunkIds.push(chunk.id);
+    }
+  }
+
+  const embeddingsByChunk = new Map<string, StoredEmbedding>();
+  for (const stored of embeddings) {
+    if (chunkDocuments.has(stored.chunkId)) {
+      embeddingsByChunk.set(stored.chunkId, stored);
+    } else if (!orphanChunkIds.includes(stored.chunkId)) {
+      orphanChunkIds.push(stored.chunkId);
+    }
+  }
+
+  return {
+    documents: new Map(documents.map(doc => [
+      doc.id,
+      { ...doc, content: { ...doc.content, chunks: chunksByDocument.get(doc.id)! } },
+    ])),
+    embeddings: embeddingsByChunk,
+    chunkDocuments,
+    orphanChunkIds,
+  };
+}
+
+async function runChecks(saved: SavedState): Promise<IntegrityReport> {
+  const all = new Map<string, string[]>();
+  // Stores built from chunks have nothing for a document without any
+  const withChunks = new Map<string, string[]>();
+  saved.documents.forEach((doc, id) => {
+    const chunkIds = doc.content.chunks.map(chunk => chunk.id);
+    all.set(id, chunkIds);
+    if (chunkIds.length > 0) withChunks.set(id, chunkIds);
+  });
+
+  const stores: StoreCheck[] = [
+    await checkStore('documentList', async () => {
+      const listed = useDocumentStore.getState().documents;
+      return compare(all, new Map(listed.map(doc => [doc.id, []])), false);
+    }),
+    await checkStore('storage', async () => ({
+      documentCount: saved.documents.size,
+      chunkCount: saved.chunkDocuments.size,
+      missingDocumentIds: [],
+      missingChunkIds: [],
+      orphanDocumentIds: [],
+      orphanChunkIds: saved.orphanChunkIds,
+    })),
+    await checkStore('vectorIndex', async () => compare(withChunks, getIndexedChunks(), true)),
+    await checkStore('duckdb', async () => compare(all, await listIndexedChunks(), true)),
+    // Spreadsheets and CSV files should have their tables loaded
+    await checkStore('dataTables', async () => {
+      const expected = new Map<string, string[]>();
+      saved.documents.forEach((doc, id) => {
+        if (DATA_TABLE_TYPES.includes(doc.type)) expected.set(id, []);
+      });
+      const loaded = new Map<string, string[]>();
+      (await listDataTables()).forEach(table => loaded.set(table.documentId, []));
+      return compare(expected, loaded, false);
+    }),
+    await checkStore('shards', async () => {
+      const manager = getShardManager();
+      if (!manager) throw new Error('Not loaded yet');
+      const documentIds = new Map<string, string[]>();
+      manager.getShards().forEach(shard => shard.documentIds.forEach(id => documentIds.set(id, [])));
+      return compare(withChunks, documentIds, false);
+    }),
+    // Chunks without any named entity have none in the graph, so only a
+    // document without any counts as missing. One that really has none is
+    // reported each time; extracting its entities again does no harm.
+    await checkStore('knowledgeGraph', async () => {
+      const graph = await import('./knowledgeGraph').then(module => module.listGraphChunks());
+      return { ...compare(withChunks, graph, true), missingChunkIds: [] };
+    }),
+  ];
+
+  return {
+    checkedAt: new Date(),
+    documentCount: saved.documents.size,
+    chunkCount: saved.chunkDocuments.size,
+    stores,
+    repairErrors: [],
+  };
+}
+
+async function checkStore(
+  store: IndexStoreId,
+  check: () => Promise<Omit<StoreCheck, 'store' | 'label'>>
+): Promise<StoreCheck> {
+  try {
+    return { store, label: STORE_LABELS[store], ...(await check()) };
+  } catch (error) {
+    console.error(`Failed to check the ${STORE_LABELS[store].toLowerCase()}:`, error);
+    return {
+      store,
+      label: STORE_LABELS[store],
+      documentCount: 0,
+      missingDocumentIds: [],
+      missingChunkIds: [],
+      orphanDocumentIds: [],
+      orphanChunkIds: [],
+      error: error instanceof Error ? error.message : String(error),
+    };
+  }
+}
+
+// Chunks are only compared within documents both sides have; a missing or
+// orphaned document stands for all of its chunks
+function compare(
+  expected: Map<string, string[]>,
+  actual: Map<string, string[]>,
+  withChunks: boolean
+): Omit<StoreCheck, 'store' | 'label'> {
+  const result: Omit<StoreCheck, 'store' | 'label'> = {
+    documentCount: actual.size,
+    missingDocumentIds: [],
+    missingChunkIds: [],
+    orphanDocumentIds: [],
+    orphanChunkIds: [],
+  };
+
+  expected.forEach((chunkIds, id) => {
+    const present = actual.get(id);
+    if (!present) {
+      result.missingDocumentIds.push(id);
+    } else if (withChunks) {
+      const presentIds = new Set(present);
+      result.missingChunkIds.push(...chunkIds.filter(chunkId => !presentIds.has(chunkId)));
+    }
+  });
+  actual.forEach((chunkIds, id) => {
+    const savedIds = expected.get(id);
+    if (!savedIds) {
+      result.orphanDocumentIds.push(id);
+    } else if (withChunks) {
+      const saved = new Set(savedIds);
+      result.orphanChunkIds.push(...chunkIds.filter(chunkId => !saved.has(chunkId)));
+    }
+  });
+
+  if (withChunks) {
+    let chunkCount = 0;
+    actual.forEach(chunkIds => (chunkCount += chunkIds.length));
+    result.chunkCount = chunkCount;
+  }
+  return result;
+}
+
+const REPAIRS: Record<IndexStoreId, (check: StoreCheck, saved: SavedState) => Promise<void>> = {
+  documentList: async (check, saved) => {
+    const store = useDocumentStore.getState();
+    check.orphanDocumentIds.forEach(id => store.removeDocument(id));
+    check.missingDocumentIds.forEach(id => store.addDocument(saved.documents.get(id)!));
+  },
+
+  storage: async check => {
+    await deleteChunks(check.orphanChunkIds);
+  },
+
+  // Saved embeddings are indexed again; chunks without one are embedded
+  vectorIndex: async (check, saved) => {
+    for (const id of check.orphanDocumentIds) {
+      await removeFromVectorStore(id);
+    }
+    await removeChunksFromVectorStore(check.orphanChunkIds);
+
+    for (const [doc, chunks] of missingChunksByDocument(check, saved)) {
+      await addToVectorStore(withEmbeddings(chunks, saved), doc.name, doc.type, documentFacets(doc));
+    }
+  },
+
+  duckdb: async (check, saved) => {
+    for (const id of check.orphanDocumentIds) {
+      await deleteIndexedDocument(id);
+    }
+
+    // A document with chunks missing or left over has its chunk rows
+    // written again
+    const stale = new Set(check.missingDocumentIds);
+    check.missingChunkIds.forEach(chunkId => stale.add(saved.chunkDocuments.get(chunkId)!));
+    if (check.orphanChunkIds.length > 0) {
+      const orphans = new Set(check.orphanChunkIds);
+      (await listIndexedChunks()).forEach((chunkIds, id) => {
+        if (saved.documents.has(id) && chunkIds.some(chunkId => orphans.has(chunkId))) stale.add(id);
+      });
+    }
+    for (const id of Array.from(stale)) {
+      await rewriteDocumentRows(saved.documents.get(id)!);
+    }
+  },
+
+  // Tables are loaded again from the original file, which is only kept
+  // for files indexed since it was
+  dataTables: async (check, saved) => {
+    for (const id of check.orphanDocumentIds) {
+      await dropDataTables(id);
+    }
+    const notLoaded: string[] = [];
+    for (const id of check.missingDocumentIds) {
+      const doc = saved.documents.get(id)!;
+      if ((await reloadDataTables(doc)).length === 0) notLoaded.push(doc.name);
+    }
+    if (notLoaded.length > 0) {
+      throw new Error(`No tables could be loaded from ${notLoaded.join(', ')}`);
+    }
+  },
+
+  shards: async (check, saved) => {
+    const manager = getShardManager()!;
+    for (const id of check.orphanDocumentIds) {
+      await manager.removeDocument(id);
+    }
+    for (const id of check.missingDocumentIds) {
+      const doc = saved.documents.get(id)!;
+      await manager.addDocument(doc, withEmbeddings(doc.content.chunks, saved));
+    }
+  },
+
+  // Entities are extracted again for the whole document
+  knowledgeGraph: async (check, saved) => {
+    const graph = await import('./knowledgeGraph');
+    for (const id of check.orphanDocumentIds) {
+      await graph.removeDocumentFromGraph(id);
+    }
+    await graph.removeChunksFromGraph(check.orphanChunkIds);
+    for (const id of check.missingDocumentIds) {
+      await graph.addDocumentToGraph(saved.documents.get(id)!);
+    }
+  },
+};
+
+// The chunks a store lacks, with the document they belong to
+function missingChunksByDocument(check: StoreCheck, saved: SavedState): Array<[Document, DocumentChunk[]]> {
+  const missing = new Map<string, DocumentChunk[]>();
+  check.missingDocumentIds.forEach(id => missing.set(id, saved.documents.get(id)!.content.chunks));
+  check.missingChunkIds.forEach(chunkId => {
+    const id = saved.chunkDocuments.get(chunkId)!;
+    const chunk = saved.documents.get(id)!.content.chunks.find(item => item.id === chunkId)!;
+    missing.set(id, [...(missing.get(id) || []), chunk]);
+  });
+  return Array.from(missing.entries()).map(([id, chunks]) => [saved.documents.get(id)!, chunks]);
+}
+
+// Chunks with their saved embedding, so it need not be computed again
+function withEmbeddings(chunks: DocumentChunk[], saved: SavedState): DocumentChunk[] {
+  return chunks.map(chunk => {
+    const stored = saved.embeddings.get(chunk.id);
+    return stored
+      ? { ...chunk, embedding: dequantize(stored.embedding), embeddingModel: stored.model }
+      : chunk;
+  });
+}
@@ -1,11 +1,15 @@
 import kuzu from "kuzu-wasm";
 import { pipeline } from "@xenova/transformers";
-import { Document } from "@/types";
+import { Document, DocumentChunk } from "@/types";
+import { NER_MODEL } from "@shared/offlineAssets";
+import { extractEntitiesInWorkers } from "./documentProcessing";
+// Sets where transformers.js loads models from before the pipeline below
+import "./languageProcessing";
 
 let db: any = null;
 let connection: any = null;
 // Initialize NER pipeline at module level
-const nerPipeline = pipeline("token-classification", "Xenova/bert-base-NER");
+const nerPipeline = pipeline("token-classification", NER_MODEL);
 let nerPipelineInstance: any = null;
 
 // Initialize KuzuDB
@@ -59,16 +63,26 @@ async function extractEntities(
   }));
 }
 
-// Add document to knowledge graph
-export async function addDocumentToGraph(document: Document) {
+// Add document to knowledge graph. When a document is re-indexed only its
+// new chunks are passed in. The worker pool extracted their entities while
+// embedding them; chunks indexed without entities have them extracted there
+// now, so NER stays off this thread.
+export async function addDocumentToGraph(
+  document: Document,
+  chunks: DocumentChunk[] = document.content.chunks,
+) {
   await initKnowledgeGraph();
 
-  for (const chunk of document.content.chunks) {
-    try {
-      // Extract entities
-      const entities = await extractEntities(chunk.text);
+  const missing = chunks.filter((chunk) => !chunk.entities);
+  const extracted = new Map(
+    (missing.length > 0 ? await extractEntitiesInWorkers(missing) : []).map(
+      (chunk) => [chunk.id, chunk.entities || []],
+    ),
+  );
 
-      console.log("Extracted entities:", entities);
+  for (const chunk of chunks) {
+    try {
+      const entities = chunk.entities || extracted.get(chunk.id) || [];
 
       // Add entities to graph
       for (const entity of entities) {
@@ -100,6 +114,46 @@ export async function addDocumentToGraph(document: Document) {
   }
 }
 
+// Remove the entities (and their relationships) found in the given chunks
+export async function removeChunksFromGraph(chunkIds: string[]) {
+  if (chunkIds.length === 0) return;
+  await initKnowledgeGraph();
+
+  const ids = chunkIds.map((id) => `'${id}'`).join(", ");
+  await connection.query(`
+    MATCH (e:Entity)
+    WHERE e.chunkId IN [${ids}]
+    DETACH DELETE e
+  `);
+}
+
+// Remove all entities extracted from a document
+export async function removeDocumentFromGraph(documentId: string) {
+  await initKnowledgeGraph();
+
+  await connection.query(`
+    MATCH (e:Entity)
+    WHERE e.documentId = '${documentId}'
+    DETACH DELETE e
+  `);
+}
+
+// Chunk ids with entities in the graph, by document
+export async function listGraphChunks(): Promise<Map<string, string[]>> {
+  await initKnowledgeGraph();
+
+  const rows = await connection.query(`
+    MATCH (e:Entity)
+    RETURN DISTINCT e.documentId AS documentId, e.chunkId AS chunkId
+  `);
+
+  const chunkIds = new Map<string, string[]>();
+  rows.forEach((row: any) => {
+    chunkIds.set(row.documentId, [...(chunkIds.get(row.documentId) || []), row.chunkId]);
+  });
+  return chunkIds;
+}
+
 // Search knowledge graph
 export async function searchGraph(
   query: string,
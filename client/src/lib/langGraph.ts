@@ -1,6 +1,7 @@
-import { SearchResult } from "@/types";
+import { SearchDiversity, SearchFilters, SearchResult } from "@/types";
 import { keywordSearch } from "./duckdb";
-import { search as vectorSearch } from "./vectorStore";
+import { getChunkEmbeddings, search as vectorSearch } from "./vectorStore";
+import { DEFAULT_DIVERSITY, diversifyResults } from "./diversification";
 import {
   detectLanguage,
   extractKeywords,
@@ -17,6 +18,9 @@ type Context = {
   keywordResults: SearchResult[];
   combinedResults: SearchResult[];
   keywords: string[];
+  // Applied by both the vector and the keyword search
+  filters?: SearchFilters;
+  diversity: SearchDiversity;
   errorMessage?: string;
 };
 
@@ -80,7 +84,7 @@ const nodes: Record<string, Node> = {
     process: async (context) => {
       try {
         // Perform vector search
-        context.vectorResults = await vectorSearch(context.query, 20);
+        context.vectorResults = await vectorSearch(context.query, 20, context.filters);
         
         // Perform knowledge graph search
         const graphResults = await import('./knowledgeGraph')
@@ -111,7 +115,7 @@ const nodes: Record<string, Node> = {
     id: "executeKeywordSearch",
     process: async (context) => {
       try {
-        context.keywordResults = await keywordSearch(context.query, 20);
+        context.keywordResults = await keywordSearch(context.query, 20, context.filters);
       } catch (error) {
         console.error("Keyword search error:", error);
         context.keywordResults = [];
@@ -145,6 +149,25 @@ const nodes: Record<string, Node> = {
 
       return context;
     },
+    next: ["diversify"],
+  },
+
+  // Spread the combined results over more documents and content
+  diversify: {
+    id: "diversify",
+    process: async (context) => {
+      if (context.diversity.mode !== "off" && context.combinedResults?.length > 1) {
+        const embeddings = getChunkEmbeddings(
+          context.combinedResults.map((result) => result.chunkId),
+        );
+        context.combinedResults = diversifyResults(
+          context.combinedResults,
+          context.diversity,
+          (chunkId) => embeddings.get(chunkId),
+        );
+      }
+      return context;
+    },
     next: ["end"],
   },
 
@@ -161,9 +184,13 @@ const nodes: Record<string, Node> = {
 // Execute the search graph
 export async function executeSearchGraph(
   query: string,
+  filters?: SearchFilters,
+  diversity: SearchDiversity = DEFAULT_DIVERSITY,
 ): Promise<SearchResult[]> {
   let context: Context = {
     query,
+    filters,
+    diversity,
     originalQuery: query,
     language: "",
     isDualSearch: false,
@@ -232,10 +259,12 @@ export async function executeSearchGraph(
       };
     }
 
-    // Execute final wait node to combine results
-    const waitNode = nodes["waitForDualSearch"];
-    if (waitNode) {
-      context = await waitNode.process(context);
+    // Execute final wait node to combine results, and the nodes after it
+    let finalNodeId = "waitForDualSearch";
+    while (nodes[finalNodeId]) {
+      const node = nodes[finalNodeId];
+      context = await node.process(context);
+      finalNodeId = node.next[0] || "";
     }
   }
 
@@ -1,37 +1,65 @@
 import { pipeline, env } from '@xenova/transformers';
+import { getActiveEmbeddingModel, getEmbeddingModel, prepareEmbeddingInput } from './embeddingModels';
+import { assetUrl } from './offlineAssets';
 
-// Configure the library
-env.allowLocalModels = false;
+// Configure the library to load models and the ONNX runtime from our server.
+// Models that were not vendored only come from the Hugging Face hub when
+// VITE_ALLOW_REMOTE_MODELS is true, so by default nothing is fetched from it.
+env.allowLocalModels = true;
+env.localModelPath = assetUrl('models/');
+env.allowRemoteModels = import.meta.env.VITE_ALLOW_REMOTE_MODELS === 'true';
 env.useBrowserCache = true;
+env.backends.onnx.wasm.wasmPaths = assetUrl('onnxruntime/');
 
-// Model configurations
-const EMBEDDING_MODEL = 'Xenova/all-MiniLM-L6-v2';
-
-// Initialize models
-let embeddingPipeline: any = null;
+// Initialize models, one embedding pipeline per model in use
+const embeddingPipelines = new Map<string, Promise<any>>();
 let languageDetectionPipeline: any = null;
 
-// Initialize the embedding model
-async function initEmbeddingModel() {
-  if (!embeddingPipeline) {
-    embeddingPipeline = await pipeline('feature-extraction', EMBEDDING_MODEL);
+// Initialize an embedding model
+function initEmbeddingModel(modelId: string): Promise<any> {
+  if (!embeddingPipelines.has(modelId)) {
+    const loading = pipeline('feature-extraction', modelId);
+    // Let a failed download be retried
+    loading.catch(() => embeddingPipelines.delete(modelId));
+    embeddingPipelines.set(modelId, loading);
   }
-  return embeddingPipeline;
+  return embeddingPipelines.get(modelId)!;
 }
 
-// Generate embeddings for text
-export async function generateEmbeddings(text: string): Promise<Float32Array> {
-  const pipe = await initEmbeddingModel();
-  
+// Generate embeddings for a query with the active model
+export async function generateEmbeddings(
+  text: string,
+  modelId: string = getActiveEmbeddingModel().id
+): Promise<Float32Array> {
+  const [embedding] = await generateEmbeddingBatch([text], modelId, 'query');
+  return embedding;
+}
+
+// Generate embeddings for several texts in one pass through the model
+export async function generateEmbeddingBatch(
+  texts: string[],
+  modelId: string,
+  input: 'query' | 'passage' = 'passage'
+): Promise<Float32Array[]> {
+  if (texts.length === 0) return [];
+
+  const model = getEmbeddingModel(modelId);
+  const pipe = await initEmbeddingModel(model.id);
+
   try {
-    // Get embeddings
-    const result = await pipe(text, {
-      pooling: 'mean',
-      normalize: true,
-    });
-    
-    // Return the embedding vector
-    return new Float32Array(result.data);
+    const result = await pipe(
+      texts.map(text => prepareEmbeddingInput(model, text, input)),
+      {
+        pooling: 'mean',
+        normalize: true,
+      }
+    );
+
+    // One row of the [texts, dimensions] tensor per text
+    const dimensions = result.dims[result.dims.length - 1];
+    return texts.map((_, i) =>
+      new Float32Array(result.data.slice(i * dimensions, (i + 1) * dimensions))
+    );
   } catch (error) {
     console.error('Error generating embeddings:', error);
     throw error;
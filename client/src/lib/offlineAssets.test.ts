@@ -0,0 +1,28 @@
+import { describe, it, expect } from 'vitest';
+import { assetUrl, absoluteAssetUrl } from './offlineAssets';
+import { NER_MODEL, OCR_LANGUAGES, offlineAssets } from '@shared/offlineAssets';
+import { DEFAULT_EMBEDDING_MODEL } from './embeddingModels';
+
+describe('offline assets', () => {
+  it('builds asset URLs below the vendor path', () => {
+    expect(assetUrl('pdfjs/pdf.worker.min.mjs')).toBe('/vendor/pdfjs/pdf.worker.min.mjs');
+    expect(assetUrl('/models/')).toBe('/vendor/models/');
+    expect(absoluteAssetUrl('duckdb/duckdb-eh.wasm')).toBe(
+      new URL('/vendor/duckdb/duckdb-eh.wasm', location.href).href
+    );
+  });
+
+  it('lists the runtimes, models and OCR data once each', () => {
+    const paths = offlineAssets([DEFAULT_EMBEDDING_MODEL, NER_MODEL], OCR_LANGUAGES).map(
+      (asset) => asset.path
+    );
+
+    expect(paths).toContain('duckdb/duckdb-eh.wasm');
+    expect(paths).toContain('pdfjs/pdf.worker.min.mjs');
+    expect(paths).toContain('onnxruntime/ort-wasm-simd.wasm');
+    expect(paths).toContain('tesseract/lang/hin.traineddata.gz');
+    expect(paths).toContain(`models/${DEFAULT_EMBEDDING_MODEL}/onnx/model_quantized.onnx`);
+    expect(paths).toContain(`models/${NER_MODEL}/tokenizer.json`);
+    expect(new Set(paths).size).toBe(paths.length);
+  });
+});
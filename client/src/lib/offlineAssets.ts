@@ -0,0 +1,15 @@
+import { OFFLINE_ASSETS_PATH } from '@shared/offlineAssets';
+
+// Models, WASM builds and workers are loaded from our own server rather than
+// CDNs. VITE_ASSET_BASE_URL points them somewhere else, e.g. a mirror.
+export const ASSET_BASE_URL = (import.meta.env.VITE_ASSET_BASE_URL || OFFLINE_ASSETS_PATH).replace(/\/+$/, '');
+
+export function assetUrl(path: string): string {
+  return `${ASSET_BASE_URL}/${path.replace(/^\/+/, '')}`;
+}
+
+// For loaders that resolve URLs from inside a worker or a blob, where a path
+// relative to the page means nothing
+export function absoluteAssetUrl(path: string): string {
+  return new URL(assetUrl(path), self.location.href).href;
+}
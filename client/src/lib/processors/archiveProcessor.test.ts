@@ -0,0 +1,53 @@
+import { describe, it, expect } from 'vitest';
+import JSZip from 'jszip';
+import { processZip } from './archiveProcessor';
+
+async function buildArchive(): Promise<ArrayBuffer> {
+  const zip = new JSZip();
+  zip.file('tender/notice.txt', 'Bids close on 12 March');
+  zip.file('tender/annexures/rates.csv', 'item,rate\ncement,420');
+  zip.file('__MACOSX/tender/._notice.txt', 'resource fork');
+  zip.file('tender/.DS_Store', 'finder');
+  zip.folder('tender/empty');
+  return zip.generateAsync({ type: 'arraybuffer' });
+}
+
+describe('processZip', () => {
+  it('returns each member as a child with its path', async () => {
+    const { text, metadata, children } = await processZip(await buildArchive(), () => {});
+
+    expect(children?.map((child) => child.path)).toEqual([
+      'tender/annexures/rates.csv',
+      'tender/notice.txt',
+    ]);
+    expect(new TextDecoder().decode(children![1].data)).toBe('Bids close on 12 March');
+    expect(text).toBe('tender/annexures/rates.csv\ntender/notice.txt');
+    expect(metadata.fileCount).toBe(2);
+  });
+
+  it('lists members beyond the size budget without inflating them', async () => {
+    const zip = new JSZip();
+    zip.file('notice.txt', 'Bids close on 12 March');
+    zip.file('bomb.txt', 'Claims to inflate to a gigabyte');
+    const archive = await zip.generateAsync({ type: 'arraybuffer' });
+
+    // Claim a gigabyte for the member in the central directory
+    const view = new DataView(archive);
+    for (let offset = 0; offset + 46 < archive.byteLength; offset++) {
+      if (view.getUint32(offset, true) !== 0x02014b50) continue;
+      const nameLength = view.getUint16(offset + 28, true);
+      const name = new TextDecoder().decode(new Uint8Array(archive, offset + 46, nameLength));
+      if (name === 'bomb.txt') view.setUint32(offset + 24, 1024 * 1024 * 1024, true);
+    }
+
+    const { metadata, children } = await processZip(archive, () => {});
+
+    expect(children?.map((child) => child.path)).toEqual(['notice.txt']);
+    expect(metadata).toMatchObject({ fileCount: 2, unexpandedFileCount: 1 });
+  });
+
+  it('rejects files that are not ZIP archives', async () => {
+    const notZip = new TextEncoder().encode('plain text').buffer as ArrayBuffer;
+    await expect(processZip(notZip, () => {})).rejects.toThrow('Failed to process ZIP archive');
+  });
+});
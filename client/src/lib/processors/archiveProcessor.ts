@@ -0,0 +1,81 @@
+import { DocumentMetadata, ExtractedFile, ExtractionResult } from '@/types';
+import JSZip from 'jszip';
+import { throwIfAborted } from '../utils';
+
+// Most members expanded from one archive; the rest are listed but not indexed
+const MAX_MEMBERS = 500;
+// Most bytes inflated from one archive, going by the sizes in its directory.
+// Members that would go beyond it are listed but not indexed either, so a
+// ZIP bomb is not inflated.
+const MAX_EXPANDED_BYTES = 512 * 1024 * 1024;
+
+// Folders and files that archivers and operating systems add
+const IGNORED_PATH = /(^|\/)(__MACOSX|\.DS_Store|Thumbs\.db|desktop\.ini)(\/|$)|(^|\/)\._/;
+
+// Expand a ZIP archive. Every member is returned as a child to be run
+// through its own processor; the archive's text lists the member paths so
+// that it can be found by the names of the files inside.
+export async function processZip(
+  buffer: ArrayBuffer,
+  onProgress: (progress: number) => void,
+  signal?: AbortSignal
+): Promise<ExtractionResult> {
+  try {
+    onProgress(10);
+
+    const zip = await JSZip.loadAsync(buffer);
+    const paths = Object.keys(zip.files)
+      .filter(path => !zip.files[path].dir && !IGNORED_PATH.test(path))
+      .sort();
+
+    onProgress(20);
+
+    const candidates = paths.slice(0, MAX_MEMBERS);
+    const children: ExtractedFile[] = [];
+    let expandedBytes = 0;
+
+    for (let i = 0; i < candidates.length; i++) {
+      throwIfAborted(signal);
+
+      const size = uncompressedSize(zip.files[candidates[i]]);
+      if (expandedBytes + size > MAX_EXPANDED_BYTES) continue;
+      expandedBytes += size;
+
+      children.push({
+        path: candidates[i],
+        data: await zip.files[candidates[i]].async('arraybuffer'),
+      });
+
+      onProgress(20 + ((i + 1) / candidates.length) * 80);
+    }
+
+    const text = paths.join('\n');
+    const metadata: DocumentMetadata = {
+      fileCount: paths.length,
+      files: paths,
+      wordCount: paths.length,
+    };
+    if (children.length < paths.length) {
+      metadata.unexpandedFileCount = paths.length - children.length;
+    }
+
+    onProgress(100);
+
+    return {
+      text,
+      metadata,
+      children,
+    };
+  } catch (error) {
+    throwIfAborted(signal);
+    console.error('Failed to process ZIP:', error);
+    throw new Error('Failed to process ZIP archive');
+  }
+}
+
+// Size of a member once inflated, as the archive's directory gives it. JSZip
+// keeps it on a field it does not declare.
+function uncompressedSize(file: JSZip.JSZipObject): number {
+  const data = (file as unknown as { _data?: { uncompressedSize?: number } })._data;
+  return data?.uncompressedSize || 0;
+}
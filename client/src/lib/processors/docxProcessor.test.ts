@@ -0,0 +1,61 @@
+import { describe, it, expect } from 'vitest';
+import { htmlToStructuredText } from './docxProcessor';
+import { splitIntoChunks } from '../chunking';
+
+const html = [
+  '<h1>Leave Policy</h1>',
+  '<p>Applies to all permanent staff.</p>',
+  '<h2>Casual Leave</h2>',
+  '<p>Twelve days per calendar year.</p>',
+  '<ul><li>Cannot be carried forward<ul><li>Except in March</li></ul></li></ul>',
+  '<h2>Earned Leave</h2>',
+  '<table><tr><td>Service</td><td>Days</td></tr><tr><td>5 years</td><td>30</td></tr></table>',
+  '<h1>Travel Policy</h1>',
+  '<p>Economy class only.</p>',
+].join('');
+
+describe('htmlToStructuredText', () => {
+  it('flattens headings, lists and tables into readable text', () => {
+    const { text } = htmlToStructuredText(html);
+
+    expect(text).toContain('Leave Policy\n\nApplies to all permanent staff.');
+    expect(text).toContain('- Cannot be carried forward\n\n  - Except in March');
+    expect(text).toContain('Service | Days\n\n5 years | 30');
+  });
+
+  it('records a section tree with offsets into the text', () => {
+    const { text, sections } = htmlToStructuredText(html);
+
+    expect(sections.map((s) => s.path)).toEqual([
+      ['Leave Policy'],
+      ['Leave Policy', 'Casual Leave'],
+      ['Leave Policy', 'Earned Leave'],
+      ['Travel Policy'],
+    ]);
+
+    for (const section of sections) {
+      expect(text.slice(section.startIndex)).toMatch(new RegExp(`^${section.title}`));
+    }
+
+    const [leave, casual, earned, travel] = sections;
+    expect(leave.endIndex).toBe(travel.startIndex - 2);
+    expect(casual.endIndex).toBe(earned.startIndex - 2);
+    expect(travel.endIndex).toBe(text.length);
+  });
+
+  it('lets chunks carry their heading path', () => {
+    const { text, sections } = htmlToStructuredText(html);
+    const chunks = splitIntoChunks(text, {
+      documentId: 'doc-1',
+      documentType: 'docx',
+      sections,
+    });
+
+    expect(chunks.map((c) => c.metadata.section)).toEqual([
+      'Leave Policy',
+      'Leave Policy > Casual Leave',
+      'Leave Policy > Earned Leave',
+      'Travel Policy',
+    ]);
+  });
+});
@@ -1,22 +1,35 @@
-import { DocumentMetadata } from '@/types';
+import { DocumentMetadata, ExtractionResult, SectionSpan } from '@/types';
 import mammoth from 'mammoth';
+import { throwIfAborted } from '../utils';
+
+// Map Word's built-in title style onto a heading so it opens a section
+const STYLE_MAP = [
+  "p[style-name='Title'] => h1:fresh",
+  "p[style-name='Subtitle'] => h2:fresh",
+];
 
 export async function processDocx(
   buffer: ArrayBuffer,
-  onProgress: (progress: number) => void
-): Promise<{ text: string; metadata: DocumentMetadata }> {
+  onProgress: (progress: number) => void,
+  signal?: AbortSignal
+): Promise<ExtractionResult> {
   try {
-    // Convert the document
+    // Convert the document to semantic HTML so headings, lists and tables survive
     onProgress(20);
     
-    const result = await mammoth.extractRawText({ arrayBuffer: buffer });
-    const text = result.value;
+    const result = await mammoth.convertToHtml(
+      { arrayBuffer: buffer },
+      { styleMap: STYLE_MAP }
+    );
+    throwIfAborted(signal);
+    const { text, sections } = htmlToStructuredText(result.value);
     
     onProgress(80);
     
     // Extract basic metadata
     const metadata: DocumentMetadata = {
       wordCount: text.split(/\s+/).filter(word => word.length > 0).length,
+      headingCount: sections.length,
     };
     
     // Try to extract additional metadata
@@ -51,13 +64,96 @@ export async function processDocx(
     return {
       text,
       metadata,
+      sections,
     };
   } catch (error) {
+    throwIfAborted(signal);
     console.error('Failed to process DOCX:', error);
     throw new Error('Failed to process DOCX file');
   }
 }
 
+// Flatten mammoth's HTML into plain text, recording where each heading's
+// section starts and ends. Lists become "- " lines and table rows become
+// " | "-separated cells so that their structure is still readable.
+export function htmlToStructuredText(html: string): {
+  text: string;
+  sections: SectionSpan[];
+} {
+  const body = new DOMParser().parseFromString(html, 'text/html').body;
+  const blocks: string[] = [];
+  const sections: SectionSpan[] = [];
+  const open: SectionSpan[] = [];
+  let length = 0;
+
+  const append = (block: string, prefix = '') => {
+    const trimmed = block.replace(/\s+/g, ' ').trim();
+    if (!trimmed) return;
+    if (blocks.length > 0) length += 2;
+    blocks.push(prefix + trimmed);
+    length += prefix.length + trimmed.length;
+  };
+
+  // Close every open section at or below the given heading level
+  const closeSections = (level: number) => {
+    while (open.length > 0 && open[open.length - 1].level >= level) {
+      open.pop()!.endIndex = length;
+    }
+  };
+
+  const walkList = (list: Element, depth: number) => {
+    for (const item of Array.from(list.children)) {
+      if (item.tagName !== 'LI') continue;
+      const ownText = Array.from(item.childNodes)
+        .filter(node => !(node instanceof Element && /^(UL|OL)$/.test(node.tagName)))
+        .map(node => node.textContent || '')
+        .join(' ');
+      append(ownText, `${'  '.repeat(depth)}- `);
+      for (const nested of Array.from(item.children)) {
+        if (/^(UL|OL)$/.test(nested.tagName)) walkList(nested, depth + 1);
+      }
+    }
+  };
+
+  for (const element of Array.from(body.children)) {
+    const heading = element.tagName.match(/^H([1-6])$/);
+
+    if (heading) {
+      const level = parseInt(heading[1]);
+      const title = (element.textContent || '').replace(/\s+/g, ' ').trim();
+      if (!title) continue;
+
+      closeSections(level);
+      const section: SectionSpan = {
+        title,
+        level,
+        path: [...open.map(s => s.title), title],
+        startIndex: blocks.length > 0 ? length + 2 : 0,
+        endIndex: 0,
+      };
+      open.push(section);
+      sections.push(section);
+      append(title);
+    } else if (element.tagName === 'UL' || element.tagName === 'OL') {
+      walkList(element, 0);
+    } else if (element.tagName === 'TABLE') {
+      for (const row of Array.from(element.querySelectorAll('tr'))) {
+        append(
+          Array.from(row.children)
+            .map(cell => (cell.textContent || '').trim())
+            .join(' | ')
+        );
+      }
+    } else {
+      append(element.textContent || '');
+    }
+  }
+
+  closeSections(1);
+
+  return { text: blocks.join('\n\n'), sections };
+}
+
 // Helper to convert ArrayBuffer to string
 async function arrayBufferToString(buffer: ArrayBuffer): Promise<string> {
   return new Promise((resolve, reject) => {
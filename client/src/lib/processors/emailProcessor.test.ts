@@ -0,0 +1,109 @@
+import { describe, it, expect } from 'vitest';
+import { looksLikeEmail, processEmail } from './emailProcessor';
+
+const encode = (value: string) => new TextEncoder().encode(value.replace(/\n/g, '\r\n')).buffer as ArrayBuffer;
+
+const reply = `From: "Sharma, Priya" <priya@example.com>
+To: tenders@example.com, Rahul <rahul@example.com>
+Cc: legal@example.com
+Subject: =?UTF-8?B?UmU6IFRlbmRlciDigJQgcmV2aXNlZCByYXRlcw==?=
+Date: Tue, 12 Mar 2024 10:15:00 +0530
+Message-ID: <b2@example.com>
+In-Reply-To: <a1@example.com>
+References: <a1@example.com>
+MIME-Version: 1.0
+Content-Type: multipart/mixed; boundary="outer"
+
+--outer
+Content-Type: multipart/alternative; boundary="inner"
+
+--inner
+Content-Type: text/plain; charset=utf-8
+Content-Transfer-Encoding: quoted-printable
+
+Revised rate for cement is =E2=82=B9420 per bag, valid until the tender clo=
+ses.
+--inner
+Content-Type: text/html; charset=utf-8
+
+<p>Revised rate for cement is &#8377;420 per bag.</p>
+--inner--
+--outer
+Content-Type: application/pdf; name="rates.pdf"
+Content-Disposition: attachment; filename="rates.pdf"
+Content-Transfer-Encoding: base64
+
+JVBERi0xLjcK
+--outer--
+`;
+
+describe('processEmail', () => {
+  it('decodes headers, the plain text body and attachments', async () => {
+    const { text, metadata, children } = await processEmail(encode(reply), () => {});
+
+    expect(metadata).toMatchObject({
+      from: '"Sharma, Priya" <priya@example.com>',
+      to: ['tenders@example.com', 'Rahul <rahul@example.com>'],
+      cc: ['legal@example.com'],
+      subject: 'Re: Tender — revised rates',
+      date: '2024-03-12T04:45:00.000Z',
+      messageId: '<b2@example.com>',
+      inReplyTo: '<a1@example.com>',
+      threadId: '<a1@example.com>',
+      attachmentCount: 1,
+    });
+    expect(text).toContain('Subject: Re: Tender — revised rates');
+    expect(text).toContain('Revised rate for cement is ₹420 per bag, valid until the tender closes.');
+    expect(text).not.toContain('<p>');
+    expect(children?.map((child) => child.path)).toEqual(['rates.pdf']);
+    expect(new TextDecoder().decode(children![0].data)).toBe('%PDF-1.7\n');
+  });
+
+  it('falls back to the HTML body without a plain text part', async () => {
+    const html = `From: a@example.com
+Subject: Notice
+Content-Type: text/html; charset=utf-8
+Content-Transfer-Encoding: base64
+
+${btoa('<div>Bids close <b>Friday</b></div><p>Regards</p>')}
+`;
+    const { text } = await processEmail(encode(html), () => {});
+
+    expect(text).toBe('From: a@example.com\nSubject: Notice\n\nBids close Friday\nRegards');
+  });
+
+  it('splits an mbox file into one child message each', async () => {
+    const mbox = `From priya@example.com Tue Mar 12 10:15:00 2024
+From: priya@example.com
+Subject: Tender notice
+Date: Mon, 11 Mar 2024 09:00:00 +0000
+
+>From the desk of the tender committee.
+
+From rahul@example.com Tue Mar 12 11:00:00 2024
+From: rahul@example.com
+Subject: Re: Tender notice
+
+Noted.
+`;
+    const { metadata, children } = await processEmail(encode(mbox), () => {});
+
+    expect(metadata.messageCount).toBe(2);
+    expect(children?.map((child) => child.path)).toEqual([
+      'messages/1/Tender notice.eml',
+      'messages/2/Re- Tender notice.eml',
+    ]);
+    expect(new TextDecoder().decode(children![0].data)).toContain('\r\nFrom the desk');
+  });
+});
+
+describe('looksLikeEmail', () => {
+  it('recognizes messages and mailboxes but not other text', () => {
+    const bytes = (value: string) => new Uint8Array(encode(value));
+
+    expect(looksLikeEmail(bytes(reply))).toBe(true);
+    expect(looksLikeEmail(bytes('From priya@example.com Tue Mar 12 2024\nFrom: x\n\nHi'))).toBe(true);
+    expect(looksLikeEmail(bytes('Note: call the vendor\nFrom: the office\n\nThanks'))).toBe(false);
+    expect(looksLikeEmail(bytes('name,amount\nrent,100'))).toBe(false);
+  });
+});
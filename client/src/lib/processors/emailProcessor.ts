@@ -0,0 +1,461 @@
+import { DocumentMetadata, ExtractedFile, ExtractionResult } from '@/types';
+import { throwIfAborted } from '../utils';
+
+// A message or MIME part. Header values and the body are kept as binary
+// strings (one character per byte) until their charset is known.
+interface MimePart {
+  headers: Record<string, string[]>;
+  body: string;
+}
+
+interface MessageContent {
+  plain: string[];
+  html: string[];
+  attachments: ExtractedFile[];
+}
+
+// Parse an RFC 822 message (.eml) or an mbox file. A message's headers and
+// decoded body become its text, From/To/Cc/Subject/Date and the threading
+// headers its metadata, and its attachments children to be processed on
+// their own. Each message in an mbox file becomes a child .eml document.
+export async function processEmail(
+  buffer: ArrayBuffer,
+  onProgress: (progress: number) => void,
+  signal?: AbortSignal
+): Promise<ExtractionResult> {
+  try {
+    onProgress(10);
+
+    const raw = toBinary(new Uint8Array(buffer));
+    const result = isMbox(raw)
+      ? processMbox(raw, onProgress, signal)
+      : processMessage(raw);
+
+    onProgress(100);
+
+    return result;
+  } catch (error) {
+    throwIfAborted(signal);
+    console.error('Failed to process email:', error);
+    throw new Error('Failed to process email file');
+  }
+}
+
+// Whether a file looks like an email message or mbox file: it starts with
+// an mbox "From " line, or with headers that include From and another
+// header every mail system adds
+export function looksLikeEmail(bytes: Uint8Array): boolean {
+  const head = toBinary(bytes.subarray(0, 8192));
+  if (/^From \S+/.test(head)) return true;
+
+  const end = head.search(/\r?\n\r?\n/);
+  if (end <= 0) return false;
+
+  const lines = head.slice(0, end).split(/\r?\n/);
+  const names: string[] = [];
+  for (const line of lines) {
+    if (/^[ \t]/.test(line)) continue;
+    const match = /^([!-9;-~]+):/.exec(line);
+    if (!match) return false;
+    names.push(match[1].toLowerCase());
+  }
+
+  return names.includes('from') &&
+    ['date', 'subject', 'message-id', 'received'].some(name => names.includes(name));
+}
+
+function processMessage(raw: string): ExtractionResult {
+  const message = parsePart(raw);
+  const content: MessageContent = { plain: [], html: [], attachments: [] };
+  collectContent(message, content);
+
+  const from = headerText(message, 'from');
+  const to = splitAddresses(headerText(message, 'to'));
+  const cc = splitAddresses(headerText(message, 'cc'));
+  const subject = headerText(message, 'subject');
+  const date = parseDate(headerText(message, 'date'));
+  const messageId = firstMessageId(headerText(message, 'message-id'));
+  const inReplyTo = firstMessageId(headerText(message, 'in-reply-to'));
+  const references = messageIds(headerText(message, 'references'));
+
+  const body = content.plain.length > 0
+    ? content.plain.join('\n\n')
+    : content.html.map(htmlToText).join('\n\n');
+
+  const headerLines = [
+    from && `From: ${from}`,
+    to.length > 0 && `To: ${to.join(', ')}`,
+    cc.length > 0 && `Cc: ${cc.join(', ')}`,
+    date && `Date: ${date}`,
+    subject && `Subject: ${subject}`,
+  ].filter(Boolean);
+
+  const attachmentNames = content.attachments.map(attachment => attachment.path);
+  const text = [
+    headerLines.join('\n'),
+    body.replace(/\r\n/g, '\n').trim(),
+    attachmentNames.length > 0 ? `Attachments: ${attachmentNames.join(', ')}` : '',
+  ].filter(Boolean).join('\n\n');
+
+  const metadata: DocumentMetadata = {
+    from: from || undefined,
+    to,
+    cc,
+    subject: subject || undefined,
+    date: date || undefined,
+    messageId,
+    inReplyTo,
+    references,
+    // The first message of the conversation, as far as this one knows
+    threadId: references[0] || inReplyTo || messageId,
+    attachmentCount: content.attachments.length,
+    wordCount: body.split(/\s+/).filter(word => word.length > 0).length,
+  };
+
+  return {
+    text,
+    metadata,
+    children: content.attachments,
+  };
+}
+
+// Each message of the mailbox becomes a child; the mailbox's own text lists
+// the messages
+function processMbox(
+  raw: string,
+  onProgress: (progress: number) => void,
+  signal?: AbortSignal
+): ExtractionResult {
+  const messages = splitMbox(raw);
+  const children: ExtractedFile[] = [];
+  const lines: string[] = [];
+
+  for (let i = 0; i < messages.length; i++) {
+    throwIfAborted(signal);
+
+    const message = parsePart(messages[i]);
+    const subject = headerText(message, 'subject');
+    const from = headerText(message, 'from');
+    const date = parseDate(headerText(message, 'date'));
+
+    const name = (subject || `Message ${i + 1}`).replace(/[\\/:*?"<>|]+/g, '-').slice(0, 100);
+    children.push({
+      path: `messages/${i + 1}/${name}.eml`,
+      data: fromBinary(messages[i]).buffer as ArrayBuffer,
+    });
+    lines.push([date, from, subject].filter(Boolean).join(' | '));
+
+    onProgress(10 + ((i + 1) / messages.length) * 90);
+  }
+
+  const text = lines.join('\n');
+  return {
+    text,
+    metadata: {
+      messageCount: messages.length,
+      wordCount: text.split(/\s+/).filter(word => word.length > 0).length,
+    },
+    children,
+  };
+}
+
+function isMbox(raw: string): boolean {
+  return /^From \S+/.test(raw);
+}
+
+// Split a mailbox at its "From " separator lines and undo the ">From "
+// quoting of body lines
+function splitMbox(raw: string): string[] {
+  return raw
+    .split(/\r?\n(?=From [^\r\n]*\r?\n)/)
+    .filter(message => /^From /.test(message))
+    .map(message => message
+      .replace(/^From [^\r\n]*\r?\n/, '')
+      .replace(/^>(>*From )/gm, '$1'));
+}
+
+function parsePart(raw: string): MimePart {
+  const separator = /\r?\n\r?\n/.exec(raw);
+  const startsWithBody = /^\r?\n/.test(raw);
+
+  const headerBlock = startsWithBody ? '' : separator ? raw.slice(0, separator.index) : raw;
+  const body = startsWithBody
+    ? raw.replace(/^\r?\n/, '')
+    : separator ? raw.slice(separator.index + separator[0].length) : '';
+
+  const headers: Record<string, string[]> = {};
+  const unfolded = headerBlock.replace(/\r?\n[ \t]+/g, ' ');
+  for (const line of unfolded.split(/\r?\n/)) {
+    const colon = line.indexOf(':');
+    if (colon <= 0) continue;
+    const name = line.slice(0, colon).trim().toLowerCase();
+    (headers[name] = headers[name] || []).push(line.slice(colon + 1).trim());
+  }
+
+  return { headers, body };
+}
+
+// Gather the readable text and the attachments of a message. Of the
+// alternatives of a multipart/alternative part, the plain text one is used.
+function collectContent(part: MimePart, content: MessageContent): void {
+  const contentType = parseHeaderParams(rawHeader(part, 'content-type') || 'text/plain');
+  const type = contentType.value;
+  const disposition = parseHeaderParams(rawHeader(part, 'content-disposition') || '');
+  const filename = disposition.params.filename || contentType.params.name;
+
+  if (type.startsWith('multipart/')) {
+    const parts = splitMultipart(part.body, contentType.params.boundary || '').map(parsePart);
+
+    if (type === 'multipart/alternative') {
+      const alternatives = parts.map(alternative => {
+        const collected: MessageContent = { plain: [], html: [], attachments: [] };
+        collectContent(alternative, collected);
+        return collected;
+      });
+      const plain = alternatives.find(a => a.plain.length > 0);
+      const html = alternatives.find(a => a.html.length > 0);
+      if (plain) content.plain.push(...plain.plain);
+      else if (html) content.html.push(...html.html);
+      for (const alternative of alternatives) {
+        content.attachments.push(...alternative.attachments);
+      }
+      return;
+    }
+
+    for (const child of parts) {
+      collectContent(child, content);
+    }
+    return;
+  }
+
+  const data = decodeTransferEncoding(part.body, rawHeader(part, 'content-transfer-encoding'));
+
+  // Attachments, and files without a disposition. Inline files such as
+  // images in a signature are left out.
+  if (disposition.value === 'attachment' || (filename && !disposition.value)) {
+    content.attachments.push({
+      path: uniquePath(filename || `attachment-${content.attachments.length + 1}`, content.attachments),
+      data: fromBinary(data).buffer as ArrayBuffer,
+    });
+    return;
+  }
+
+  if (type === 'message/rfc822') {
+    const subject = headerText(parsePart(data), 'subject') || 'Attached message';
+    content.attachments.push({
+      path: uniquePath(`${subject.replace(/[\\/:*?"<>|]+/g, '-')}.eml`, content.attachments),
+      data: fromBinary(data).buffer as ArrayBuffer,
+    });
+    return;
+  }
+
+  if (type === 'text/html') {
+    content.html.push(decodeCharset(fromBinary(data), contentType.params.charset));
+  } else if (type.startsWith('text/')) {
+    content.plain.push(decodeCharset(fromBinary(data), contentType.params.charset));
+  }
+}
+
+// Attachments may share a name; later ones get a number
+function uniquePath(name: string, attachments: ExtractedFile[]): string {
+  const taken = new Set(attachments.map(attachment => attachment.path));
+  if (!taken.has(name)) return name;
+
+  const dot = name.lastIndexOf('.');
+  const base = dot > 0 ? name.slice(0, dot) : name;
+  const extension = dot > 0 ? name.slice(dot) : '';
+  let n = 2;
+  while (taken.has(`${base} (${n})${extension}`)) n++;
+  return `${base} (${n})${extension}`;
+}
+
+function splitMultipart(body: string, boundary: string): string[] {
+  if (!boundary) return [body];
+
+  const escaped = boundary.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  const delimiter = new RegExp(`(^|\\r?\\n)--${escaped}(--)?[ \\t]*(?=\\r?\\n|$)`, 'g');
+  const parts: string[] = [];
+  let start = -1;
+  let match: RegExpExecArray | null;
+
+  while ((match = delimiter.exec(body)) !== null) {
+    if (start !== -1) parts.push(body.slice(start, match.index));
+    if (match[2]) {
+      start = -1;
+      break;
+    }
+    start = match.index + match[0].length;
+  }
+
+  // A message cut short has no closing delimiter
+  if (start !== -1) parts.push(body.slice(start));
+
+  return parts.map(part => part.replace(/^\r?\n/, ''));
+}
+
+function decodeTransferEncoding(body: string, encoding = ''): string {
+  switch (encoding.trim().toLowerCase()) {
+    case 'base64':
+      try {
+        return atob(body.replace(/[^A-Za-z0-9+/=]/g, '').replace(/=+$/, ''));
+      } catch {
+        return '';
+      }
+    case 'quoted-printable':
+      return decodeQuotedPrintable(body);
+    default:
+      return body;
+  }
+}
+
+function decodeQuotedPrintable(value: string): string {
+  return value
+    .replace(/[ \t]+(?=\r?\n)/g, '')
+    .replace(/=\r?\n/g, '')
+    .replace(/=([0-9A-Fa-f]{2})/g, (_, hex) => String.fromCharCode(parseInt(hex, 16)));
+}
+
+// Decode bytes in a declared charset; unknown charsets are read as UTF-8
+function decodeCharset(bytes: Uint8Array, charset = 'utf-8'): string {
+  try {
+    return new TextDecoder(charset.trim().toLowerCase()).decode(bytes);
+  } catch {
+    return new TextDecoder('utf-8').decode(bytes);
+  }
+}
+
+function rawHeader(part: MimePart, name: string): string | undefined {
+  return part.headers[name]?.[0];
+}
+
+// A header's value as text. Raw 8-bit values are taken to be UTF-8 (or
+// Windows-1252 if they are not valid UTF-8) and RFC 2047 encoded words
+// ("=?utf-8?B?...?=") are decoded.
+function headerText(part: MimePart, name: string): string {
+  const value = rawHeader(part, name);
+  if (!value) return '';
+
+  let text: string;
+  try {
+    text = new TextDecoder('utf-8', { fatal: true }).decode(fromBinary(value));
+  } catch {
+    text = new TextDecoder('windows-1252').decode(fromBinary(value));
+  }
+
+  return text
+    .replace(/(\?=)\s+(?==\?)/g, '$1')
+    .replace(/=\?([^?]+)\?([BbQq])\?([^?]*)\?=/g, (_, charset: string, encoding: string, encoded: string) => {
+      const binary = encoding.toUpperCase() === 'B'
+        ? decodeTransferEncoding(encoded, 'base64')
+        : decodeQuotedPrintable(encoded.replace(/_/g, ' '));
+      return decodeCharset(fromBinary(binary), charset.split('*')[0]);
+    })
+    .trim();
+}
+
+// Split a header such as Content-Type into its value and parameters,
+// including RFC 2231 continued and encoded parameters (filename*=utf-8''...)
+function parseHeaderParams(header: string): { value: string; params: Record<string, string> } {
+  const [value, ...rest] = header.split(/;(?=(?:[^"]*"[^"]*")*[^"]*$)/);
+  const params: Record<string, string> = {};
+  const continued: Record<string, string[]> = {};
+
+  for (const param of rest) {
+    const equals = param.indexOf('=');
+    if (equals === -1) continue;
+
+    let name = param.slice(0, equals).trim().toLowerCase();
+    let paramValue = param.slice(equals + 1).trim().replace(/^"([\s\S]*)"$/, '$1');
+
+    const extended = name.endsWith('*');
+    if (extended) {
+      name = name.slice(0, -1);
+      const parts = /^([^']*)'[^']*'([\s\S]*)$/.exec(paramValue);
+      const charset = parts ? parts[1] : 'utf-8';
+      const encoded = parts ? parts[2] : paramValue;
+      paramValue = decodeCharset(
+        fromBinary(encoded.replace(/%([0-9A-Fa-f]{2})/g, (_, hex) => String.fromCharCode(parseInt(hex, 16)))),
+        charset || 'utf-8'
+      );
+    }
+
+    const section = /^(.+)\*(\d+)$/.exec(name);
+    if (section) {
+      (continued[section[1]] = continued[section[1]] || [])[Number(section[2])] = paramValue;
+    } else {
+      params[name] = paramValue;
+    }
+  }
+
+  for (const name of Object.keys(continued)) {
+    params[name] = continued[name].join('');
+  }
+
+  // Parameter values such as file names may carry encoded words too
+  for (const name of Object.keys(params)) {
+    if (params[name].includes('=?')) {
+      params[name] = headerText({ headers: { value: [params[name]] }, body: '' }, 'value');
+    }
+  }
+
+  return { value: value.trim().toLowerCase(), params };
+}
+
+// Split an address list at commas outside quotes and angle brackets
+function splitAddresses(value: string): string[] {
+  return value
+    .split(/,(?=(?:[^"]*"[^"]*")*[^"]*$)(?![^<]*>)/)
+    .map(address => address.trim())
+    .filter(Boolean);
+}
+
+function messageIds(value: string): string[] {
+  return value.match(/<[^<>\s]+>/g) || [];
+}
+
+function firstMessageId(value: string): string | undefined {
+  return messageIds(value)[0] || value.trim() || undefined;
+}
+
+// Dates are kept as ISO 8601 strings
+function parseDate(value: string): string {
+  if (!value) return '';
+  const time = Date.parse(value.replace(/\s*\([^)]*\)\s*$/, ''));
+  return isNaN(time) ? value : new Date(time).toISOString();
+}
+
+// Readable text from an HTML body
+function htmlToText(html: string): string {
+  return html
+    .replace(/<(script|style|head)[\s\S]*?<\/\1>/gi, '')
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/<\/(p|div|li|tr|h[1-6]|blockquote)>/gi, '\n')
+    .replace(/<[^>]+>/g, '')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;|&apos;/g, "'")
+    .replace(/&#(\d+);/g, (_, code) => String.fromCharCode(Number(code)))
+    .replace(/&amp;/g, '&')
+    .replace(/[ \t]+\n/g, '\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+// Bytes to a string with one character per byte, and back
+function toBinary(bytes: Uint8Array): string {
+  const chunks: string[] = [];
+  for (let i = 0; i < bytes.length; i += 8192) {
+    chunks.push(String.fromCharCode.apply(null, Array.from(bytes.subarray(i, i + 8192))));
+  }
+  return chunks.join('');
+}
+
+function fromBinary(value: string): Uint8Array {
+  const bytes = new Uint8Array(value.length);
+  for (let i = 0; i < value.length; i++) {
+    bytes[i] = value.charCodeAt(i) & 0xff;
+  }
+  return bytes;
+}
@@ -0,0 +1,38 @@
+import { DocumentMetadata, ExtractionResult } from '@/types';
+import { layoutProcessor, OCR_LANGUAGES } from './layoutProcessor';
+import { throwIfAborted } from '../utils';
+
+export async function processImage(
+  buffer: ArrayBuffer,
+  onProgress: (progress: number) => void,
+  signal?: AbortSignal
+): Promise<ExtractionResult> {
+  try {
+    onProgress(10);
+
+    // Run OCR on the image
+    const { text, regions, confidence } = await layoutProcessor.recognize(new Blob([buffer]));
+    throwIfAborted(signal);
+
+    onProgress(90);
+
+    const metadata: DocumentMetadata = {
+      ocr: true,
+      ocrLanguages: OCR_LANGUAGES,
+      ocrConfidence: confidence,
+      wordCount: text.split(/\s+/).filter(word => word.length > 0).length,
+    };
+
+    onProgress(100);
+
+    return {
+      text,
+      metadata,
+      regions,
+    };
+  } catch (error) {
+    throwIfAborted(signal);
+    console.error('Failed to process image:', error);
+    throw new Error('Failed to process image file');
+  }
+}
@@ -1,48 +1,97 @@
+import { createWorker, ImageLike, Worker as OcrWorker } from 'tesseract.js';
+import { LayoutRegion } from '@/types';
+import { OCR_LANGUAGES } from '@shared/offlineAssets';
+import { absoluteAssetUrl } from '../offlineAssets';
 
-import { pipeline } from '@xenova/transformers';
-import sharp from 'sharp';
-import { DocumentChunk } from '@/types';
+export { OCR_LANGUAGES };
 
-// Initialize model at module level
-const modelPromise = pipeline('document-question-answering', 'microsoft/layoutlm-base-uncased');
-let modelInstance: any = null;
+// Initialize the OCR worker lazily, the WASM engine and language data are large
+let workerPromise: Promise<OcrWorker> | null = null;
+
+export interface LayoutResult {
+  text: string;
+  regions: LayoutRegion[];
+  confidence: number;
+}
 
 export class LayoutProcessor {
-  async initialize() {
-    if (!modelInstance) {
-      modelInstance = await modelPromise;
+  async initialize(): Promise<OcrWorker> {
+    if (!workerPromise) {
+      // The worker, engine and language data are served by our own server
+      workerPromise = createWorker(OCR_LANGUAGES, undefined, {
+        workerPath: absoluteAssetUrl('tesseract/worker.min.js'),
+        corePath: absoluteAssetUrl('tesseract'),
+        langPath: absoluteAssetUrl('tesseract/lang'),
+      }).catch((error) => {
+        workerPromise = null;
+        throw error;
+      });
     }
+    return workerPromise;
   }
 
-  async processDocument(imageBuffer: ArrayBuffer): Promise<DocumentChunk[]> {
-    await this.initialize();
-    
-    // Convert buffer to image
-    const image = sharp(Buffer.from(imageBuffer));
-    
-    // Get image metadata
-    const metadata = await image.metadata();
-    
-    // Process with LayoutLM
-    const result = await modelInstance({
-      image: imageBuffer,
-      question: 'What is the content of this document?'
-    });
-
-    // Create chunks with spatial information
-    return result.chunks.map((chunk: any) => ({
-      id: crypto.randomUUID(),
-      documentId: '', // Will be set by caller
-      text: chunk.text,
-      metadata: {
-        bbox: chunk.bbox,
-        confidence: chunk.score,
-        pageNum: chunk.page_num,
-        type: chunk.type,
-        startIndex: chunk.start_index,
-        endIndex: chunk.end_index
+  // Recognize text in an image. Text is returned line by line with a blank
+  // line between paragraphs; each line becomes a region whose offsets point
+  // into the returned text. When the image was rendered at a scale, bounding
+  // boxes are divided by it so they are in the source page's units.
+  async recognize(
+    image: ImageLike,
+    options: { pageNumber?: number; scale?: number } = {}
+  ): Promise<LayoutResult> {
+    const worker = await this.initialize();
+    const { data } = await worker.recognize(image);
+    const scale = options.scale || 1;
+
+    const regions: LayoutRegion[] = [];
+    const paragraphs: string[] = [];
+    let length = 0;
+
+    for (const paragraph of data.paragraphs) {
+      const lines: string[] = [];
+      if (paragraphs.length > 0) length += 2;
+
+      for (const line of paragraph.lines) {
+        const text = line.text.trim();
+        if (!text) continue;
+        if (lines.length > 0) length += 1;
+
+        regions.push({
+          text,
+          bbox: {
+            x0: line.bbox.x0 / scale,
+            y0: line.bbox.y0 / scale,
+            x1: line.bbox.x1 / scale,
+            y1: line.bbox.y1 / scale,
+          },
+          confidence: line.confidence / 100,
+          pageNumber: options.pageNumber,
+          startIndex: length,
+          endIndex: length + text.length,
+        });
+        lines.push(text);
+        length += text.length;
       }
-    }));
+
+      if (lines.length > 0) {
+        paragraphs.push(lines.join('\n'));
+      } else if (paragraphs.length > 0) {
+        length -= 2;
+      }
+    }
+
+    return {
+      text: paragraphs.join('\n\n'),
+      regions,
+      confidence: data.confidence / 100,
+    };
+  }
+
+  async terminate() {
+    if (workerPromise) {
+      const worker = await workerPromise;
+      workerPromise = null;
+      await worker.terminate();
+    }
   }
 }
 
@@ -1,18 +1,31 @@
-import { DocumentMetadata } from "@/types";
+import {
+  DocumentMetadata,
+  ExtractionResult,
+  LayoutRegion,
+  PageSpan,
+} from "@/types";
 import * as pdfjsLib from "pdfjs-dist";
 import { getDocument, GlobalWorkerOptions } from "pdfjs-dist";
+import type { PDFPageProxy } from "pdfjs-dist";
+import { layoutProcessor, OCR_LANGUAGES } from "./layoutProcessor";
+import { throwIfAborted } from "../utils";
+import { assetUrl } from "../offlineAssets";
+
+// Render scale for OCR; 2x the PDF's 72 dpi is enough for body text
+const OCR_RENDER_SCALE = 2;
 
 // Set worker source
 if (typeof window !== "undefined" && "Worker" in window) {
   const pdfjsVersion = pdfjsLib.version;
   console.log(`Using pdf.js version ${pdfjsVersion}`);
-  GlobalWorkerOptions.workerSrc = `https://cdnjs.cloudflare.com/ajax/libs/pdf.js/${pdfjsVersion}/pdf.worker.min.mjs`;
+  GlobalWorkerOptions.workerSrc = assetUrl("pdfjs/pdf.worker.min.mjs");
 }
 
 export async function processPdf(
   buffer: ArrayBuffer,
   onProgress: (progress: number) => void,
-): Promise<{ text: string; metadata: DocumentMetadata }> {
+  signal?: AbortSignal,
+): Promise<ExtractionResult> {
   const data = new Uint8Array(buffer);
 
   try {
@@ -49,18 +62,43 @@ export async function processPdf(
 
     onProgress(30);
 
-    // Extract text from each page
+    // Extract text from each page, remembering where each page starts and
+    // ends in the full text. Pages without a text layer are scanned, so they
+    // are rendered and run through OCR instead.
     let fullText = "";
     let extractedPages = 0;
+    const pages: PageSpan[] = [];
+    const regions: LayoutRegion[] = [];
+    const ocrPages: number[] = [];
 
     for (let i = 1; i <= pdf.numPages; i++) {
+      throwIfAborted(signal);
+
       try {
         const page = await pdf.getPage(i);
         const content = await page.getTextContent();
 
         // Concatenate text items
-        const pageText = content.items.map((item: any) => item.str).join(" ");
+        let pageText = content.items.map((item: any) => item.str).join(" ");
+
+        if (!pageText.trim()) {
+          const ocr = await recognizePage(page, i);
+          pageText = ocr.text;
+          regions.push(
+            ...ocr.regions.map((region) => ({
+              ...region,
+              startIndex: fullText.length + region.startIndex,
+              endIndex: fullText.length + region.endIndex,
+            })),
+          );
+          ocrPages.push(i);
+        }
 
+        pages.push({
+          pageNumber: i,
+          startIndex: fullText.length,
+          endIndex: fullText.length + pageText.length,
+        });
         fullText += pageText + "\n\n";
 
         // Update progress
@@ -77,18 +115,46 @@ export async function processPdf(
       .filter((word) => word.length > 0).length;
     metadata.wordCount = wordCount;
 
+    if (ocrPages.length > 0) {
+      metadata.ocrPages = ocrPages;
+      metadata.ocrLanguages = OCR_LANGUAGES;
+    }
+
     onProgress(100);
 
     return {
       text: fullText,
       metadata,
+      pages,
+      regions,
     };
   } catch (error) {
+    throwIfAborted(signal);
     console.error("Failed to process PDF:", error);
     throw new Error("Failed to process PDF file");
   }
 }
 
+// Render a page to a canvas and OCR it
+async function recognizePage(page: PDFPageProxy, pageNumber: number) {
+  const viewport = page.getViewport({ scale: OCR_RENDER_SCALE });
+  const canvas = document.createElement("canvas");
+  canvas.width = Math.ceil(viewport.width);
+  canvas.height = Math.ceil(viewport.height);
+
+  const canvasContext = canvas.getContext("2d");
+  if (!canvasContext) {
+    throw new Error("Canvas rendering is not available");
+  }
+
+  await page.render({ canvasContext, viewport }).promise;
+
+  return layoutProcessor.recognize(canvas, {
+    pageNumber,
+    scale: OCR_RENDER_SCALE,
+  });
+}
+
 // Parse PDF date format (e.g., "D:20201231235959+00'00'")
 function parseDate(dateString: string): Date | undefined {
   try {
@@ -0,0 +1,79 @@
+import { describe, it, expect } from 'vitest';
+import JSZip from 'jszip';
+import { processPptx } from './pptxProcessor';
+import { splitIntoChunks } from '../chunking';
+
+const NS = [
+  'xmlns:a="http://schemas.openxmlformats.org/drawingml/2006/main"',
+  'xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships"',
+  'xmlns:p="http://schemas.openxmlformats.org/presentationml/2006/main"',
+].join(' ');
+
+const shape = (text: string, placeholder?: string) => `
+  <p:sp>
+    <p:nvSpPr><p:nvPr>${placeholder ? `<p:ph type="${placeholder}"/>` : ''}</p:nvPr></p:nvSpPr>
+    <p:txBody><a:p><a:r><a:t>${text}</a:t></a:r></a:p></p:txBody>
+  </p:sp>`;
+
+const slide = (...shapes: string[]) =>
+  `<p:sld ${NS}><p:cSld><p:spTree>${shapes.join('')}</p:spTree></p:cSld></p:sld>`;
+
+const rels = (...targets: Array<[string, string, string]>) =>
+  `<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">${targets
+    .map(([id, type, target]) => `<Relationship Id="${id}" Type="http://x/${type}" Target="${target}"/>`)
+    .join('')}</Relationships>`;
+
+async function buildDeck(): Promise<ArrayBuffer> {
+  const zip = new JSZip();
+
+  // Slide files are deliberately listed out of numeric order
+  zip.file(
+    'ppt/presentation.xml',
+    `<p:presentation ${NS}><p:sldIdLst><p:sldId id="256" r:id="rId2"/><p:sldId id="257" r:id="rId1"/></p:sldIdLst></p:presentation>`
+  );
+  zip.file(
+    'ppt/_rels/presentation.xml.rels',
+    rels(['rId1', 'slide', 'slides/slide1.xml'], ['rId2', 'slide', 'slides/slide2.xml'])
+  );
+  zip.file('ppt/slides/slide2.xml', slide(shape('Quarterly Budget', 'title'), shape('Revenue up 12%')));
+  zip.file('ppt/slides/slide1.xml', slide(shape('Next Steps', 'title'), shape('Hire two engineers')));
+  zip.file('ppt/slides/_rels/slide1.xml.rels', rels(['rId1', 'notesSlide', '../notesSlides/notesSlide1.xml']));
+  zip.file(
+    'ppt/notesSlides/notesSlide1.xml',
+    `<p:notes ${NS}><p:cSld><p:spTree>${shape('1', 'sldNum')}${shape('Mention the hiring freeze', 'body')}</p:spTree></p:cSld></p:notes>`
+  );
+  zip.file(
+    'docProps/core.xml',
+    '<cp:coreProperties xmlns:cp="http://schemas.openxmlformats.org/package/2006/metadata/core-properties" xmlns:dc="http://purl.org/dc/elements/1.1/"><dc:creator>Finance Team</dc:creator></cp:coreProperties>'
+  );
+
+  return zip.generateAsync({ type: 'arraybuffer' });
+}
+
+describe('processPptx', () => {
+  it('extracts slide titles, body text and speaker notes in presentation order', async () => {
+    const { text, metadata, slides } = await processPptx(await buildDeck(), () => {});
+
+    expect(text).toBe(
+      'Slide 1: Quarterly Budget\n\nRevenue up 12%\n\n' +
+        'Slide 2: Next Steps\n\nHire two engineers\n\nNotes: Mention the hiring freeze'
+    );
+    expect(metadata.author).toBe('Finance Team');
+    expect(metadata.slideCount).toBe(2);
+    expect(metadata.slides).toEqual([
+      { slideNumber: 1, title: 'Quarterly Budget' },
+      { slideNumber: 2, title: 'Next Steps' },
+    ]);
+    expect(slides?.map((s) => s.hasNotes)).toEqual([false, true]);
+  });
+
+  it('produces one chunk per slide carrying its number and title', async () => {
+    const { text, slides } = await processPptx(await buildDeck(), () => {});
+    const chunks = splitIntoChunks(text, { documentId: 'doc-1', documentType: 'pptx', slides });
+
+    expect(chunks.map((c) => [c.metadata.slideNumber, c.metadata.slideTitle])).toEqual([
+      [1, 'Quarterly Budget'],
+      [2, 'Next Steps'],
+    ]);
+  });
+});
@@ -0,0 +1,219 @@
+import { DocumentMetadata, ExtractionResult, SlideSpan } from '@/types';
+import JSZip from 'jszip';
+import { throwIfAborted } from '../utils';
+
+const TITLE_PLACEHOLDERS = ['title', 'ctrTitle'];
+
+export async function processPptx(
+  buffer: ArrayBuffer,
+  onProgress: (progress: number) => void,
+  signal?: AbortSignal
+): Promise<ExtractionResult> {
+  try {
+    onProgress(10);
+
+    const zip = await JSZip.loadAsync(buffer);
+    const slidePaths = await getSlidePaths(zip);
+
+    onProgress(20);
+
+    // Extract title, body and speaker notes from each slide
+    const blocks: string[] = [];
+    const slides: SlideSpan[] = [];
+    let length = 0;
+
+    for (let i = 0; i < slidePaths.length; i++) {
+      throwIfAborted(signal);
+
+      try {
+        const slideXml = await readXml(zip, slidePaths[i]);
+        if (!slideXml) continue;
+
+        const { title, body } = extractSlideText(slideXml);
+        const notes = await extractNotes(zip, slidePaths[i]);
+
+        const slideNumber = i + 1;
+        const parts = [
+          title ? `Slide ${slideNumber}: ${title}` : `Slide ${slideNumber}`,
+          ...body,
+          ...(notes ? [`Notes: ${notes}`] : []),
+        ];
+        const block = parts.join('\n\n');
+
+        if (blocks.length > 0) length += 2;
+        slides.push({
+          slideNumber,
+          title,
+          startIndex: length,
+          endIndex: length + block.length,
+          hasNotes: Boolean(notes),
+        });
+        blocks.push(block);
+        length += block.length;
+      } catch (error) {
+        console.warn(`Failed to extract text from slide ${i + 1}:`, error);
+      }
+
+      onProgress(20 + ((i + 1) / slidePaths.length) * 70);
+    }
+
+    const text = blocks.join('\n\n');
+
+    const metadata: DocumentMetadata = {
+      ...(await extractCoreProperties(zip)),
+      slideCount: slidePaths.length,
+      slides: slides.map(({ slideNumber, title }) => ({ slideNumber, title })),
+      wordCount: text.split(/\s+/).filter(word => word.length > 0).length,
+    };
+
+    onProgress(100);
+
+    return {
+      text,
+      metadata,
+      slides,
+    };
+  } catch (error) {
+    throwIfAborted(signal);
+    console.error('Failed to process PPTX:', error);
+    throw new Error('Failed to process PPTX file');
+  }
+}
+
+// Slide part paths in presentation order, following the relationship ids
+// listed in presentation.xml
+async function getSlidePaths(zip: JSZip): Promise<string[]> {
+  const presentation = await zip.file('ppt/presentation.xml')?.async('string');
+  const rels = await readXml(zip, 'ppt/_rels/presentation.xml.rels');
+
+  if (presentation && rels) {
+    const targets = new Map<string, string>();
+    for (const rel of findElements(rels, 'Relationship')) {
+      targets.set(rel.getAttribute('Id') || '', rel.getAttribute('Target') || '');
+    }
+
+    // <p:sldId id="256" r:id="rId2"/> entries are read straight from the
+    // markup since not every DOM implementation keeps prefixed attributes
+    const ordered = Array.from(presentation.matchAll(/<(?:\w+:)?sldId\b[^>]*?\s\w+:id="([^"]+)"/g))
+      .map(match => targets.get(match[1]))
+      .filter((target): target is string => Boolean(target))
+      .map(target => resolvePath('ppt/presentation.xml', target));
+
+    if (ordered.length > 0) return ordered;
+  }
+
+  // Fall back to the numeric order of the slide file names
+  return Object.keys(zip.files)
+    .filter(path => /^ppt\/slides\/slide\d+\.xml$/.test(path))
+    .sort((a, b) => slideIndex(a) - slideIndex(b));
+}
+
+// Title placeholder text and the remaining paragraphs of a slide
+function extractSlideText(slide: Document): { title: string; body: string[] } {
+  let title = '';
+  const body: string[] = [];
+
+  for (const shape of findElements(slide, 'sp')) {
+    const placeholder = findElements(shape, 'ph')[0];
+    const paragraphs = getParagraphs(shape);
+
+    if (!title && placeholder && TITLE_PLACEHOLDERS.includes(placeholder.getAttribute('type') || '')) {
+      title = paragraphs.join(' ');
+    } else {
+      body.push(...paragraphs);
+    }
+  }
+
+  // Tables live in graphic frames rather than shapes
+  for (const row of findElements(slide, 'tr')) {
+    const cells = findElements(row, 'tc')
+      .map(cell => getParagraphs(cell).join(' '));
+    if (cells.some(cell => cell)) body.push(cells.join(' | '));
+  }
+
+  return { title, body };
+}
+
+// Speaker notes from the notes slide linked to a slide, if there is one
+async function extractNotes(zip: JSZip, slidePath: string): Promise<string> {
+  const relsPath = slidePath.replace(/slides\/(slide\d+\.xml)$/, 'slides/_rels/$1.rels');
+  const rels = await readXml(zip, relsPath);
+  if (!rels) return '';
+
+  const notesRel = findElements(rels, 'Relationship')
+    .find(rel => (rel.getAttribute('Type') || '').endsWith('/notesSlide'));
+  if (!notesRel) return '';
+
+  const notes = await readXml(zip, resolvePath(slidePath, notesRel.getAttribute('Target') || ''));
+  if (!notes) return '';
+
+  // Only the body placeholder holds the notes; the rest is the slide image
+  // and the slide number
+  return findElements(notes, 'sp')
+    .filter(shape => findElements(shape, 'ph')[0]?.getAttribute('type') === 'body')
+    .flatMap(getParagraphs)
+    .join(' ');
+}
+
+async function extractCoreProperties(zip: JSZip): Promise<DocumentMetadata> {
+  const metadata: DocumentMetadata = {};
+
+  try {
+    const core = await readXml(zip, 'docProps/core.xml');
+    if (!core) return metadata;
+
+    const value = (name: string) =>
+      findElements(core, name)[0]?.textContent?.trim() || '';
+
+    if (value('creator')) metadata.author = value('creator');
+    if (value('title')) metadata.title = value('title');
+    if (value('created')) metadata.createdAt = new Date(value('created'));
+    if (value('modified')) metadata.modifiedAt = new Date(value('modified'));
+  } catch (error) {
+    console.warn('Failed to extract PPTX metadata:', error);
+  }
+
+  return metadata;
+}
+
+// Non-empty text paragraphs (<a:p>) under an element
+function getParagraphs(element: Element): string[] {
+  return findElements(element, 'p')
+    .map(p =>
+      findElements(p, 't')
+        .map(t => t.textContent || '')
+        .join('')
+        .replace(/\s+/g, ' ')
+        .trim()
+    )
+    .filter(text => text.length > 0);
+}
+
+async function readXml(zip: JSZip, path: string): Promise<Document | null> {
+  const file = zip.file(path);
+  if (!file) return null;
+  return new DOMParser().parseFromString(await file.async('string'), 'application/xml');
+}
+
+// Descendants with the given local name, whatever their namespace prefix
+function findElements(root: Document | Element, localName: string): Element[] {
+  return Array.from(root.getElementsByTagName('*')).filter(
+    element => element.localName === localName
+  );
+}
+
+// Resolve a relationship target relative to the part that references it
+function resolvePath(fromPath: string, target: string): string {
+  if (target.startsWith('/')) return target.slice(1);
+
+  const parts = fromPath.split('/').slice(0, -1);
+  for (const segment of target.split('/')) {
+    if (segment === '..') parts.pop();
+    else if (segment !== '.') parts.push(segment);
+  }
+  return parts.join('/');
+}
+
+function slideIndex(path: string): number {
+  return parseInt(path.match(/slide(\d+)\.xml$/)?.[1] || '0');
+}
@@ -0,0 +1,91 @@
+import { describe, it, expect } from 'vitest';
+import JSZip from 'jszip';
+import { registerProcessor, resolveProcessor } from './registry';
+
+const bytes = (...values: number[]) => new Uint8Array(values).buffer;
+const text = (value: string) => new TextEncoder().encode(value).buffer as ArrayBuffer;
+
+async function officeFile(entry: string): Promise<ArrayBuffer> {
+  const zip = new JSZip();
+  zip.file('[Content_Types].xml', '<Types/>');
+  zip.file(entry, '<root/>');
+  return zip.generateAsync({ type: 'arraybuffer' });
+}
+
+describe('resolveProcessor', () => {
+  it('routes by magic bytes when the extension is wrong or missing', () => {
+    const pdf = text('%PDF-1.7\n%âã\n1 0 obj');
+
+    expect(resolveProcessor(pdf, 'scan.bin')).toMatchObject({
+      processor: { id: 'pdf' },
+      fileType: 'pdf',
+    });
+    expect(resolveProcessor(bytes(0xff, 0xd8, 0xff, 0xe0, 0, 0x10), 'IMG_0042')).toMatchObject({
+      processor: { id: 'image' },
+      fileType: 'jpg',
+    });
+  });
+
+  it('tells Office Open XML formats apart by their ZIP entries', async () => {
+    expect(resolveProcessor(await officeFile('word/document.xml'), 'report.zip')?.processor.id).toBe('docx');
+    expect(resolveProcessor(await officeFile('xl/workbook.xml'), 'budget.docx')?.processor.id).toBe('xlsx');
+    expect(resolveProcessor(await officeFile('ppt/presentation.xml'), 'deck')?.fileType).toBe('pptx');
+  });
+
+  it('treats other ZIP files as archives', async () => {
+    const zip = new JSZip();
+    zip.file('tender/notice.txt', 'Bids close on 12 March');
+    const archive = await zip.generateAsync({ type: 'arraybuffer' });
+
+    expect(resolveProcessor(archive, 'bundle.zip')?.processor.id).toBe('zip');
+    expect(resolveProcessor(archive, 'bundle')?.fileType).toBe('zip');
+  });
+
+  it('recognizes email messages by their headers', () => {
+    const message = text('From: priya@example.com\nSubject: Tender\nDate: Tue, 12 Mar 2024 10:15:00 +0530\n\nHello');
+
+    expect(resolveProcessor(message, 'message.eml')?.processor.id).toBe('email');
+    expect(resolveProcessor(message, 'message')?.fileType).toBe('eml');
+    expect(resolveProcessor(text('Note: call the vendor'), 'mail.txt')?.processor.id).toBe('text');
+  });
+
+  it('keeps the extension as the document type when the content agrees', () => {
+    expect(resolveProcessor(text('# Notes\n\nHello'), 'notes.md')?.fileType).toBe('md');
+    expect(resolveProcessor(text('name,amount\nrent,100'), 'export.dat')?.fileType).toBe('txt');
+  });
+
+  it('recognizes UTF-16 text without a byte order mark', () => {
+    const csv = 'name,amount\r\nrent,100\r\nजल कर,250\r\n';
+    const utf16le = new Uint8Array(csv.length * 2);
+    for (let i = 0; i < csv.length; i++) {
+      utf16le[i * 2] = csv.charCodeAt(i) & 0xff;
+      utf16le[i * 2 + 1] = csv.charCodeAt(i) >> 8;
+    }
+
+    expect(resolveProcessor(utf16le.buffer, 'export.csv')).toMatchObject({
+      processor: { id: 'text' },
+      fileType: 'csv',
+    });
+    expect(resolveProcessor(utf16le.buffer, 'export')?.processor.id).toBe('text');
+  });
+
+  it('rejects binary files no processor recognizes', () => {
+    expect(resolveProcessor(bytes(0x7f, 0x45, 0x4c, 0x46, 0x02, 0x01, 0x01, 0x00), 'a.out')).toBeNull();
+    expect(resolveProcessor(bytes(0x00, 0x01, 0x02, 0x03), 'notes.txt')).toBeNull();
+  });
+
+  it('lets processors registered at runtime take over', () => {
+    registerProcessor({
+      id: 'rtf',
+      extensions: ['rtf'],
+      mimeTypes: ['application/rtf'],
+      signatures: [{ bytes: [0x7b, 0x5c, 0x72, 0x74, 0x66] }], // {\rtf
+      process: async () => ({ text: '', metadata: {} }),
+    });
+
+    expect(resolveProcessor(text('{\\rtf1\\ansi Hello}'), 'letter.txt')).toMatchObject({
+      processor: { id: 'rtf' },
+      fileType: 'rtf',
+    });
+  });
+});
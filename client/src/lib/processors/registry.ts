@@ -0,0 +1,285 @@
+import { ExtractionResult } from '@/types';
+import { getFileExtension } from '../utils';
+import { decodeText, detectUtf16 } from '../encoding';
+import { processDocx } from './docxProcessor';
+import { processPdf } from './pdfProcessor';
+import { processXlsx } from './xlsxProcessor';
+import { processPptx } from './pptxProcessor';
+import { processImage } from './imageProcessor';
+import { processText } from './textProcessor';
+import { processZip } from './archiveProcessor';
+import { looksLikeEmail, processEmail } from './emailProcessor';
+
+// Bytes a file of some format starts with (at an optional offset). When
+// several formats share a container, `contains` names a byte string that
+// must also appear somewhere in the file, e.g. a ZIP entry name.
+export interface MagicSignature {
+  bytes: number[];
+  offset?: number;
+  contains?: string;
+  // Document type implied by the match, if it differs from the first extension
+  type?: string;
+}
+
+// Per-file settings a user can override when processing
+export interface ProcessorOptions {
+  encoding?: string;
+}
+
+export interface FileProcessor {
+  id: string;
+  // File types handled, the first being the default document type
+  extensions: string[];
+  mimeTypes: string[];
+  signatures?: MagicSignature[];
+  // Content check for formats without a fixed signature
+  detect?: (bytes: Uint8Array) => boolean;
+  // Whether the processor decodes text itself and honours an encoding override
+  supportsEncoding?: boolean;
+  process: (
+    buffer: ArrayBuffer,
+    onProgress: (progress: number) => void,
+    signal?: AbortSignal,
+    options?: ProcessorOptions
+  ) => Promise<ExtractionResult>;
+}
+
+export interface ProcessorMatch {
+  processor: FileProcessor;
+  // Document type to record, taken from the extension when it agrees with the content
+  fileType: string;
+}
+
+const processors: FileProcessor[] = [];
+
+// Register a processor, replacing any with the same id. Later registrations
+// take precedence when several processors claim the same file.
+export function registerProcessor(processor: FileProcessor): void {
+  const index = processors.findIndex(p => p.id === processor.id);
+  if (index !== -1) processors.splice(index, 1);
+  processors.push(processor);
+}
+
+export function getProcessor(id: string): FileProcessor {
+  const processor = processors.find(p => p.id === id);
+  if (!processor) {
+    throw new Error(`Unknown processor: ${id}`);
+  }
+  return processor;
+}
+
+export function listProcessors(): FileProcessor[] {
+  return processors.slice();
+}
+
+// Pick the processor for a file. The content decides first: a processor
+// that declares signatures or a detect check is only used when the bytes
+// match, whatever the extension says. Formats without either are picked by
+// extension, then MIME type. Returns null for unsupported files.
+export function resolveProcessor(
+  buffer: ArrayBuffer,
+  fileName: string,
+  mimeType = ''
+): ProcessorMatch | null {
+  const bytes = new Uint8Array(buffer);
+  const extension = getFileExtension(fileName);
+  const candidates = processors.slice().reverse();
+
+  // Content matches, most specific signature first
+  const contentMatches: Array<{ processor: FileProcessor; type: string; score: number }> = [];
+  for (const processor of candidates) {
+    const signature = (processor.signatures || [])
+      .filter(sig => matchesSignature(bytes, sig))
+      .sort((a, b) => signatureScore(b) - signatureScore(a))[0];
+
+    if (signature) {
+      contentMatches.push({
+        processor,
+        type: signature.type || processor.extensions[0],
+        score: signatureScore(signature),
+      });
+    } else if (!processor.signatures?.length && processor.detect?.(bytes)) {
+      contentMatches.push({ processor, type: processor.extensions[0], score: 0 });
+    }
+  }
+
+  // A signature is stronger evidence than a detect check, and the most
+  // specific signature wins, e.g. a DOCX's ZIP entries over any ZIP
+  const signed = contentMatches.filter(m => m.score > 0);
+  const topScore = Math.max(0, ...signed.map(m => m.score));
+  const pool = signed.length > 0
+    ? signed.filter(m => m.score === topScore)
+    : contentMatches;
+
+  if (pool.length > 0) {
+    // Prefer the processor the extension points at, if the content agrees
+    const byExtension = pool.find(m => m.processor.extensions.includes(extension));
+    if (byExtension) {
+      return { processor: byExtension.processor, fileType: extension };
+    }
+
+    const best = pool.slice().sort((a, b) => b.score - a.score)[0];
+    return { processor: best.processor, fileType: best.type };
+  }
+
+  // Formats that can only be told apart by name
+  const unverifiable = candidates.filter(p => !p.signatures?.length && !p.detect);
+
+  const byExtension = unverifiable.find(p => p.extensions.includes(extension));
+  if (byExtension) {
+    return { processor: byExtension, fileType: extension };
+  }
+
+  const byMimeType = mimeType && unverifiable.find(p => p.mimeTypes.includes(mimeType));
+  if (byMimeType) {
+    return { processor: byMimeType, fileType: byMimeType.extensions[0] };
+  }
+
+  return null;
+}
+
+function matchesSignature(bytes: Uint8Array, signature: MagicSignature): boolean {
+  const offset = signature.offset || 0;
+  if (bytes.length < offset + signature.bytes.length) return false;
+
+  for (let i = 0; i < signature.bytes.length; i++) {
+    if (bytes[offset + i] !== signature.bytes[i]) return false;
+  }
+
+  return !signature.contains || includesString(bytes, signature.contains);
+}
+
+function signatureScore(signature: MagicSignature): number {
+  return signature.bytes.length + (signature.contains ? 1000 : 0);
+}
+
+// Whether the bytes contain a string, compared character code by byte
+function includesString(bytes: Uint8Array, value: string): boolean {
+  const first = value.charCodeAt(0);
+  const last = bytes.length - value.length;
+
+  for (let i = 0; i <= last; i++) {
+    if (bytes[i] !== first) continue;
+
+    let j = 1;
+    while (j < value.length && bytes[i + j] === value.charCodeAt(j)) j++;
+    if (j === value.length) return true;
+  }
+
+  return false;
+}
+
+// Plain text has no NUL bytes and few control characters. UTF-16 text is
+// full of NULs, so a byte order mark is taken at its word, and without one
+// the characters are checked once decoded.
+export function looksLikeText(bytes: Uint8Array): boolean {
+  if (bytes.length === 0) return true;
+  if ((bytes[0] === 0xff && bytes[1] === 0xfe) || (bytes[0] === 0xfe && bytes[1] === 0xff)) {
+    return true;
+  }
+
+  const sample = bytes.subarray(0, 8192);
+  const utf16 = detectUtf16(sample);
+  if (utf16) {
+    const text = decodeText(sample, utf16.encoding);
+    return isMostlyText(Array.from(text, character => character.charCodeAt(0)));
+  }
+  return isMostlyText(sample);
+}
+
+function isMostlyText(codes: ArrayLike<number>): boolean {
+  let control = 0;
+
+  for (let i = 0; i < codes.length; i++) {
+    const code = codes[i];
+    if (code === 0) return false;
+    // Tab, line feed, form feed, carriage return and escape are common in text
+    if (code < 0x20 && code !== 0x09 && code !== 0x0a && code !== 0x0c && code !== 0x0d && code !== 0x1b) {
+      control++;
+    }
+  }
+
+  return control / codes.length < 0.05;
+}
+
+// OLE2 compound files (legacy Office) and ZIP archives (Office Open XML)
+const OLE_SIGNATURE = [0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1];
+const ZIP_SIGNATURE = [0x50, 0x4b, 0x03, 0x04];
+
+// Stream names inside OLE2 files are stored as UTF-16LE
+const utf16 = (value: string) => value.split('').join('\u0000');
+
+// Built-in processors
+registerProcessor({
+  id: 'text',
+  extensions: ['txt', 'md', 'csv'],
+  mimeTypes: ['text/plain', 'text/markdown', 'text/csv'],
+  detect: looksLikeText,
+  supportsEncoding: true,
+  process: processText,
+});
+
+registerProcessor({
+  id: 'email',
+  extensions: ['eml', 'mbox'],
+  mimeTypes: ['message/rfc822', 'application/mbox'],
+  detect: looksLikeEmail,
+  process: processEmail,
+});
+
+registerProcessor({
+  id: 'pdf',
+  extensions: ['pdf'],
+  mimeTypes: ['application/pdf'],
+  signatures: [{ bytes: [0x25, 0x50, 0x44, 0x46, 0x2d] }], // %PDF-
+  process: processPdf,
+});
+
+registerProcessor({
+  id: 'docx',
+  extensions: ['docx'],
+  mimeTypes: ['application/vnd.openxmlformats-officedocument.wordprocessingml.document'],
+  signatures: [{ bytes: ZIP_SIGNATURE, contains: 'word/document.xml' }],
+  process: processDocx,
+});
+
+registerProcessor({
+  id: 'xlsx',
+  extensions: ['xlsx', 'xls'],
+  mimeTypes: [
+    'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+    'application/vnd.ms-excel',
+  ],
+  signatures: [
+    { bytes: ZIP_SIGNATURE, contains: 'xl/workbook.xml' },
+    { bytes: OLE_SIGNATURE, contains: utf16('Workbook'), type: 'xls' },
+  ],
+  process: processXlsx,
+});
+
+registerProcessor({
+  id: 'pptx',
+  extensions: ['pptx'],
+  mimeTypes: ['application/vnd.openxmlformats-officedocument.presentationml.presentation'],
+  signatures: [{ bytes: ZIP_SIGNATURE, contains: 'ppt/presentation.xml' }],
+  process: processPptx,
+});
+
+registerProcessor({
+  id: 'zip',
+  extensions: ['zip'],
+  mimeTypes: ['application/zip', 'application/x-zip-compressed'],
+  signatures: [{ bytes: ZIP_SIGNATURE }],
+  process: processZip,
+});
+
+registerProcessor({
+  id: 'image',
+  extensions: ['png', 'jpg', 'jpeg'],
+  mimeTypes: ['image/png', 'image/jpeg'],
+  signatures: [
+    { bytes: [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a] },
+    { bytes: [0xff, 0xd8, 0xff], type: 'jpg' },
+  ],
+  process: processImage,
+});
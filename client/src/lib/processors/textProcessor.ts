@@ -1,14 +1,23 @@
 import { DocumentMetadata } from '@/types';
+import { throwIfAborted } from '../utils';
+import { decodeText, detectEncoding, EncodingDetection } from '../encoding';
 
 export async function processText(
   buffer: ArrayBuffer,
-  onProgress: (progress: number) => void
+  onProgress: (progress: number) => void,
+  signal?: AbortSignal,
+  options: { encoding?: string } = {}
 ): Promise<{ text: string; metadata: DocumentMetadata }> {
   try {
     onProgress(20);
     
-    // Convert buffer to text
-    const text = await arrayBufferToString(buffer);
+    // Decode with the requested encoding, or the one detected from the bytes
+    const bytes = new Uint8Array(buffer);
+    const detection: EncodingDetection = options.encoding
+      ? { encoding: options.encoding, confidence: 1, source: 'override' }
+      : detectEncoding(bytes);
+    const text = decodeText(bytes, detection.encoding);
+    throwIfAborted(signal);
     
     onProgress(70);
     
@@ -20,6 +29,9 @@ export async function processText(
       lineCount: lines.length,
       wordCount: wordCount,
       charCount: text.length,
+      encoding: detection.encoding,
+      encodingConfidence: detection.confidence,
+      encodingSource: detection.source,
     };
     
     onProgress(100);
@@ -29,29 +41,8 @@ export async function processText(
       metadata,
     };
   } catch (error) {
+    throwIfAborted(signal);
     console.error('Failed to process text file:', error);
     throw new Error('Failed to process text file');
   }
 }
-
-// Helper to convert ArrayBuffer to string
-async function arrayBufferToString(buffer: ArrayBuffer): Promise<string> {
-  return new Promise((resolve, reject) => {
-    const blob = new Blob([buffer]);
-    const reader = new FileReader();
-    
-    reader.onload = (event) => {
-      if (event.target?.result) {
-        resolve(event.target.result as string);
-      } else {
-        reject(new Error('Failed to convert ArrayBuffer to string'));
-      }
-    };
-    
-    reader.onerror = () => {
-      reject(new Error('Failed to read ArrayBuffer'));
-    };
-    
-    reader.readAsText(blob);
-  });
-}
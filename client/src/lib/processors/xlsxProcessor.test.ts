@@ -0,0 +1,65 @@
+import { describe, it, expect } from 'vitest';
+import * as XLSX from 'xlsx';
+import { processXlsx } from './xlsxProcessor';
+import { splitIntoChunks } from '../chunking';
+
+function buildWorkbook(): ArrayBuffer {
+  const workbook = XLSX.utils.book_new();
+
+  // A title row and a blank row above the header, and a column without a header
+  const q4 = XLSX.utils.aoa_to_sheet([
+    ['Quarterly revenue'],
+    [],
+    ['Region', 'Revenue', ''],
+    ['North', '12L', 'audited'],
+    ['South', '', ''],
+    [],
+    ['East', '9L', ''],
+  ]);
+  XLSX.utils.book_append_sheet(workbook, q4, 'Q4');
+
+  const notes = XLSX.utils.aoa_to_sheet([['Owner', 'Status'], ['Priya', 'Open']]);
+  XLSX.utils.book_append_sheet(workbook, notes, 'Notes');
+
+  return XLSX.write(workbook, { type: 'array', bookType: 'xlsx' });
+}
+
+describe('processXlsx', () => {
+  it('turns rows into header-labelled records with their sheet row numbers', async () => {
+    const { text, metadata, rows } = await processXlsx(buildWorkbook(), () => {});
+
+    expect(text).toContain('Sheet: Q4');
+    expect(rows.map((r) => [r.sheet, r.rowNumber, text.slice(r.startIndex, r.endIndex)])).toEqual([
+      ['Q4', 1, 'Quarterly revenue'],
+      ['Q4', 4, 'Region: North; Revenue: 12L; C: audited'],
+      ['Q4', 5, 'Region: South'],
+      ['Q4', 7, 'Region: East; Revenue: 9L'],
+      ['Notes', 2, 'Owner: Priya; Status: Open'],
+    ]);
+    expect(metadata.rowCount).toBe(5);
+  });
+
+  it('returns each sheet from the header row down as CSV', async () => {
+    const { tables } = await processXlsx(buildWorkbook(), () => {});
+
+    expect(tables).toEqual([
+      { sheet: 'Q4', csv: 'Region,Revenue,\nNorth,12L,audited\nSouth,,\nEast,9L,' },
+      { sheet: 'Notes', csv: 'Owner,Status\nPriya,Open' },
+    ]);
+  });
+
+  it('chunks rows by sheet with a cell range', async () => {
+    const { text, rows } = await processXlsx(buildWorkbook(), () => {});
+    const chunks = splitIntoChunks(text, { documentId: 'doc-1', documentType: 'xlsx', rows });
+
+    expect(chunks.map((c) => c.metadata.chunker.strategy)).toEqual(['rows', 'rows']);
+    expect(chunks[0].metadata).toMatchObject({
+      sheetName: 'Q4',
+      rowStart: 1,
+      rowEnd: 7,
+      cellRange: 'A1:C7',
+    });
+    expect(chunks[1].metadata).toMatchObject({ sheetName: 'Notes', rowStart: 2, rowEnd: 2 });
+    expect(chunks[1].text).toBe('Owner: Priya; Status: Open');
+  });
+});
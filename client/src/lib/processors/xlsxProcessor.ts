@@ -1,71 +1,165 @@
-import { DocumentMetadata } from '@/types';
+import { DocumentMetadata, RowSpan, TabularData } from '@/types';
 import * as XLSX from 'xlsx';
+import { throwIfAborted } from '../utils';
 
+// Each sheet becomes a "Sheet: name" line followed by one record per row,
+// with cells labelled by the header row ("Region: North; Revenue: 12L").
+// Columns without a header are labelled by their letter and empty cells are
+// left out of the record. Each sheet's table, from the header row down, is
+// also returned as CSV with unformatted numbers.
 export async function processXlsx(
   buffer: ArrayBuffer,
-  onProgress: (progress: number) => void
-): Promise<{ text: string; metadata: DocumentMetadata }> {
+  onProgress: (progress: number) => void,
+  signal?: AbortSignal
+): Promise<{ text: string; metadata: DocumentMetadata; rows: RowSpan[]; tables: TabularData[] }> {
   try {
     onProgress(20);
-    
+
     // Load the workbook
     const data = new Uint8Array(buffer);
     const workbook = XLSX.read(data, { type: 'array' });
-    
+
     onProgress(40);
-    
+
     // Extract metadata
     const metadata: DocumentMetadata = {
       sheetCount: workbook.SheetNames.length,
       sheets: workbook.SheetNames,
     };
-    
-    // Extract text from each sheet
+
+    // Extract records from each sheet
     let fullText = '';
+    const rows: RowSpan[] = [];
+    const tables: TabularData[] = [];
     let processedSheets = 0;
-    
+
     for (const sheetName of workbook.SheetNames) {
+      throwIfAborted(signal);
+
       try {
         const worksheet = workbook.Sheets[sheetName];
-        
-        // Add sheet name as section header
-        fullText += `## Sheet: ${sheetName}\n\n`;
-        
-        // Convert sheet to JSON for text extraction
-        const json = XLSX.utils.sheet_to_json(worksheet, { header: 1 });
-        
-        // Process rows and columns
-        for (const row of json) {
-          if (Array.isArray(row) && row.length > 0) {
-            const rowText = row.join('\t');
-            if (rowText.trim()) {
-              fullText += rowText + '\n';
-            }
-          }
+        const { records, headerRow } = extractRecords(worksheet);
+
+        if (records.length > 0) {
+          if (fullText) fullText += '\n\n';
+          fullText += `Sheet: ${sheetName}\n\n`;
+
+          records.forEach((record, index) => {
+            if (index > 0) fullText += '\n';
+            rows.push({
+              sheet: sheetName,
+              rowNumber: record.rowNumber,
+              firstColumn: record.firstColumn,
+              lastColumn: record.lastColumn,
+              startIndex: fullText.length,
+              endIndex: fullText.length + record.text.length,
+            });
+            fullText += record.text;
+          });
+
+          // Rows above the header, such as a title, are not part of the table
+          const range = XLSX.utils.decode_range(worksheet['!ref']!);
+          range.s.r = headerRow;
+          const table = { ...worksheet, '!ref': XLSX.utils.encode_range(range) };
+          tables.push({
+            sheet: sheetName,
+            csv: XLSX.utils.sheet_to_csv(table, { rawNumbers: true, blankrows: false }),
+          });
         }
-        
-        fullText += '\n\n';
       } catch (error) {
         console.warn(`Failed to extract text from sheet ${sheetName}:`, error);
       }
-      
+
       // Update progress
       processedSheets++;
       onProgress(40 + (processedSheets / workbook.SheetNames.length) * 60);
     }
-    
+
+    metadata.rowCount = rows.length;
+
     // Count words
     const wordCount = fullText.split(/\s+/).filter(word => word.length > 0).length;
     metadata.wordCount = wordCount;
-    
+
     onProgress(100);
-    
+
     return {
       text: fullText,
       metadata,
+      rows,
+      tables,
     };
   } catch (error) {
+    throwIfAborted(signal);
     console.error('Failed to process XLSX:', error);
     throw new Error('Failed to process XLSX file');
   }
 }
+
+interface SheetRecord {
+  text: string;
+  rowNumber: number;
+  firstColumn: number;
+  lastColumn: number;
+}
+
+// Records for a sheet's non-empty rows, and the 0-based row the header is on
+function extractRecords(worksheet: XLSX.WorkSheet): { records: SheetRecord[]; headerRow: number } {
+  if (!worksheet['!ref']) return { records: [], headerRow: -1 };
+
+  const range = XLSX.utils.decode_range(worksheet['!ref']);
+
+  // Keep blank rows so that array positions map to sheet row numbers
+  const grid = XLSX.utils.sheet_to_json<unknown[]>(worksheet, {
+    header: 1,
+    raw: false,
+    defval: '',
+    blankrows: true,
+  });
+
+  const cellText = (cell: unknown) => String(cell ?? '').replace(/\s+/g, ' ').trim();
+  const filled = (row: unknown[]) => row.filter(cell => cellText(cell)).length;
+
+  // Titles often sit above the table, so the header is the first row with
+  // two or more filled cells
+  let headerIndex = grid.findIndex(row => filled(row) >= 2);
+  if (headerIndex === -1) headerIndex = grid.findIndex(row => filled(row) > 0);
+  if (headerIndex === -1) return { records: [], headerRow: -1 };
+
+  const headers = grid[headerIndex].map(cellText);
+  const labelFor = (column: number) =>
+    headers[column] || XLSX.utils.encode_col(range.s.c + column);
+  const hasData = grid.slice(headerIndex + 1).some(row => filled(row) > 0);
+
+  const records: SheetRecord[] = [];
+
+  grid.forEach((row, index) => {
+    // The header labels the records below it rather than being one,
+    // unless nothing follows it
+    if (index === headerIndex && hasData) return;
+    const labelled = index > headerIndex;
+
+    const fields: string[] = [];
+    let first = -1;
+    let last = -1;
+
+    row.forEach((cell, column) => {
+      const value = cellText(cell);
+      if (!value) return;
+      fields.push(labelled ? `${labelFor(column)}: ${value}` : value);
+      if (first === -1) first = column;
+      last = column;
+    });
+
+    if (fields.length === 0) return;
+
+    records.push({
+      text: fields.join('; '),
+      rowNumber: range.s.r + index + 1,
+      firstColumn: range.s.c + first + 1,
+      lastColumn: range.s.c + last + 1,
+    });
+  });
+
+  return { records, headerRow: range.s.r + headerIndex };
+}
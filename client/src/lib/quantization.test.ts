@@ -0,0 +1,66 @@
+import { describe, it, expect } from 'vitest';
+import {
+  cosineSimilarity,
+  dequantize,
+  measureRecall,
+  quantize,
+  quantizedSimilarity,
+  rankQuantized,
+  storedBytes,
+} from './quantization';
+
+// Deterministic pseudo-random vectors
+function randomVectors(count: number, dimensions: number, seed = 1): Float32Array[] {
+  let state = seed;
+  const next = () => {
+    state = (state * 1103515245 + 12345) % 2147483648;
+    return state / 2147483648 - 0.5;
+  };
+  return Array.from({ length: count }, () => Float32Array.from({ length: dimensions }, next));
+}
+
+describe('quantization', () => {
+  const [vector] = randomVectors(1, 384);
+
+  it('stores int8 and binary embeddings in a quarter and a thirty-second of the space', () => {
+    expect(storedBytes(quantize(vector, 'float32'))).toBe(384 * 4);
+    expect(storedBytes(quantize(vector, 'int8'))).toBe(384 + 4);
+    expect(storedBytes(quantize(vector, 'binary'))).toBe(384 / 8);
+  });
+
+  it('keeps int8 embeddings close to the original and binary ones on the same side', () => {
+    expect(cosineSimilarity(vector, dequantize(quantize(vector, 'int8')))).toBeGreaterThan(0.999);
+
+    const signs = dequantize(quantize(vector, 'binary'));
+    expect(Array.from(signs).every((sign, i) => sign === (vector[i] > 0 ? 1 : -1))).toBe(true);
+  });
+
+  it('compares binary embeddings by matching signs', () => {
+    const a = quantize(new Float32Array([1, 1, -1, -1]), 'binary');
+    const b = quantize(new Float32Array([1, -1, -1, 1]), 'binary');
+    expect(quantizedSimilarity(a, a)).toBe(1);
+    expect(quantizedSimilarity(a, b)).toBe(0);
+  });
+
+  it('re-scores quantized candidates with the float query', () => {
+    const query = new Float32Array([1, 0.2, 0]);
+    const items = [
+      { id: 'far', vector: quantize(new Float32Array([-1, 0, 1]), 'int8') },
+      { id: 'close', vector: quantize(new Float32Array([1, 0.5, 0.1]), 'int8') },
+      { id: 'closest', vector: quantize(new Float32Array([1, 0.2, 0.01]), 'int8') },
+    ];
+
+    const ranked = rankQuantized(query, items, 2);
+    expect(ranked.map(item => item.id)).toEqual(['closest', 'close']);
+    expect(ranked[0].score).toBeCloseTo(cosineSimilarity(query, dequantize(items[2].vector)), 6);
+  });
+
+  it('measures recall against exact search', () => {
+    const sample = randomVectors(200, 64, 7);
+
+    expect(measureRecall(sample, 'float32')).toBe(1);
+    expect(measureRecall(sample, 'int8')).toBeGreaterThan(0.9);
+    expect(measureRecall(sample, 'binary')).toBeLessThan(measureRecall(sample, 'int8')!);
+    expect(measureRecall(sample.slice(0, 20), 'int8')).toBeNull();
+  });
+});
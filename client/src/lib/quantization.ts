@@ -0,0 +1,228 @@
+import { EmbeddingQuantization, QuantizedEmbedding } from '@/types';
+
+export const EMBEDDING_QUANTIZATIONS: Array<{ id: EmbeddingQuantization; label: string }> = [
+  { id: 'float32', label: 'Float32 (exact)' },
+  { id: 'int8', label: 'Int8 (4x smaller)' },
+  { id: 'binary', label: 'Binary (32x smaller)' },
+];
+
+// Quantized scores only pick candidates; this many times the requested
+// results are re-scored against the float query
+export const RESCORE_FACTOR = 4;
+
+// Higher keeps more of the original vector
+const PRECISION: Record<EmbeddingQuantization, number> = { float32: 2, int8: 1, binary: 0 };
+
+let activeQuantization: EmbeddingQuantization = 'float32';
+
+// How new embeddings are stored
+export function getEmbeddingQuantization(): EmbeddingQuantization {
+  return activeQuantization;
+}
+
+export function setEmbeddingQuantization(quantization: EmbeddingQuantization) {
+  if (!(quantization in PRECISION)) {
+    throw new Error(`Unknown embedding quantization: ${quantization}`);
+  }
+  activeQuantization = quantization;
+}
+
+// Whether an embedding stored one way loses precision when stored the other
+export function isLowerPrecision(quantization: EmbeddingQuantization, than: EmbeddingQuantization): boolean {
+  return PRECISION[quantization] < PRECISION[than];
+}
+
+export function quantize(embedding: Float32Array, quantization: EmbeddingQuantization): QuantizedEmbedding {
+  if (quantization === 'int8') {
+    let max = 0;
+    for (let i = 0; i < embedding.length; i++) {
+      max = Math.max(max, Math.abs(embedding[i]));
+    }
+    const scale = max / 127 || 1;
+    const values = new Int8Array(embedding.length);
+    for (let i = 0; i < embedding.length; i++) {
+      values[i] = Math.round(embedding[i] / scale);
+    }
+    return { quantization, values, scale };
+  }
+
+  if (quantization === 'binary') {
+    const values = new Uint8Array(Math.ceil(embedding.length / 8));
+    for (let i = 0; i < embedding.length; i++) {
+      if (embedding[i] > 0) {
+        values[i >> 3] |= 1 << (i & 7);
+      }
+    }
+    return { quantization, values, dimensions: embedding.length };
+  }
+
+  return { quantization: 'float32', values: embedding };
+}
+
+// The float vector a quantized embedding stands for. Binary embeddings
+// become +1/-1 per dimension.
+export function dequantize(embedding: QuantizedEmbedding): Float32Array {
+  if (embedding.quantization === 'int8') {
+    const values = new Float32Array(embedding.values.length);
+    for (let i = 0; i < values.length; i++) {
+      values[i] = embedding.values[i] * embedding.scale;
+    }
+    return values;
+  }
+
+  if (embedding.quantization === 'binary') {
+    const values = new Float32Array(embedding.dimensions);
+    for (let i = 0; i < values.length; i++) {
+      values[i] = embedding.values[i >> 3] & (1 << (i & 7)) ? 1 : -1;
+    }
+    return values;
+  }
+
+  return embedding.values;
+}
+
+export function dimensionsOf(embedding: QuantizedEmbedding): number {
+  return embedding.quantization === 'binary' ? embedding.dimensions : embedding.values.length;
+}
+
+// Bytes an embedding takes in storage, not counting the record around it
+export function storedBytes(embedding: QuantizedEmbedding): number {
+  return embedding.values.byteLength + (embedding.quantization === 'int8' ? 4 : 0);
+}
+
+// Similarity of two embeddings quantized the same way, without converting
+// them back to floats: cosine for float32 and int8, the share of matching
+// signs mapped onto -1..1 for binary
+export function quantizedSimilarity(a: QuantizedEmbedding, b: QuantizedEmbedding): number {
+  if (a.quantization === 'binary' && b.quantization === 'binary') {
+    let differing = 0;
+    for (let i = 0; i < a.values.length; i++) {
+      let bits = a.values[i] ^ b.values[i];
+      while (bits) {
+        bits &= bits - 1;
+        differing++;
+      }
+    }
+    return 1 - (2 * differing) / a.dimensions;
+  }
+
+  if (a.quantization !== b.quantization) {
+    throw new Error('Embeddings must be quantized the same way');
+  }
+  return cosineSimilarity(a.values, b.values);
+}
+
+// Cosine similarity between two vectors
+export function cosineSimilarity(a: ArrayLike<number>, b: ArrayLike<number>): number {
+  if (a.length !== b.length) {
+    throw new Error('Vectors must have the same dimensions');
+  }
+
+  let dotProduct = 0;
+  let magnitudeA = 0;
+  let magnitudeB = 0;
+
+  for (let i = 0; i < a.length; i++) {
+    dotProduct += a[i] * b[i];
+    magnitudeA += a[i] * a[i];
+    magnitudeB += b[i] * b[i];
+  }
+
+  magnitudeA = Math.sqrt(magnitudeA);
+  magnitudeB = Math.sqrt(magnitudeB);
+
+  if (magnitudeA === 0 || magnitudeB === 0) {
+    return 0;
+  }
+
+  return dotProduct / (magnitudeA * magnitudeB);
+}
+
+// Similarity of two embeddings however they are quantized
+export function vectorSimilarity(a: QuantizedEmbedding, b: QuantizedEmbedding): number {
+  if (a.quantization === b.quantization) {
+    return quantizedSimilarity(a, b);
+  }
+  return cosineSimilarity(dequantize(a), dequantize(b));
+}
+
+// Scores stored embeddings against a float query, quantizing the query the
+// same way as each embedding
+export function queryScorer(query: Float32Array): (embedding: QuantizedEmbedding) => number {
+  const queries = new Map<EmbeddingQuantization, QuantizedEmbedding>();
+  return (embedding) => {
+    if (!queries.has(embedding.quantization)) {
+      queries.set(embedding.quantization, quantize(query, embedding.quantization));
+    }
+    return quantizedSimilarity(queries.get(embedding.quantization)!, embedding);
+  };
+}
+
+// Re-score candidates picked by quantized similarity against the float query
+export function rescore<T extends { vector: QuantizedEmbedding }>(
+  query: Float32Array,
+  candidates: T[],
+  limit: number
+): Array<T & { score: number }> {
+  return candidates
+    .map(item => ({
+      ...item,
+      score: item.vector.quantization === 'float32'
+        ? cosineSimilarity(query, item.vector.values)
+        : cosineSimilarity(query, dequantize(item.vector)),
+    }))
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit);
+}
+
+// Rank stored embeddings for a float query: pick candidates by quantized
+// similarity, then re-score the best of them against the float query
+export function rankQuantized<T extends { vector: QuantizedEmbedding }>(
+  query: Float32Array,
+  items: T[],
+  limit: number
+): Array<T & { score: number }> {
+  const score = queryScorer(query);
+  const candidates = items
+    .map(item => ({ item, score: score(item.vector) }))
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit * RESCORE_FACTOR)
+    .map(({ item }) => item);
+  return rescore(query, candidates, limit);
+}
+
+// Share of the exact top results that quantized ranking also returns, using
+// each sample vector in turn as the query against the others. Null when the
+// sample is too small for re-scoring to leave anything out.
+export function measureRecall(
+  sample: Float32Array[],
+  quantization: EmbeddingQuantization,
+  k: number = 10,
+  queries: number = 32
+): number | null {
+  if (sample.length <= k * RESCORE_FACTOR + 1) {
+    return null;
+  }
+
+  const items = sample.map((values, index) => ({ index, values, vector: quantize(values, quantization) }));
+  let found = 0;
+  let expected = 0;
+
+  for (let q = 0; q < Math.min(queries, sample.length); q++) {
+    const others = items.filter(item => item.index !== q);
+    const exact = new Set(
+      others
+        .map(item => ({ index: item.index, score: cosineSimilarity(sample[q], item.values) }))
+        .sort((a, b) => b.score - a.score)
+        .slice(0, k)
+        .map(item => item.index)
+    );
+
+    for (const item of rankQuantized(sample[q], others, k)) {
+      if (exact.has(item.index)) found++;
+    }
+    expected += exact.size;
+  }
+
+  return found / expected;
+}
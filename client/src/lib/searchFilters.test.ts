@@ -0,0 +1,64 @@
+import { describe, it, expect } from 'vitest';
+import { documentFacets, hasFilters, matchesFilters } from './searchFilters';
+
+describe('search filters', () => {
+  const facets = documentFacets({
+    type: 'pdf',
+    source: 'google_drive',
+    createdAt: new Date('2024-03-05T10:00:00Z'),
+    metadata: {
+      author: 'Priya Sharma',
+      createdAt: '2023-11-20T08:00:00Z',
+      modifiedAt: '2024-02-01T12:00:00Z',
+      tags: ['Contracts', 'lease'],
+    },
+  });
+
+  it('takes dates from the document metadata before the indexing date', () => {
+    expect(facets).toEqual({
+      type: 'pdf',
+      source: 'google_drive',
+      author: 'Priya Sharma',
+      createdAt: Date.parse('2023-11-20T08:00:00Z'),
+      modifiedAt: Date.parse('2024-02-01T12:00:00Z'),
+      tags: ['Contracts', 'lease'],
+    });
+
+    const indexed = new Date('2024-03-05T10:00:00Z');
+    expect(documentFacets({ type: 'txt', source: 'local', createdAt: indexed, metadata: {} })).toMatchObject({
+      createdAt: indexed.getTime(),
+      modifiedAt: indexed.getTime(),
+      tags: [],
+    });
+  });
+
+  it('tells empty filters apart from set ones', () => {
+    expect(hasFilters(undefined)).toBe(false);
+    expect(hasFilters({ documentTypes: [], authors: undefined })).toBe(false);
+    expect(hasFilters({ createdFrom: new Date() })).toBe(true);
+  });
+
+  it('matches documents against every filter that is set', () => {
+    const matches = (filters: Parameters<typeof matchesFilters>[2]) => matchesFilters('doc-1', facets, filters);
+
+    expect(matches({})).toBe(true);
+    expect(matches({ documentTypes: ['pdf', 'docx'], sources: ['google_drive'] })).toBe(true);
+    expect(matches({ sources: ['local'] })).toBe(false);
+    expect(matches({ authors: [' priya sharma'] })).toBe(true);
+    expect(matches({ authors: ['Priya'] })).toBe(false);
+    expect(matches({ tags: ['contracts', 'invoices'] })).toBe(true);
+    expect(matches({ tags: ['invoices'] })).toBe(false);
+    expect(matches({ documentIds: ['doc-2'] })).toBe(false);
+    expect(matches({
+      createdFrom: new Date('2023-11-01'),
+      createdTo: new Date('2023-11-30'),
+      modifiedFrom: new Date('2024-01-01'),
+    })).toBe(true);
+    expect(matches({ modifiedTo: new Date('2024-01-31') })).toBe(false);
+  });
+
+  it('needs facets only for filters on them', () => {
+    expect(matchesFilters('doc-1', undefined, { documentIds: ['doc-1'] })).toBe(true);
+    expect(matchesFilters('doc-1', undefined, { documentTypes: ['pdf'] })).toBe(false);
+  });
+});
@@ -0,0 +1,70 @@
+import { Document, SearchFilters } from '@/types';
+
+// The properties of a document that searches can be filtered on, with dates
+// as milliseconds so they survive being stored as JSON
+export interface DocumentFacets {
+  type: string;
+  source?: Document['source'];
+  author?: string;
+  createdAt?: number;
+  modifiedAt?: number;
+  tags: string[];
+}
+
+export function documentFacets(document: Pick<Document, 'type' | 'source' | 'createdAt' | 'metadata'>): DocumentFacets {
+  const createdAt = toTime(document.metadata?.createdAt) ?? toTime(document.createdAt);
+  return {
+    type: document.type,
+    source: document.source,
+    author: document.metadata?.author || undefined,
+    createdAt,
+    modifiedAt: toTime(document.metadata?.modifiedAt) ?? createdAt,
+    tags: Array.isArray(document.metadata?.tags) ? document.metadata.tags : [],
+  };
+}
+
+export function hasFilters(filters?: SearchFilters | null): filters is SearchFilters {
+  if (!filters) return false;
+  return Object.values(filters).some(value => Array.isArray(value) ? value.length > 0 : value !== undefined);
+}
+
+export function matchesFilters(documentId: string, facets: DocumentFacets | undefined, filters: SearchFilters): boolean {
+  if (filters.documentIds?.length && !filters.documentIds.includes(documentId)) return false;
+  if (!hasFacetFilters(filters)) return true;
+  if (!facets) return false;
+
+  if (filters.documentTypes?.length && !filters.documentTypes.includes(facets.type)) return false;
+  if (filters.sources?.length && (!facets.source || !filters.sources.includes(facets.source))) return false;
+
+  if (filters.authors?.length) {
+    const author = facets.author?.trim().toLowerCase();
+    if (!author || !filters.authors.some(wanted => wanted.trim().toLowerCase() === author)) return false;
+  }
+
+  if (filters.tags?.length) {
+    const tags = facets.tags.map(tag => tag.toLowerCase());
+    if (!filters.tags.some(tag => tags.includes(tag.toLowerCase()))) return false;
+  }
+
+  return (
+    inRange(facets.createdAt, filters.createdFrom, filters.createdTo) &&
+    inRange(facets.modifiedAt, filters.modifiedFrom, filters.modifiedTo)
+  );
+}
+
+// Filters on anything but the document ids
+function hasFacetFilters(filters: SearchFilters): boolean {
+  return hasFilters({ ...filters, documentIds: undefined });
+}
+
+function inRange(time: number | undefined, from?: Date, to?: Date): boolean {
+  if (!from && !to) return true;
+  if (time === undefined) return false;
+  return (!from || time >= from.getTime()) && (!to || time <= to.getTime());
+}
+
+function toTime(value: unknown): number | undefined {
+  if (value === undefined || value === null || value === '') return undefined;
+  const time = new Date(value as string | number | Date).getTime();
+  return isNaN(time) ? undefined : time;
+}
@@ -0,0 +1,244 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import {
+  ShardedStorageManager,
+  bloomFilterContains,
+  createBloomFilter,
+  decodeShard,
+  encodeShard,
+  kMeans,
+} from './shardedStorage';
+import * as storage from './storage';
+
+vi.mock('./storage', () => ({
+  getAllDocuments: vi.fn(),
+  getAllEmbeddings: vi.fn(),
+  getMetadata: vi.fn(),
+  saveMetadata: vi.fn(),
+  getShard: vi.fn(),
+  saveShard: vi.fn(),
+  deleteShards: vi.fn(),
+}));
+
+const MODEL = 'Xenova/multilingual-e5-small';
+
+const document = (id: string, type = 'txt') => ({
+  id,
+  name: `${id}.${type}`,
+  type,
+  source: 'local' as const,
+  createdAt: new Date('2024-01-15T00:00:00Z'),
+  metadata: {},
+});
+
+const chunk = (id: string, documentId: string, text: string, embedding?: number[]) => ({
+  id,
+  documentId,
+  text,
+  metadata: { startIndex: 0, endIndex: text.length },
+  ...(embedding ? { embedding: new Float32Array(embedding), embeddingModel: MODEL } : {}),
+});
+
+describe('bloom filter', () => {
+  it('contains every term added and few others', () => {
+    const terms = Array.from({ length: 500 }, (_, i) => `term${i}`);
+    const filter = createBloomFilter(terms, 0.01);
+
+    expect(terms.every(term => bloomFilterContains(filter.bits, filter.hashes, term))).toBe(true);
+    const falsePositives = Array.from({ length: 2000 }, (_, i) => `other${i}`)
+      .filter(term => bloomFilterContains(filter.bits, filter.hashes, term)).length;
+    expect(falsePositives / 2000).toBeLessThan(0.03);
+  });
+});
+
+describe('kMeans', () => {
+  it('puts a centroid in each cluster', () => {
+    const vectors = [
+      [1, 0.1, 0], [1, -0.1, 0], [0.9, 0, 0.1],
+      [0, 0.1, 1], [0.1, 0, 1], [0, -0.1, 0.9],
+    ].map(values => new Float32Array(values));
+    const centroids = kMeans(vectors, 2).sort((a, b) => b[0] - a[0]);
+
+    expect(centroids).toHaveLength(2);
+    expect(centroids[0][0]).toBeGreaterThan(0.9);
+    expect(centroids[1][2]).toBeGreaterThan(0.9);
+  });
+
+  it('pulls centroids towards heavier points', () => {
+    const [centroid] = kMeans([[1, 0], [0, 1]], 1, [3, 1]);
+    expect(centroid[0]).toBeCloseTo(3 / Math.sqrt(10));
+  });
+});
+
+describe('shard encoding', () => {
+  it('round-trips chunks', () => {
+    const chunks = [
+      {
+        chunkId: 'c1', documentId: 'd1', documentName: 'Lease.pdf', documentType: 'pdf',
+        facets: { type: 'pdf', tags: ['lease'] }, text: 'Rent is due monthly', metadata: { pageNumber: 2 },
+      },
+      {
+        chunkId: 'c2', documentId: 'd1', documentName: 'Lease.pdf', documentType: 'pdf',
+        facets: { type: 'pdf', tags: ['lease'] }, text: 'किराया हर महीने', metadata: {},
+      },
+    ];
+    expect(decodeShard(encodeShard(chunks))).toEqual(chunks);
+  });
+});
+
+describe('ShardedStorageManager', () => {
+  let shards: Map<string, ArrayBuffer>;
+
+  beforeEach(() => {
+    vi.resetAllMocks();
+    shards = new Map();
+    vi.mocked(storage.saveShard).mockImplementation(async (id, data) => {
+      shards.set(id, data);
+    });
+    vi.mocked(storage.getShard).mockImplementation(async id => shards.get(id) || null);
+    vi.mocked(storage.deleteShards).mockImplementation(async ids => {
+      ids.forEach(id => shards.delete(id));
+    });
+    vi.mocked(storage.getAllDocuments).mockResolvedValue([]);
+    vi.mocked(storage.getAllEmbeddings).mockResolvedValue([]);
+  });
+
+  // Small shards, so each document below gets its own
+  async function createManager() {
+    const manager = new ShardedStorageManager(200);
+    await manager.initialize();
+    await manager.addDocument(document('lease'), [
+      chunk('lease-1', 'lease', 'The tenant pays rent monthly', [1, 0, 0]),
+    ]);
+    await manager.addDocument(document('invoice', 'pdf'), [
+      chunk('invoice-1', 'invoice', 'Invoice total due within thirty days', [0, 1, 0]),
+    ]);
+    return manager;
+  }
+
+  it('builds the shards from saved documents when there are none yet', async () => {
+    vi.mocked(storage.getAllDocuments).mockResolvedValue([{
+      ...document('memo'),
+      size: 10,
+      sizeFormatted: '10 B',
+      content: { fullText: '', chunks: [chunk('memo-1', 'memo', 'Quarterly budget memo')] },
+    }]);
+    vi.mocked(storage.getAllEmbeddings).mockResolvedValue([{
+      chunkId: 'memo-1',
+      documentId: 'memo',
+      embedding: { quantization: 'float32', values: new Float32Array([0, 0, 1]) },
+      model: MODEL,
+      dimensions: 3,
+    }]);
+
+    const manager = new ShardedStorageManager();
+    await manager.initialize();
+    await manager.flush();
+
+    expect(manager.getShards()).toMatchObject([
+      { id: 'shard-1', chunkCount: 1, documentIds: ['memo'], topTerms: ['quarterly', 'budget', 'memo'] },
+    ]);
+    expect(manager.getShards()[0].centroids).toEqual([{ model: MODEL, vector: [0, 0, 1], count: 1 }]);
+    // The shards keep no embeddings
+    expect(decodeShard(shards.get('shard-1')!)[0]).not.toHaveProperty('embedding');
+    expect(storage.saveMetadata).toHaveBeenLastCalledWith('shard_manifest', expect.objectContaining({ version: 5 }));
+  });
+
+  it('fills the last shard before starting another, leaving full ones', async () => {
+    const manager = new ShardedStorageManager(1000);
+    await manager.initialize();
+    await manager.addDocument(document('lease'), [chunk('lease-1', 'lease', 'The tenant pays rent monthly', [1, 0, 0])]);
+    await manager.addDocument(document('memo'), [chunk('memo-1', 'memo', 'Quarterly budget memo', [0.8, 0.6, 0])]);
+
+    expect(manager.getShards()).toMatchObject([{ id: 'shard-1', documentIds: ['lease', 'memo'] }]);
+    // Both embeddings are in the centroid, though only the new one was given
+    const [centroid] = manager.getShards()[0].centroids;
+    expect(centroid.count).toBe(2);
+    expect(centroid.vector[0]).toBeCloseTo(1.8 / Math.sqrt(1.8 * 1.8 + 0.6 * 0.6));
+
+    await manager.addDocument(document('invoice'), [
+      chunk('invoice-1', 'invoice', 'Invoice total due within thirty days '.repeat(10), [0, 1, 0]),
+    ]);
+    await manager.addDocument(document('notice'), [chunk('notice-1', 'notice', 'Office closed on Friday', [0, 0, 1])]);
+
+    expect(manager.getShards().map(shard => shard.documentIds)).toEqual([['lease', 'memo'], ['invoice', 'notice']]);
+    expect(vi.mocked(storage.saveShard).mock.calls.map(([id]) => id))
+      .toEqual(['shard-1', 'shard-1', 'shard-2', 'shard-2']);
+  });
+
+  it('keeps a saved manifest', async () => {
+    vi.mocked(storage.getMetadata).mockResolvedValue({ version: 5, nextShard: 4, shards: [] });
+
+    const manager = new ShardedStorageManager();
+    await manager.initialize();
+
+    expect(storage.getAllDocuments).not.toHaveBeenCalled();
+    expect(storage.saveMetadata).not.toHaveBeenCalled();
+  });
+
+  it('picks shards by their terms and centroids', async () => {
+    const manager = await createManager();
+    expect(manager.getShards().map(shard => shard.id)).toEqual(['shard-1', 'shard-2']);
+
+    expect(await manager.getRelevantShards('monthly rent')).toEqual(['shard-1']);
+    expect(await manager.getRelevantShards('rent invoice total')).toEqual(['shard-2', 'shard-1']);
+    expect(await manager.getRelevantShards('invoice', new Float32Array([1, 0.2, 0]), MODEL)).toEqual(['shard-2', 'shard-1']);
+    // Centroids of another model do not count, so neither shard is ruled out
+    expect(await manager.getRelevantShards('', new Float32Array([1, 0, 0]), 'Xenova/all-MiniLM-L6-v2'))
+      .toEqual(['shard-1', 'shard-2']);
+    expect(await manager.getRelevantShards('unrelated words')).toEqual([]);
+  });
+
+  it('searches only the relevant shards, with filters', async () => {
+    const manager = await createManager();
+    // Loaded from storage rather than kept from writing
+    const reloaded = new ShardedStorageManager();
+    vi.mocked(storage.getMetadata).mockResolvedValue({
+      version: 5,
+      nextShard: 3,
+      shards: manager.getShards(),
+    });
+    await reloaded.initialize();
+
+    const results = await reloaded.search('rent due', 10);
+    expect(results.map(result => [result.chunkId, result.score])).toEqual([
+      ['lease-1', 0.5],
+      ['invoice-1', 0.5],
+    ]);
+    expect(results[0]).toMatchObject({ documentName: 'lease.txt', documentType: 'txt' });
+
+    expect((await reloaded.search('rent due', 10, { documentTypes: ['pdf'] })).map(r => r.chunkId))
+      .toEqual(['invoice-1']);
+    expect(await reloaded.search('rent due', 10, { documentIds: ['other'] })).toEqual([]);
+    expect(storage.getShard).toHaveBeenCalledTimes(2);
+  });
+
+  it('skips a shard that does not match its hash', async () => {
+    const manager = await createManager();
+    const corrupt = shards.get('shard-1')!.slice(0);
+    new Uint8Array(corrupt)[corrupt.byteLength - 1] ^= 0xff;
+    shards.set('shard-1', corrupt);
+
+    const reloaded = new ShardedStorageManager();
+    vi.mocked(storage.getMetadata).mockResolvedValue({ version: 5, nextShard: 3, shards: manager.getShards() });
+    await reloaded.initialize();
+
+    expect((await reloaded.search('due', 10)).map(result => result.chunkId)).toEqual(['invoice-1']);
+  });
+
+  it('updates and removes documents', async () => {
+    const manager = await createManager();
+
+    await manager.updateDocument(
+      { ...document('lease'), name: 'lease-2024.txt' },
+      [chunk('lease-2', 'lease', 'Deposit refunded at the end')],
+      ['lease-1'],
+    );
+    const results = await manager.search('rent deposit', 10);
+    expect(results.map(result => [result.chunkId, result.documentName])).toEqual([['lease-2', 'lease-2024.txt']]);
+
+    await manager.removeDocument('lease');
+    expect(manager.getShards().map(shard => shard.documentIds)).toEqual([['invoice']]);
+    expect(await manager.search('deposit', 10)).toEqual([]);
+    expect(shards.size).toBe(1);
+  });
+});
@@ -1,184 +1,664 @@
+import { DocumentChunk, SearchFilters } from '@/types';
+import {
+  deleteShards,
+  getAllDocuments,
+  getAllEmbeddings,
+  getMetadata,
+  getShard,
+  saveMetadata,
+  saveShard,
+} from './storage';
+import { cosineSimilarity, dequantize } from './quantization';
+import { DocumentFacets, documentFacets, matchesFilters } from './searchFilters';
 
-import { initializeDatabase } from './storage';
-import { getMetadata, saveMetadata } from './storage';
+// Shards summarised in the manifest, so a search reads only the shards that
+// can hold what it looks for
+export interface ShardInfo {
+  id: string;
+  size: number;
+  chunkCount: number;
+  // FNV-1a checksum of the shard, checked when it is loaded
+  contentHash: string;
+  // Bloom filter over the terms in the shard's chunks, base64 encoded
+  bloomFilter: string;
+  bloomHashes: number;
+  // k-means centroids of the embeddings of the shard's chunks, per model
+  centroids: ShardCentroid[];
+  topTerms: string[];
+  documentIds: string[];
+  documentRange: [string, string];
+  lastModified: string;
+}
+
+export interface ShardCentroid {
+  model: string;
+  vector: number[];
+  // Chunks the centroid stands for
+  count: number;
+}
 
 interface ShardManifest {
-  version: string;
-  shards: {
-    id: string;
-    size: number;
-    contentHash: string;
-    bloomFilter: string;
-    centroids: number[][];
-    topTerms: string[];
-    documentRange: [string, string];
-    lastModified: string;
-  }[];
+  version: number;
+  nextShard: number;
+  shards: ShardInfo[];
+}
+
+// A chunk as kept in a shard, with what searches show and filter on
+export interface ShardChunk {
+  chunkId: string;
+  documentId: string;
+  documentName: string;
+  documentType: string;
+  facets: DocumentFacets;
+  text: string;
+  metadata: any;
 }
 
-interface ShardCache {
-  shardId: string;
-  data: ArrayBuffer;
-  lastAccessed: number;
+export interface ShardSearchResult {
+  chunkId: string;
+  documentId: string;
+  documentName: string;
+  documentType: string;
+  text: string;
+  score: number;
+  metadata: any;
 }
 
+// An embedding given with a chunk. Shards do not keep it, it only places the
+// chunk in their centroids.
+interface ChunkVector {
+  model: string;
+  vector: ArrayLike<number>;
+}
+
+// The document a chunk belongs to, as far as shards need it
+export type ShardDocument = Parameters<typeof documentFacets>[0] & { id: string; name: string };
+
+const MANIFEST_KEY = 'shard_manifest';
+// Manifests of another version are dropped and the shards built again
+const SHARD_FORMAT = 5;
+
 const SHARD_SIZE = 50 * 1024 * 1024; // 50MB
 const MAX_CACHE_SIZE = 200 * 1024 * 1024; // 200MB cache
 
+const BLOOM_FALSE_POSITIVE_RATE = 0.01;
+const MAX_CENTROIDS = 8;
+const KMEANS_ITERATIONS = 10;
+const TOP_TERMS = 20;
+// Shards picked by centroid similarity besides those matching query terms
+const NEAREST_SHARDS = 3;
+
+// "SHRD"
+const MAGIC = 0x44524853;
+const HEADER_BYTES = 8;
+
 export class ShardedStorageManager {
   private manifest: ShardManifest | null = null;
-  private cache: Map<string, ShardCache> = new Map();
-  private db: IDBDatabase | null = null;
+  private cache: Map<string, { chunks: ShardChunk[]; size: number; lastAccessed: number }> = new Map();
+  // Writes read and rewrite shards, so they run one after another
+  private writes: Promise<void> = Promise.resolve();
+
+  // Shards are closed once they reach about this size
+  constructor(private shardSize: number = SHARD_SIZE) {}
 
   async initialize() {
     // Load manifest from IndexedDB
-    this.manifest = await getMetadata('shard_manifest') as ShardManifest;
-    if (!this.manifest) {
-      this.manifest = {
-        version: '1.0',
-        shards: []
-      };
-      await saveMetadata('shard_manifest', this.manifest);
+    const saved = await getMetadata(MANIFEST_KEY) as ShardManifest | null;
+    if (saved?.version === SHARD_FORMAT) {
+      this.manifest = saved;
+      return;
     }
 
-    // Initialize IndexedDB for shard caching
-    this.db = await initializeDatabase();
+    // Shards in an older format, or none yet: build them from the saved
+    // documents in the background
+    this.manifest = { version: SHARD_FORMAT, nextShard: 1, shards: [] };
+    await deleteShards((saved?.shards || []).map(shard => shard.id));
+    await this.saveManifest();
+    this.enqueue(() => this.rebuild());
+  }
+
+  getShards(): ShardInfo[] {
+    return this.manifest ? [...this.manifest.shards] : [];
+  }
+
+  // Resolves once writes queued so far are done
+  flush(): Promise<void> {
+    return this.writes;
+  }
+
+  // Chunks left from an earlier, interrupted attempt are replaced. The
+  // chunks' embeddings, when given, go into the shard centroids.
+  addDocument(document: ShardDocument, chunks: DocumentChunk[]): Promise<void> {
+    return this.enqueue(async () => {
+      await this.rewriteDocument(document.id, () => []);
+      await this.appendChunks(chunks.map(chunk => toShardChunk(document, chunk)), vectorsOf(chunks));
+    });
   }
 
-  async getRelevantShards(query: string, embeddings?: Float32Array): Promise<string[]> {
+  // Drop a re-indexed document's removed chunks, give the rest its new
+  // name and facets, and add the new ones
+  updateDocument(document: ShardDocument, addedChunks: DocumentChunk[], removedChunkIds: string[]): Promise<void> {
+    const removed = new Set(removedChunkIds);
+    const facets = documentFacets(document);
+    return this.enqueue(async () => {
+      await this.rewriteDocument(document.id, chunks => chunks
+        .filter(chunk => !removed.has(chunk.chunkId))
+        .map(chunk => ({ ...chunk, documentName: document.name, facets })));
+      await this.appendChunks(addedChunks.map(chunk => toShardChunk(document, chunk)), vectorsOf(addedChunks));
+    });
+  }
+
+  removeDocument(documentId: string): Promise<void> {
+    return this.enqueue(() => this.rewriteDocument(documentId, () => []));
+  }
+
+  // Shards that may hold a query term, most matching terms first, then the
+  // shards whose centroids are nearest the query embedding
+  async getRelevantShards(query: string, embedding?: Float32Array, model?: string): Promise<string[]> {
     if (!this.manifest) throw new Error('Storage not initialized');
-    
-    const relevantShards = new Set<string>();
-
-    // Check bloom filters for keyword matches
-    const terms = query.toLowerCase().split(/\s+/);
-    for (const shard of this.manifest.shards) {
-      if (terms.some(term => this.checkBloomFilter(shard.bloomFilter, term))) {
-        relevantShards.add(shard.id);
+
+    const terms = uniqueTerms(query);
+    const matching = this.manifest.shards
+      .map(shard => ({
+        id: shard.id,
+        matches: terms.filter(term => bloomFilterContains(shard.bloomFilter, shard.bloomHashes, term)).length,
+        topMatches: terms.filter(term => shard.topTerms.includes(term)).length,
+      }))
+      .filter(shard => shard.matches > 0)
+      .sort((a, b) => b.matches - a.matches || b.topMatches - a.topMatches);
+
+    const relevantShards = new Set(matching.map(shard => shard.id));
+    if (embedding) {
+      this.findNearestShards(embedding, model).forEach(shardId => relevantShards.add(shardId));
+    }
+    return Array.from(relevantShards);
+  }
+
+  // Chunks of the relevant shards containing query terms. Shards are loaded
+  // one at a time, so the cache stays within its budget however many are
+  // relevant.
+  async search(query: string, limit: number = 10, filters?: SearchFilters): Promise<ShardSearchResult[]> {
+    const terms = uniqueTerms(query);
+    if (terms.length === 0) return [];
+
+    const wantedDocuments = filters?.documentIds?.length ? new Set(filters.documentIds) : null;
+    const results: ShardSearchResult[] = [];
+
+    for (const shardId of await this.getRelevantShards(query)) {
+      const info = this.manifest!.shards.find(shard => shard.id === shardId);
+      if (!info || (wantedDocuments && !info.documentIds.some(id => wantedDocuments.has(id)))) continue;
+
+      for (const chunk of await this.loadShard(shardId)) {
+        if (filters && !matchesFilters(chunk.documentId, chunk.facets, filters)) continue;
+
+        const chunkTerms = new Set(tokenize(chunk.text));
+        const score = terms.filter(term => chunkTerms.has(term)).length / terms.length;
+        if (score <= 0) continue;
+
+        results.push({
+          chunkId: chunk.chunkId,
+          documentId: chunk.documentId,
+          documentName: chunk.documentName,
+          documentType: chunk.documentType,
+          text: chunk.text,
+          score,
+          metadata: chunk.metadata,
+        });
       }
     }
 
-    // Check centroids for vector similarity if embeddings provided
-    if (embeddings) {
-      const nearestShards = this.findNearestCentroids(embeddings, 3);
-      nearestShards.forEach(shardId => relevantShards.add(shardId));
+    return results.sort((a, b) => b.score - a.score).slice(0, limit);
+  }
+
+  private enqueue(write: () => Promise<void>): Promise<void> {
+    const next = this.writes.then(write);
+    // A failed write is logged and does not stop the ones after it
+    this.writes = next.catch(error => console.error('Error writing search index shards:', error));
+    return next;
+  }
+
+  // Index every saved document again, e.g. after the shard format changed
+  private async rebuild(): Promise<void> {
+    const [documents, embeddings] = await Promise.all([getAllDocuments(), getAllEmbeddings()]);
+
+    const chunks: ShardChunk[] = [];
+    for (const doc of documents) {
+      for (const chunk of doc.content?.chunks || []) {
+        chunks.push(toShardChunk(doc, chunk));
+      }
     }
+    const vectors = new Map<string, ChunkVector>(embeddings.map(stored => [
+      stored.chunkId,
+      { model: stored.model, vector: dequantize(stored.embedding) },
+    ]));
+    await this.appendChunks(chunks, vectors);
+  }
 
-    return Array.from(relevantShards);
+  // Fill the last shard up to its size, then start new ones. Only the last
+  // shard is written again; the full ones are left as they are.
+  private async appendChunks(chunks: ShardChunk[], vectors: Map<string, ChunkVector>): Promise<void> {
+    if (!this.manifest) throw new Error('Storage not initialized');
+    if (chunks.length === 0) return;
+
+    const last = this.manifest.shards[this.manifest.shards.length - 1];
+    const reopened = last && last.size < this.shardSize ? last : null;
+    let shardId = reopened ? reopened.id : this.nextShardId();
+    let current = reopened ? [...(await this.loadShard(reopened.id))] : [];
+    let size = reopened ? reopened.size : 0;
+    let centroids = reopened ? reopened.centroids : [];
+    let added: ChunkVector[] = [];
+    // A reopened shard that takes none of the chunks is left as it is
+    let changed = false;
+
+    for (const chunk of chunks) {
+      const chunkSize = estimateSize(chunk);
+      if (current.length > 0 && size + chunkSize > this.shardSize) {
+        if (changed) await this.writeShard(shardId, current, updateCentroids(centroids, added));
+        shardId = this.nextShardId();
+        current = [];
+        size = 0;
+        centroids = [];
+        added = [];
+      }
+      current.push(chunk);
+      size += chunkSize;
+      changed = true;
+      const vector = vectors.get(chunk.chunkId);
+      if (vector) added.push(vector);
+    }
+
+    await this.writeShard(shardId, current, updateCentroids(centroids, added));
+    await this.saveManifest();
+  }
+
+  private async rewriteDocument(documentId: string, update: (chunks: ShardChunk[]) => ShardChunk[]): Promise<void> {
+    if (!this.manifest) throw new Error('Storage not initialized');
+
+    const shards = this.manifest.shards.filter(shard => shard.documentIds.includes(documentId));
+    for (const shard of shards) {
+      const chunks = await this.loadShard(shard.id);
+      const others = chunks.filter(chunk => chunk.documentId !== documentId);
+      const own = chunks.filter(chunk => chunk.documentId === documentId);
+      // The embeddings are not in the shard, so its centroids are kept;
+      // chunks taken out only make them a little less tight
+      await this.writeShard(shard.id, [...others, ...update(own)], shard.centroids);
+    }
+    if (shards.length > 0) {
+      await this.saveManifest();
+    }
   }
 
-  private async loadShard(shardId: string): Promise<ArrayBuffer> {
+  // Save a shard and its summary; a shard left empty is deleted
+  private async writeShard(shardId: string, chunks: ShardChunk[], centroids: ShardCentroid[]): Promise<void> {
+    const shards = this.manifest!.shards.filter(shard => shard.id !== shardId);
+    this.cache.delete(shardId);
+
+    if (chunks.length === 0) {
+      await deleteShards([shardId]);
+      this.manifest!.shards = shards;
+      return;
+    }
+
+    const data = encodeShard(chunks);
+    await saveShard(shardId, data);
+    const info = summarizeShard(shardId, chunks, data, centroids);
+    const position = this.manifest!.shards.findIndex(shard => shard.id === shardId);
+    shards.splice(position === -1 ? shards.length : position, 0, info);
+    this.manifest!.shards = shards;
+    this.addToCache(shardId, chunks, data.byteLength);
+  }
+
+  private async loadShard(shardId: string): Promise<ShardChunk[]> {
     // Check cache first
     const cached = this.cache.get(shardId);
     if (cached) {
       cached.lastAccessed = Date.now();
-      return cached.data;
+      return cached.chunks;
     }
 
-    // Load from IndexedDB
-    const data = await this.loadFromIndexedDB(shardId);
-    if (data) return data;
-
-    // Fetch from remote source
-    const response = await fetch(`/api/shards/${shardId}`);
-    const buffer = await response.arrayBuffer();
-
-    // Update cache
-    await this.updateCache(shardId, buffer);
+    const info = this.manifest?.shards.find(shard => shard.id === shardId);
+    const data = await getShard(shardId);
+    if (!info || !data) {
+      console.warn(`Search index shard ${shardId} is missing`);
+      return [];
+    }
+    if (checksum(data) !== info.contentHash) {
+      console.warn(`Search index shard ${shardId} does not match its hash, skipping it`);
+      return [];
+    }
 
-    return buffer;
+    const chunks = decodeShard(data);
+    this.addToCache(shardId, chunks, data.byteLength);
+    return chunks;
   }
 
-  private async updateCache(shardId: string, data: ArrayBuffer) {
-    // Remove oldest entries if cache is full
-    while (this.getCacheSize() + data.byteLength > MAX_CACHE_SIZE) {
+  private addToCache(shardId: string, chunks: ShardChunk[], size: number) {
+    // Remove least recently used entries until the shard fits
+    while (this.cache.size > 0 && this.getCacheSize() + size > MAX_CACHE_SIZE) {
       const oldest = Array.from(this.cache.entries())
         .sort(([, a], [, b]) => a.lastAccessed - b.lastAccessed)[0];
-      if (oldest) {
-        this.cache.delete(oldest[0]);
-      }
+      this.cache.delete(oldest[0]);
     }
 
-    // Add to cache
-    this.cache.set(shardId, {
-      shardId,
-      data,
-      lastAccessed: Date.now()
-    });
-
-    // Store in IndexedDB for persistence
-    await this.saveToIndexedDB(shardId, data);
+    this.cache.set(shardId, { chunks, size, lastAccessed: Date.now() });
   }
 
   private getCacheSize(): number {
     return Array.from(this.cache.values())
-      .reduce((sum, cache) => sum + cache.data.byteLength, 0);
-  }
-
-  private async loadFromIndexedDB(shardId: string): Promise<ArrayBuffer | null> {
-    if (!this.db) return null;
-    
-    return new Promise((resolve, reject) => {
-      const transaction = this.db!.transaction(['shard_cache'], 'readonly');
-      const request = transaction.objectStore('shard_cache').get(shardId);
-      
-      request.onsuccess = () => resolve(request.result?.data || null);
-      request.onerror = () => reject(request.error);
-    });
+      .reduce((sum, cached) => sum + cached.size, 0);
   }
 
-  private async saveToIndexedDB(shardId: string, data: ArrayBuffer): Promise<void> {
-    if (!this.db) return;
+  private nextShardId(): string {
+    return `shard-${this.manifest!.nextShard++}`;
+  }
 
-    return new Promise((resolve, reject) => {
-      const transaction = this.db!.transaction(['shard_cache'], 'readwrite');
-      const request = transaction.objectStore('shard_cache').put({
-        id: shardId,
-        data,
-        timestamp: Date.now()
-      });
-      
-      request.onsuccess = () => resolve();
-      request.onerror = () => reject(request.error);
+  private async saveManifest() {
+    await saveMetadata(MANIFEST_KEY, this.manifest);
+  }
+
+  // The shards with a centroid nearest the embedding, comparing only
+  // centroids of the same model, or of the same length without one. Shards
+  // without such a centroid, e.g. written before the model was switched,
+  // cannot be ruled out and are included too.
+  private findNearestShards(embedding: Float32Array, model?: string): string[] {
+    if (!this.manifest) return [];
+
+    const scored = this.manifest.shards.map(shard => ({
+      id: shard.id,
+      similarity: Math.max(-Infinity, ...shard.centroids
+        .filter(centroid => (!model || centroid.model === model) && centroid.vector.length === embedding.length)
+        .map(centroid => cosineSimilarity(embedding, centroid.vector))),
+    }));
+    const nearest = scored
+      .filter(shard => shard.similarity > -Infinity)
+      .sort((a, b) => b.similarity - a.similarity)
+      .slice(0, NEAREST_SHARDS);
+    const unplaced = scored.filter(shard => shard.similarity === -Infinity);
+    return nearest.concat(unplaced).map(shard => shard.id);
+  }
+}
+
+function vectorsOf(chunks: DocumentChunk[]): Map<string, ChunkVector> {
+  const vectors = new Map<string, ChunkVector>();
+  for (const chunk of chunks) {
+    if (chunk.embedding && chunk.embeddingModel) {
+      vectors.set(chunk.id, { model: chunk.embeddingModel, vector: chunk.embedding });
+    }
+  }
+  return vectors;
+}
+
+function toShardChunk(document: ShardDocument, chunk: DocumentChunk): ShardChunk {
+  return {
+    chunkId: chunk.id,
+    documentId: document.id,
+    documentName: document.name,
+    documentType: document.type,
+    facets: documentFacets(document),
+    text: chunk.text,
+    metadata: chunk.metadata,
+  };
+}
+
+// Roughly what a chunk adds to an encoded shard
+function estimateSize(chunk: ShardChunk): number {
+  return chunk.text.length * 2 + 256;
+}
+
+// Lower-case words of letters and digits, including Devanagari, of at
+// least three characters
+export function tokenize(text: string): string[] {
+  return text
+    .toLowerCase()
+    .split(/[^a-z0-9\u0900-\u097f]+/)
+    .filter(term => term.length > 2);
+}
+
+function uniqueTerms(text: string): string[] {
+  return Array.from(new Set(tokenize(text)));
+}
+
+function summarizeShard(id: string, chunks: ShardChunk[], data: ArrayBuffer, centroids: ShardCentroid[]): ShardInfo {
+  const termCounts = new Map<string, number>();
+  for (const chunk of chunks) {
+    for (const term of tokenize(chunk.text)) {
+      termCounts.set(term, (termCounts.get(term) || 0) + 1);
+    }
+  }
+  const bloom = createBloomFilter(Array.from(termCounts.keys()));
+
+  const documentIds = Array.from(new Set(chunks.map(chunk => chunk.documentId))).sort();
+  return {
+    id,
+    size: data.byteLength,
+    chunkCount: chunks.length,
+    contentHash: checksum(data),
+    bloomFilter: bloom.bits,
+    bloomHashes: bloom.hashes,
+    centroids,
+    topTerms: Array.from(termCounts.entries())
+      .sort((a, b) => b[1] - a[1])
+      .slice(0, TOP_TERMS)
+      .map(([term]) => term),
+    documentIds,
+    documentRange: [documentIds[0], documentIds[documentIds.length - 1]],
+    lastModified: new Date().toISOString(),
+  };
+}
+
+// A bloom filter sized for the terms at the given false positive rate, with
+// the bits base64 encoded
+export function createBloomFilter(
+  terms: string[],
+  falsePositiveRate: number = BLOOM_FALSE_POSITIVE_RATE
+): { bits: string; hashes: number } {
+  const count = Math.max(terms.length, 1);
+  const bitCount = Math.max(64, Math.ceil((-count * Math.log(falsePositiveRate)) / (Math.LN2 * Math.LN2) / 8) * 8);
+  const hashes = Math.max(1, Math.round((bitCount / count) * Math.LN2));
+  const bytes = new Uint8Array(bitCount / 8);
+
+  for (const term of terms) {
+    for (const bit of bloomBits(term, hashes, bitCount)) {
+      bytes[bit >> 3] |= 1 << (bit & 7);
+    }
+  }
+
+  let binary = '';
+  for (let i = 0; i < bytes.length; i++) {
+    binary += String.fromCharCode(bytes[i]);
+  }
+  return { bits: btoa(binary), hashes };
+}
+
+// False when the term is certainly not in the filter
+export function bloomFilterContains(bits: string, hashes: number, term: string): boolean {
+  const binary = atob(bits);
+  return bloomBits(term, hashes, binary.length * 8)
+    .every(bit => (binary.charCodeAt(bit >> 3) & (1 << (bit & 7))) !== 0);
+}
+
+// Bit positions of a term, derived from two independent hashes
+function bloomBits(term: string, hashes: number, bitCount: number): number[] {
+  const first = fnv1a(term, 0x811c9dc5);
+  // Odd, so successive positions do not repeat early
+  const second = fnv1a(term, 0x9747b28c) | 1;
+  const bits: number[] = [];
+  for (let i = 0; i < hashes; i++) {
+    bits.push(((first + Math.imul(i, second)) >>> 0) % bitCount);
+  }
+  return bits;
+}
+
+function checksum(data: ArrayBuffer): string {
+  const bytes = new Uint8Array(data);
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < bytes.length; i++) {
+    hash ^= bytes[i];
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, '0');
+}
+
+function fnv1a(text: string, seed: number): number {
+  let hash = seed;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+// Centroids of a shard with new embeddings added. The old centroids count
+// as points standing for their chunks, so the embeddings of the chunks
+// already in the shard are not needed.
+function updateCentroids(centroids: ShardCentroid[], added: ChunkVector[]): ShardCentroid[] {
+  if (added.length === 0) return centroids;
+
+  // Embeddings of different models are not comparable
+  const models = Array.from(new Set(added.map(item => item.model)));
+  const updated = centroids.filter(centroid => !models.includes(centroid.model));
+  for (const model of models) {
+    const previous = centroids.filter(centroid => centroid.model === model);
+    const points = [
+      ...previous.map(centroid => centroid.vector),
+      ...added.filter(item => item.model === model).map(item => item.vector),
+    ];
+    const weights = [...previous.map(centroid => centroid.count), ...points.slice(previous.length).map(() => 1)];
+    const total = weights.reduce((sum, weight) => sum + weight, 0);
+    const vectors = kMeans(points, Math.min(MAX_CENTROIDS, Math.ceil(Math.sqrt(total / 2))), weights);
+
+    const counts = vectors.map(() => 0);
+    points.forEach((point, i) => {
+      counts[nearestCentroid(normalize(point), vectors)] += weights[i];
+    });
+    vectors.forEach((vector, c) => {
+      if (counts[c] > 0) updated.push({ model, vector, count: counts[c] });
     });
   }
+  return updated;
+}
 
-  private checkBloomFilter(filter: string, term: string): boolean {
-    // Simple bloom filter check implementation
-    const hash = this.simpleHash(term);
-    return filter.charAt(hash % filter.length) === '1';
+// Spherical k-means: clusters by cosine similarity, seeded with the points
+// farthest from the centroids picked so far. A point weighs as much as its
+// weight, one by default.
+export function kMeans(
+  vectors: ArrayLike<number>[],
+  k: number,
+  weights: number[] = vectors.map(() => 1),
+  iterations: number = KMEANS_ITERATIONS
+): number[][] {
+  const points = vectors.map(normalize);
+  if (points.length === 0) return [];
+
+  const centroids: number[][] = [points[0]];
+  while (centroids.length < Math.min(k, points.length)) {
+    let farthest = points[0];
+    let farthestSimilarity = Infinity;
+    for (const point of points) {
+      const similarity = Math.max(...centroids.map(centroid => dot(point, centroid)));
+      if (similarity < farthestSimilarity) {
+        farthest = point;
+        farthestSimilarity = similarity;
+      }
+    }
+    centroids.push(farthest);
   }
 
-  private simpleHash(str: string): number {
-    return str.split('').reduce((hash, char) => {
-      return ((hash << 5) - hash) + char.charCodeAt(0);
-    }, 0);
+  for (let iteration = 0; iteration < iterations; iteration++) {
+    const sums = centroids.map(centroid => new Array<number>(centroid.length).fill(0));
+    points.forEach((point, p) => {
+      const best = nearestCentroid(point, centroids);
+      for (let i = 0; i < point.length; i++) {
+        sums[best][i] += point[i] * weights[p];
+      }
+    });
+    // A centroid left without points stays where it was
+    sums.forEach((sum, c) => {
+      if (sum.some(value => value !== 0)) centroids[c] = normalize(sum);
+    });
   }
 
-  private findNearestCentroids(embedding: Float32Array, k: number): string[] {
-    if (!this.manifest) return [];
+  return centroids;
+}
 
-    return this.manifest.shards
-      .map(shard => ({
-        id: shard.id,
-        distance: this.cosineSimilarity(embedding, shard.centroids[0])
-      }))
-      .sort((a, b) => b.distance - a.distance)
-      .slice(0, k)
-      .map(result => result.id);
+function nearestCentroid(point: number[], centroids: number[][]): number {
+  let best = 0;
+  for (let c = 1; c < centroids.length; c++) {
+    if (dot(point, centroids[c]) > dot(point, centroids[best])) best = c;
   }
+  return best;
+}
+
+function normalize(vector: ArrayLike<number>): number[] {
+  const values = Array.from(vector);
+  const length = Math.sqrt(dot(values, values)) || 1;
+  return values.map(value => value / length);
+}
+
+function dot(a: ArrayLike<number>, b: ArrayLike<number>): number {
+  let sum = 0;
+  for (let i = 0; i < a.length; i++) {
+    sum += a[i] * b[i];
+  }
+  return sum;
+}
+
+interface ShardHeader {
+  documents: Array<[id: string, name: string, type: string, facets: DocumentFacets]>;
+  // Per chunk: id, document position, text and metadata
+  chunks: Array<[string, number, string, any]>;
+}
+
+// Layout: magic and JSON header length, then the JSON header. Embeddings
+// are kept by the vector store only.
+export function encodeShard(chunks: ShardChunk[]): ArrayBuffer {
+  const header: ShardHeader = { documents: [], chunks: [] };
+  const documentPositions = new Map<string, number>();
 
-  private cosineSimilarity(a: Float32Array | number[], b: number[]): number {
-    let dotProduct = 0;
-    let normA = 0;
-    let normB = 0;
-    
-    for (let i = 0; i < a.length; i++) {
-      dotProduct += a[i] * b[i];
-      normA += a[i] * a[i];
-      normB += b[i] * b[i];
+  for (const chunk of chunks) {
+    if (!documentPositions.has(chunk.documentId)) {
+      documentPositions.set(chunk.documentId, header.documents.length);
+      header.documents.push([chunk.documentId, chunk.documentName, chunk.documentType, chunk.facets]);
     }
-    
-    return dotProduct / (Math.sqrt(normA) * Math.sqrt(normB));
+    header.chunks.push([
+      chunk.chunkId,
+      documentPositions.get(chunk.documentId)!,
+      chunk.text,
+      chunk.metadata,
+    ]);
   }
+
+  const headerBytes = new TextEncoder().encode(JSON.stringify(header));
+  const buffer = new ArrayBuffer(HEADER_BYTES + headerBytes.length);
+  new Uint8Array(buffer).set(headerBytes, HEADER_BYTES);
+
+  const view = new DataView(buffer);
+  view.setUint32(0, MAGIC, true);
+  view.setUint32(4, headerBytes.length, true);
+  return buffer;
+}
+
+export function decodeShard(buffer: ArrayBuffer): ShardChunk[] {
+  const view = new DataView(buffer);
+  if (buffer.byteLength < HEADER_BYTES || view.getUint32(0, true) !== MAGIC) {
+    throw new Error('Not a search index shard');
+  }
+
+  const headerLength = view.getUint32(4, true);
+  const header: ShardHeader = JSON.parse(
+    new TextDecoder().decode(new Uint8Array(buffer, HEADER_BYTES, headerLength))
+  );
+
+  return header.chunks.map(([chunkId, document, text, metadata]) => {
+    const [documentId, documentName, documentType, facets] = header.documents[document];
+    return {
+      chunkId,
+      documentId,
+      documentName,
+      documentType,
+      facets,
+      text,
+      metadata,
+    };
+  });
 }
@@ -1,14 +1,30 @@
-import { Document, DocumentChunk } from '@/types';
+import {
+  Document,
+  DocumentChunk,
+  DocumentVersion,
+  IngestionJob,
+  QuantizedEmbedding,
+  StoredEmbedding,
+} from '@/types';
+import { LEGACY_EMBEDDING_MODEL } from './embeddingModels';
+import type { SerializedHnsw } from './hnsw';
+import type { VectorSnapshotRecord } from './vectorSnapshot';
 
 // IndexedDB database name and version
 const DB_NAME = 'document-search-engine';
-const DB_VERSION = 1;
+const DB_VERSION = 9;
 
 // Object store names
 const DOCUMENTS_STORE = 'documents';
 const CHUNKS_STORE = 'chunks';
 const EMBEDDINGS_STORE = 'embeddings';
 const METADATA_STORE = 'metadata';
+const INGESTION_JOBS_STORE = 'ingestion_jobs';
+const ORIGINALS_STORE = 'originals';
+const VERSIONS_STORE = 'versions';
+const ANN_INDEX_STORE = 'ann_index';
+const VECTOR_SNAPSHOT_STORE = 'vector_snapshot';
+const SHARD_CACHE_STORE = 'shard_cache';
 
 // Initialize the database
 export async function initializeDatabase(): Promise<IDBDatabase> {
@@ -27,6 +43,7 @@ export async function initializeDatabase(): Promise<IDBDatabase> {
     
     request.onupgradeneeded = (event) => {
       const db = (event.target as IDBOpenDBRequest).result;
+      const transaction = (event.target as IDBOpenDBRequest).transaction;
       
       // Create documents store
       if (!db.objectStoreNames.contains(DOCUMENTS_STORE)) {
@@ -36,6 +53,19 @@ export async function initializeDatabase(): Promise<IDBDatabase> {
         documentsStore.createIndex('source', 'source', { unique: false });
       }
       
+      // Version 2: look up documents by the hash of their file content
+      if (transaction) {
+        const documentsStore = transaction.objectStore(DOCUMENTS_STORE);
+        if (!documentsStore.indexNames.contains('contentHash')) {
+          documentsStore.createIndex('contentHash', 'metadata.contentHash', { unique: false });
+        }
+        
+        // Version 5: documents extracted from an archive
+        if (!documentsStore.indexNames.contains('parentId')) {
+          documentsStore.createIndex('parentId', 'parentId', { unique: false });
+        }
+      }
+      
       // Create chunks store
       if (!db.objectStoreNames.contains(CHUNKS_STORE)) {
         const chunksStore = db.createObjectStore(CHUNKS_STORE, { keyPath: 'id' });
@@ -52,6 +82,37 @@ export async function initializeDatabase(): Promise<IDBDatabase> {
       if (!db.objectStoreNames.contains(METADATA_STORE)) {
         db.createObjectStore(METADATA_STORE, { keyPath: 'key' });
       }
+      
+      // Version 3: unfinished ingestion jobs
+      if (!db.objectStoreNames.contains(INGESTION_JOBS_STORE)) {
+        db.createObjectStore(INGESTION_JOBS_STORE, { keyPath: 'id' });
+      }
+      
+      // Version 4: original files kept for re-processing
+      if (!db.objectStoreNames.contains(ORIGINALS_STORE)) {
+        db.createObjectStore(ORIGINALS_STORE, { keyPath: 'documentId' });
+      }
+      
+      // Version 6: earlier versions of documents
+      if (!db.objectStoreNames.contains(VERSIONS_STORE)) {
+        const versionsStore = db.createObjectStore(VERSIONS_STORE, { keyPath: 'id' });
+        versionsStore.createIndex('documentId', 'documentId', { unique: false });
+      }
+      
+      // Version 7: nearest-neighbour graphs over the embeddings, one per model
+      if (!db.objectStoreNames.contains(ANN_INDEX_STORE)) {
+        db.createObjectStore(ANN_INDEX_STORE, { keyPath: 'model' });
+      }
+      
+      // Version 8: the vector store as a snapshot and the changes since
+      if (!db.objectStoreNames.contains(VECTOR_SNAPSHOT_STORE)) {
+        db.createObjectStore(VECTOR_SNAPSHOT_STORE, { keyPath: 'seq', autoIncrement: true });
+      }
+      
+      // Version 9: shards of the search index
+      if (!db.objectStoreNames.contains(SHARD_CACHE_STORE)) {
+        db.createObjectStore(SHARD_CACHE_STORE, { keyPath: 'id' });
+      }
     };
   });
 }
@@ -156,12 +217,116 @@ export async function getAllDocuments(): Promise<Document[]> {
   });
 }
 
+// Find a document whose file content has the given hash
+export async function findDocumentByContentHash(contentHash: string): Promise<Document | null> {
+  const db = await initializeDatabase();
+  
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction([DOCUMENTS_STORE], 'readonly');
+    const hashIndex = transaction.objectStore(DOCUMENTS_STORE).index('contentHash');
+    
+    const request = hashIndex.get(contentHash);
+    
+    request.onsuccess = () => {
+      resolve(request.result || null);
+    };
+    
+    request.onerror = () => {
+      reject(new Error('Failed to look up document by content hash'));
+    };
+  });
+}
+
+// Find documents uploaded under the given file name
+export async function findDocumentsByName(name: string): Promise<Document[]> {
+  const db = await initializeDatabase();
+  
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction([DOCUMENTS_STORE], 'readonly');
+    const nameIndex = transaction.objectStore(DOCUMENTS_STORE).index('name');
+    
+    const request = nameIndex.getAll(name);
+    
+    request.onsuccess = () => {
+      resolve(request.result);
+    };
+    
+    request.onerror = () => {
+      reject(new Error('Failed to look up documents by name'));
+    };
+  });
+}
+
+// Find the documents extracted from an archive
+export async function findDocumentsByParent(parentId: string): Promise<Document[]> {
+  const db = await initializeDatabase();
+  
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction([DOCUMENTS_STORE], 'readonly');
+    const parentIndex = transaction.objectStore(DOCUMENTS_STORE).index('parentId');
+    
+    const request = parentIndex.getAll(parentId);
+    
+    request.onsuccess = () => {
+      resolve(request.result);
+    };
+    
+    request.onerror = () => {
+      reject(new Error('Failed to look up documents by archive'));
+    };
+  });
+}
+
+// Get every saved chunk in one read, whichever document it belongs to
+export async function getAllChunks(): Promise<DocumentChunk[]> {
+  const db = await initializeDatabase();
+  
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction([CHUNKS_STORE], 'readonly');
+    const request = transaction.objectStore(CHUNKS_STORE).getAll();
+    
+    request.onsuccess = () => {
+      resolve(request.result);
+    };
+    
+    request.onerror = () => {
+      reject(new Error('Failed to get chunks'));
+    };
+  });
+}
+
+// Delete individual chunks and their embeddings
+export async function deleteChunks(chunkIds: string[]): Promise<void> {
+  if (chunkIds.length === 0) return;
+  
+  const db = await initializeDatabase();
+  
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction([CHUNKS_STORE, EMBEDDINGS_STORE], 'readwrite');
+    const chunksStore = transaction.objectStore(CHUNKS_STORE);
+    const embeddingsStore = transaction.objectStore(EMBEDDINGS_STORE);
+    
+    for (const chunkId of chunkIds) {
+      chunksStore.delete(chunkId);
+      embeddingsStore.delete(chunkId);
+    }
+    
+    transaction.oncomplete = () => {
+      resolve();
+    };
+    
+    transaction.onerror = () => {
+      reject(new Error('Failed to delete chunks'));
+    };
+  });
+}
+
 // Delete a document and all associated chunks
 export async function deleteDocument(id: string): Promise<void> {
   const db = await initializeDatabase();
   
   return new Promise((resolve, reject) => {
-    const transaction = db.transaction([DOCUMENTS_STORE, CHUNKS_STORE, EMBEDDINGS_STORE], 'readwrite');
+    const transaction = db.transaction([DOCUMENTS_STORE, CHUNKS_STORE, EMBEDDINGS_STORE, ORIGINALS_STORE, VERSIONS_STORE], 'readwrite');
     
     transaction.onerror = (event) => {
       reject(new Error('Transaction failed'));
@@ -170,9 +335,15 @@ export async function deleteDocument(id: string): Promise<void> {
     const documentsStore = transaction.objectStore(DOCUMENTS_STORE);
     const chunksStore = transaction.objectStore(CHUNKS_STORE);
     const embeddingsStore = transaction.objectStore(EMBEDDINGS_STORE);
+    const versionsStore = transaction.objectStore(VERSIONS_STORE);
     
-    // Delete document
+    // Delete document, its original file and its earlier versions
     const documentRequest = documentsStore.delete(id);
+    transaction.objectStore(ORIGINALS_STORE).delete(id);
+    const versionsRequest = versionsStore.index('documentId').getAllKeys(id);
+    versionsRequest.onsuccess = () => {
+      versionsRequest.result.forEach(key => versionsStore.delete(key));
+    };
     
     documentRequest.onsuccess = () => {
       // Get all chunks for this document
@@ -214,8 +385,14 @@ export async function deleteDocument(id: string): Promise<void> {
   });
 }
 
-// Save an embedding for a chunk
-export async function saveEmbedding(chunkId: string, documentId: string, embedding: Float32Array): Promise<void> {
+// Save an embedding for a chunk, tagged with the model that computed it.
+// The typed array is stored as is, at 1 to 4 bytes per dimension.
+export async function saveEmbedding(
+  chunkId: string,
+  documentId: string,
+  embedding: QuantizedEmbedding,
+  model: string
+): Promise<void> {
   const db = await initializeDatabase();
   
   return new Promise((resolve, reject) => {
@@ -225,7 +402,11 @@ export async function saveEmbedding(chunkId: string, documentId: string, embeddi
     const request = embeddingsStore.put({
       chunkId,
       documentId,
-      embedding: Array.from(embedding), // Convert to regular array for storage
+      model,
+      dimensions: embedding.quantization === 'binary' ? embedding.dimensions : embedding.values.length,
+      quantization: embedding.quantization,
+      embedding: embedding.values,
+      scale: embedding.quantization === 'int8' ? embedding.scale : undefined,
     });
     
     request.onsuccess = () => {
@@ -238,8 +419,9 @@ export async function saveEmbedding(chunkId: string, documentId: string, embeddi
   });
 }
 
-// Get embedding for a chunk
-export async function getEmbedding(chunkId: string): Promise<Float32Array | null> {
+// Get embedding for a chunk. Embeddings saved before they were tagged
+// came from the legacy model, and were saved as plain arrays of floats.
+export async function getEmbedding(chunkId: string): Promise<StoredEmbedding | null> {
   const db = await initializeDatabase();
   
   return new Promise((resolve, reject) => {
@@ -250,7 +432,14 @@ export async function getEmbedding(chunkId: string): Promise<Float32Array | null
     
     request.onsuccess = () => {
       if (request.result) {
-        resolve(new Float32Array(request.result.embedding));
+        const embedding = storedToQuantized(request.result);
+        resolve({
+          chunkId,
+          documentId: request.result.documentId,
+          embedding,
+          model: request.result.model || LEGACY_EMBEDDING_MODEL,
+          dimensions: request.result.dimensions || request.result.embedding.length,
+        });
       } else {
         resolve(null);
       }
@@ -262,6 +451,60 @@ export async function getEmbedding(chunkId: string): Promise<Float32Array | null
   });
 }
 
+function storedToQuantized(record: any): QuantizedEmbedding {
+  switch (record.quantization) {
+    case 'int8':
+      return { quantization: 'int8', values: record.embedding, scale: record.scale };
+    case 'binary':
+      return { quantization: 'binary', values: record.embedding, dimensions: record.dimensions };
+    default:
+      return { quantization: 'float32', values: new Float32Array(record.embedding) };
+  }
+}
+
+// Get every stored embedding in one read
+export async function getAllEmbeddings(): Promise<StoredEmbedding[]> {
+  const db = await initializeDatabase();
+  
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction([EMBEDDINGS_STORE], 'readonly');
+    const embeddingsStore = transaction.objectStore(EMBEDDINGS_STORE);
+    
+    const request = embeddingsStore.getAll();
+    
+    request.onsuccess = () => {
+      resolve(request.result.map(record => ({
+        chunkId: record.chunkId,
+        documentId: record.documentId,
+        embedding: storedToQuantized(record),
+        model: record.model || LEGACY_EMBEDDING_MODEL,
+        dimensions: record.dimensions || record.embedding.length,
+      })));
+    };
+    
+    request.onerror = () => {
+      reject(new Error('Failed to get embeddings'));
+    };
+  });
+}
+
+export async function countEmbeddings(): Promise<number> {
+  const db = await initializeDatabase();
+  
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction([EMBEDDINGS_STORE], 'readonly');
+    const request = transaction.objectStore(EMBEDDINGS_STORE).count();
+    
+    request.onsuccess = () => {
+      resolve(request.result);
+    };
+    
+    request.onerror = () => {
+      reject(new Error('Failed to count embeddings'));
+    };
+  });
+}
+
 // Save metadata object
 export async function saveMetadata(key: string, value: any): Promise<void> {
   const db = await initializeDatabase();
@@ -309,3 +552,298 @@ export async function getMetadata(key: string): Promise<any | null> {
     };
   });
 }
+
+// Save an unfinished ingestion job, including its file
+export async function saveIngestionJob(job: IngestionJob): Promise<void> {
+  const db = await initializeDatabase();
+  
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction([INGESTION_JOBS_STORE], 'readwrite');
+    const jobsStore = transaction.objectStore(INGESTION_JOBS_STORE);
+    
+    const request = jobsStore.put(job);
+    
+    request.onsuccess = () => {
+      resolve();
+    };
+    
+    request.onerror = () => {
+      reject(new Error(`Failed to save ingestion job: ${job.id}`));
+    };
+  });
+}
+
+// Get all saved ingestion jobs
+export async function getIngestionJobs(): Promise<IngestionJob[]> {
+  const db = await initializeDatabase();
+  
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction([INGESTION_JOBS_STORE], 'readonly');
+    const jobsStore = transaction.objectStore(INGESTION_JOBS_STORE);
+    
+    const request = jobsStore.getAll();
+    
+    request.onsuccess = () => {
+      resolve(request.result);
+    };
+    
+    request.onerror = () => {
+      reject(new Error('Failed to get ingestion jobs'));
+    };
+  });
+}
+
+// Delete an ingestion job once it has finished
+export async function deleteIngestionJob(id: string): Promise<void> {
+  const db = await initializeDatabase();
+  
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction([INGESTION_JOBS_STORE], 'readwrite');
+    const jobsStore = transaction.objectStore(INGESTION_JOBS_STORE);
+    
+    const request = jobsStore.delete(id);
+    
+    request.onsuccess = () => {
+      resolve();
+    };
+    
+    request.onerror = () => {
+      reject(new Error(`Failed to delete ingestion job: ${id}`));
+    };
+  });
+}
+
+// Keep a document's original file so it can be processed again
+export async function saveOriginalFile(documentId: string, file: File): Promise<void> {
+  const db = await initializeDatabase();
+  
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction([ORIGINALS_STORE], 'readwrite');
+    const originalsStore = transaction.objectStore(ORIGINALS_STORE);
+    
+    const request = originalsStore.put({ documentId, file });
+    
+    request.onsuccess = () => {
+      resolve();
+    };
+    
+    request.onerror = () => {
+      reject(new Error(`Failed to save original file for document: ${documentId}`));
+    };
+  });
+}
+
+// Get a document's original file, if it was kept
+export async function getOriginalFile(documentId: string): Promise<File | null> {
+  const db = await initializeDatabase();
+  
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction([ORIGINALS_STORE], 'readonly');
+    const originalsStore = transaction.objectStore(ORIGINALS_STORE);
+    
+    const request = originalsStore.get(documentId);
+    
+    request.onsuccess = () => {
+      resolve(request.result ? request.result.file : null);
+    };
+    
+    request.onerror = () => {
+      reject(new Error(`Failed to get original file for document: ${documentId}`));
+    };
+  });
+}
+
+// Keep an earlier version of a document
+export async function saveDocumentVersion(version: DocumentVersion): Promise<void> {
+  const db = await initializeDatabase();
+  
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction([VERSIONS_STORE], 'readwrite');
+    const versionsStore = transaction.objectStore(VERSIONS_STORE);
+    
+    const request = versionsStore.put(version);
+    
+    request.onsuccess = () => {
+      resolve();
+    };
+    
+    request.onerror = () => {
+      reject(new Error(`Failed to save version ${version.version} of document: ${version.documentId}`));
+    };
+  });
+}
+
+// Get the earlier versions of a document, oldest first
+export async function getDocumentVersions(documentId: string): Promise<DocumentVersion[]> {
+  const db = await initializeDatabase();
+  
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction([VERSIONS_STORE], 'readonly');
+    const documentIndex = transaction.objectStore(VERSIONS_STORE).index('documentId');
+    
+    const request = documentIndex.getAll(documentId);
+    
+    request.onsuccess = () => {
+      const versions = request.result as DocumentVersion[];
+      resolve(versions.sort((a, b) => a.version - b.version));
+    };
+    
+    request.onerror = () => {
+      reject(new Error(`Failed to get versions of document: ${documentId}`));
+    };
+  });
+}
+
+// Save the nearest-neighbour graph over a model's embeddings
+export async function saveAnnIndex(model: string, index: SerializedHnsw): Promise<void> {
+  const db = await initializeDatabase();
+  
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction([ANN_INDEX_STORE], 'readwrite');
+    const annIndexStore = transaction.objectStore(ANN_INDEX_STORE);
+    
+    const request = annIndexStore.put({ model, ...index });
+    
+    request.onsuccess = () => {
+      resolve();
+    };
+    
+    request.onerror = () => {
+      reject(new Error(`Failed to save nearest-neighbour index for model: ${model}`));
+    };
+  });
+}
+
+// Get the nearest-neighbour graph over a model's embeddings
+export async function getAnnIndex(model: string): Promise<SerializedHnsw | null> {
+  const db = await initializeDatabase();
+  
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction([ANN_INDEX_STORE], 'readonly');
+    const annIndexStore = transaction.objectStore(ANN_INDEX_STORE);
+    
+    const request = annIndexStore.get(model);
+    
+    request.onsuccess = () => {
+      resolve(request.result || null);
+    };
+    
+    request.onerror = () => {
+      reject(new Error(`Failed to get nearest-neighbour index for model: ${model}`));
+    };
+  });
+}
+
+// Get the vector store snapshot and the changes since, oldest first
+export async function getVectorSnapshot(): Promise<VectorSnapshotRecord[]> {
+  const db = await initializeDatabase();
+  
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction([VECTOR_SNAPSHOT_STORE], 'readonly');
+    const request = transaction.objectStore(VECTOR_SNAPSHOT_STORE).getAll();
+    
+    request.onsuccess = () => {
+      resolve(request.result);
+    };
+    
+    request.onerror = () => {
+      reject(new Error('Failed to get vector snapshot'));
+    };
+  });
+}
+
+// Record a change to the vector store after its snapshot
+export async function appendVectorSnapshot(record: VectorSnapshotRecord): Promise<void> {
+  const db = await initializeDatabase();
+  
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction([VECTOR_SNAPSHOT_STORE], 'readwrite');
+    transaction.objectStore(VECTOR_SNAPSHOT_STORE).add(record);
+    
+    transaction.oncomplete = () => {
+      resolve();
+    };
+    
+    transaction.onerror = () => {
+      reject(new Error('Failed to save vector snapshot change'));
+    };
+  });
+}
+
+// Replace the snapshot and the changes recorded after it with a new snapshot
+export async function replaceVectorSnapshot(record: VectorSnapshotRecord): Promise<void> {
+  const db = await initializeDatabase();
+  
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction([VECTOR_SNAPSHOT_STORE], 'readwrite');
+    const snapshotStore = transaction.objectStore(VECTOR_SNAPSHOT_STORE);
+    snapshotStore.clear();
+    snapshotStore.add(record);
+    
+    transaction.oncomplete = () => {
+      resolve();
+    };
+    
+    transaction.onerror = () => {
+      reject(new Error('Failed to save vector snapshot'));
+    };
+  });
+}
+
+// Save a shard of the search index
+export async function saveShard(id: string, data: ArrayBuffer): Promise<void> {
+  const db = await initializeDatabase();
+  
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction([SHARD_CACHE_STORE], 'readwrite');
+    transaction.objectStore(SHARD_CACHE_STORE).put({ id, data, savedAt: new Date() });
+    
+    transaction.oncomplete = () => {
+      resolve();
+    };
+    
+    transaction.onerror = () => {
+      reject(new Error(`Failed to save shard: ${id}`));
+    };
+  });
+}
+
+// Get a shard of the search index
+export async function getShard(id: string): Promise<ArrayBuffer | null> {
+  const db = await initializeDatabase();
+  
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction([SHARD_CACHE_STORE], 'readonly');
+    const request = transaction.objectStore(SHARD_CACHE_STORE).get(id);
+    
+    request.onsuccess = () => {
+      resolve(request.result?.data || null);
+    };
+    
+    request.onerror = () => {
+      reject(new Error(`Failed to get shard: ${id}`));
+    };
+  });
+}
+
+// Delete shards of the search index
+export async function deleteShards(ids: string[]): Promise<void> {
+  if (ids.length === 0) return;
+  const db = await initializeDatabase();
+  
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction([SHARD_CACHE_STORE], 'readwrite');
+    const shardStore = transaction.objectStore(SHARD_CACHE_STORE);
+    for (const id of ids) {
+      shardStore.delete(id);
+    }
+    
+    transaction.oncomplete = () => {
+      resolve();
+    };
+    
+    transaction.onerror = () => {
+      reject(new Error('Failed to delete shards'));
+    };
+  });
+}
@@ -8,8 +8,12 @@ import {
   truncateText,
   extractContextAroundMatch,
   calculateMatchPercentage,
+  formatPageRange,
+  formatRowRange,
+  getConversation,
   cn
 } from './utils';
+import { Document } from '@/types';
 
 describe('Utils', () => {
   describe('formatBytes', () => {
@@ -141,6 +145,47 @@ describe('Utils', () => {
     });
   });
 
+  describe('formatPageRange', () => {
+    it('should format single pages and ranges', () => {
+      expect(formatPageRange(14)).toBe('Page 14');
+      expect(formatPageRange(14, 14)).toBe('Page 14');
+      expect(formatPageRange(14, 15)).toBe('Pages 14–15');
+      expect(formatPageRange(undefined)).toBe('');
+    });
+  });
+
+  describe('formatRowRange', () => {
+    it('should format single rows and ranges', () => {
+      expect(formatRowRange('Q4', 12)).toBe('Sheet Q4, row 12');
+      expect(formatRowRange('Q4', 12, 18)).toBe('Sheet Q4, rows 12–18');
+      expect(formatRowRange(undefined, 12, 18)).toBe('');
+    });
+  });
+
+  describe('getConversation', () => {
+    const message = (id: string, metadata: Document['metadata']): Document => ({
+      id,
+      name: `${id}.eml`,
+      type: 'eml',
+      size: 0,
+      sizeFormatted: '0 Bytes',
+      createdAt: new Date(),
+      content: { fullText: '', chunks: [] },
+      source: 'local',
+      metadata,
+    });
+
+    it('should group replies by message ids, oldest first', () => {
+      const first = message('a', { messageId: '<a@x>', date: '2024-03-11T09:00:00.000Z' });
+      const reply = message('b', { messageId: '<b@x>', inReplyTo: '<a@x>', date: '2024-03-12T09:00:00.000Z' });
+      const later = message('c', { messageId: '<c@x>', references: ['<a@x>', '<b@x>'], date: '2024-03-13T09:00:00.000Z' });
+      const other = message('d', { messageId: '<d@x>' });
+
+      expect(getConversation([later, other, first, reply], reply).map(doc => doc.id)).toEqual(['a', 'b', 'c']);
+      expect(getConversation([other], message('e', {}))).toEqual([]);
+    });
+  });
+
   describe('cn', () => {
     it('should combine class names', () => {
       expect(cn('class1', 'class2')).toBe('class1 class2');
@@ -1,5 +1,6 @@
 import { type ClassValue, clsx } from "clsx"
 import { twMerge } from "tailwind-merge"
+import { Document } from "@/types"
 
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs))
@@ -43,6 +44,9 @@ export function getFileTypeIcon(fileType: string): string {
     case 'zip':
     case 'rar':
       return 'folder_zip';
+    case 'eml':
+    case 'mbox':
+      return 'email';
     case 'jpg':
     case 'jpeg':
     case 'png':
@@ -115,7 +119,61 @@ export function extractContextAroundMatch(
   return excerpt;
 }
 
+export function formatPageRange(pageNumber?: number, pageEnd?: number): string {
+  if (!pageNumber) return '';
+  if (!pageEnd || pageEnd === pageNumber) return `Page ${pageNumber}`;
+  return `Pages ${pageNumber}–${pageEnd}`;
+}
+
+export function formatRowRange(sheetName?: string, rowStart?: number, rowEnd?: number): string {
+  if (!sheetName || !rowStart) return '';
+  if (!rowEnd || rowEnd === rowStart) return `Sheet ${sheetName}, row ${rowStart}`;
+  return `Sheet ${sheetName}, rows ${rowStart}–${rowEnd}`;
+}
+
+// The email messages in the same conversation as a message, oldest first.
+// Messages belong together when they share a Message-ID through their
+// In-Reply-To or References headers, directly or through other messages.
+export function getConversation(documents: Document[], message: Document): Document[] {
+  const idsOf = (doc: Document): string[] =>
+    [doc.metadata?.messageId, doc.metadata?.inReplyTo, ...(doc.metadata?.references || [])]
+      .filter((id): id is string => !!id);
+
+  const known = new Set(idsOf(message));
+  if (known.size === 0) return [];
+
+  const remaining = documents.filter(doc => idsOf(doc).length > 0);
+  const conversation: Document[] = [];
+  let grew = true;
+
+  while (grew) {
+    grew = false;
+    for (let i = remaining.length - 1; i >= 0; i--) {
+      const ids = idsOf(remaining[i]);
+      if (!ids.some(id => known.has(id))) continue;
+
+      ids.forEach(id => known.add(id));
+      conversation.push(remaining[i]);
+      remaining.splice(i, 1);
+      grew = true;
+    }
+  }
+
+  return conversation.sort((a, b) => (a.metadata.date || '').localeCompare(b.metadata.date || ''));
+}
+
 export function calculateMatchPercentage(score: number): number {
   // Assuming scores range from 0 to 1, where 1 is a perfect match
   return Math.round(score * 100);
 }
+
+// Throw the signal's abort reason if the operation was cancelled
+export function throwIfAborted(signal?: AbortSignal): void {
+  if (signal?.aborted) {
+    throw signal.reason ?? new DOMException('The operation was aborted', 'AbortError');
+  }
+}
+
+export function isAbortError(error: unknown): boolean {
+  return error instanceof DOMException && error.name === 'AbortError';
+}
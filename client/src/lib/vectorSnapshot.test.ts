@@ -0,0 +1,49 @@
+import { describe, it, expect } from 'vitest';
+import { decodeSnapshot, encodeSnapshot, replaySnapshot, VectorEntry } from './vectorSnapshot';
+import { quantize } from './quantization';
+
+const entry = (chunkId: string, documentId: string, embedding: number[], quantization = 'float32' as const): VectorEntry => ({
+  chunkId,
+  documentId,
+  documentName: `${documentId}.pdf`,
+  documentType: 'pdf',
+  facets: { type: 'pdf', source: 'local', author: 'Asha', createdAt: 1700000000000, tags: ['lease'] },
+  vector: quantize(new Float32Array(embedding), quantization),
+  model: 'Xenova/multilingual-e5-small',
+  metadata: { startIndex: 0, endIndex: 10, pageNumber: 2 },
+});
+
+describe('vector snapshot', () => {
+  const entries: VectorEntry[] = [
+    entry('chunk-1', 'doc-1', [0.5, -0.25, 0.125]),
+    { ...entry('chunk-2', 'doc-1', [1, -1, 0.5]), vector: quantize(new Float32Array([1, -1, 0.5]), 'int8') },
+    { ...entry('chunk-3', 'doc-2', [1, -1, 0.5, 2, -3]), vector: quantize(new Float32Array([1, -1, 0.5, 2, -3]), 'binary') },
+  ];
+
+  it('round-trips entries with every quantization', () => {
+    expect(decodeSnapshot(encodeSnapshot(entries))).toEqual(entries);
+  });
+
+  it('rejects snapshots that are corrupt or truncated', () => {
+    const buffer = encodeSnapshot(entries);
+    const corrupt = buffer.slice(0);
+    new Uint8Array(corrupt)[corrupt.byteLength - 1] ^= 0xff;
+
+    expect(() => decodeSnapshot(corrupt)).toThrow('checksum');
+    expect(() => decodeSnapshot(buffer.slice(0, buffer.byteLength - 4))).toThrow('truncated');
+    expect(() => decodeSnapshot(new ArrayBuffer(4))).toThrow('truncated');
+  });
+
+  it('replays changes recorded after the base snapshot', () => {
+    const replacement = entry('chunk-1', 'doc-1', [0, 1, 0]);
+    const replayed = replaySnapshot([
+      { kind: 'base', data: encodeSnapshot(entries) },
+      { kind: 'remove', chunkIds: ['chunk-3'] },
+      { kind: 'add', data: encodeSnapshot([replacement, entry('chunk-4', 'doc-3', [1, 0, 0])]) },
+    ]);
+
+    expect(Array.from(replayed.keys())).toEqual(['chunk-1', 'chunk-2', 'chunk-4']);
+    expect(replayed.get('chunk-1')).toEqual(replacement);
+    expect(() => replaySnapshot([{ kind: 'remove', chunkIds: [] }])).toThrow('no base');
+  });
+});
@@ -0,0 +1,181 @@
+import { EmbeddingQuantization, QuantizedEmbedding } from '@/types';
+import { DocumentFacets } from './searchFilters';
+
+// An embedding as held by the vector store
+export interface VectorEntry {
+  chunkId: string;
+  documentId: string;
+  documentName: string;
+  documentType: string;
+  // What searches can filter on, shared by all of a document's entries
+  facets: DocumentFacets;
+  vector: QuantizedEmbedding;
+  // Model the embedding was computed with; only embeddings from the active
+  // model are compared with queries
+  model: string;
+  metadata: any;
+}
+
+// The vector store is saved as a base snapshot followed by the changes
+// made since, in the order they were made. A snapshot of added or changed
+// entries uses the same encoding as the base.
+export type VectorSnapshotRecord =
+  | { seq?: number; kind: 'base' | 'add'; data: ArrayBuffer }
+  | { seq?: number; kind: 'remove'; chunkIds: string[] };
+
+// "VSS2"; snapshots from before document facets were kept are rebuilt
+const MAGIC = 0x32535356;
+const HEADER_BYTES = 16;
+const QUANTIZATIONS: EmbeddingQuantization[] = ['float32', 'int8', 'binary'];
+
+interface SnapshotHeader {
+  documents: Array<[id: string, name: string, type: string, facets: DocumentFacets]>;
+  models: string[];
+  // Per entry: chunk id, document and model positions, quantization
+  // position, dimensions, int8 scale, byte offset of the vector, metadata
+  entries: Array<[string, number, number, number, number, number, number, any]>;
+}
+
+// Layout: magic, JSON header length, total vector bytes and a checksum of
+// everything after these 16 bytes; then the JSON header, and the vectors,
+// each starting on a 4 byte boundary
+export function encodeSnapshot(entries: VectorEntry[]): ArrayBuffer {
+  const header: SnapshotHeader = { documents: [], models: [], entries: [] };
+  const documentPositions = new Map<string, number>();
+  const modelPositions = new Map<string, number>();
+  let vectorBytes = 0;
+
+  for (const entry of entries) {
+    if (!documentPositions.has(entry.documentId)) {
+      documentPositions.set(entry.documentId, header.documents.length);
+      header.documents.push([entry.documentId, entry.documentName, entry.documentType, entry.facets]);
+    }
+    if (!modelPositions.has(entry.model)) {
+      modelPositions.set(entry.model, header.models.length);
+      header.models.push(entry.model);
+    }
+
+    const { vector } = entry;
+    header.entries.push([
+      entry.chunkId,
+      documentPositions.get(entry.documentId)!,
+      modelPositions.get(entry.model)!,
+      QUANTIZATIONS.indexOf(vector.quantization),
+      vector.quantization === 'binary' ? vector.dimensions : vector.values.length,
+      vector.quantization === 'int8' ? vector.scale : 0,
+      vectorBytes,
+      entry.metadata,
+    ]);
+    vectorBytes += align(vector.values.byteLength);
+  }
+
+  const headerBytes = new TextEncoder().encode(JSON.stringify(header));
+  const vectorsStart = HEADER_BYTES + align(headerBytes.length);
+  const buffer = new ArrayBuffer(vectorsStart + vectorBytes);
+  const bytes = new Uint8Array(buffer);
+  bytes.set(headerBytes, HEADER_BYTES);
+
+  entries.forEach((entry, i) => {
+    const { values } = entry.vector;
+    bytes.set(new Uint8Array(values.buffer, values.byteOffset, values.byteLength), vectorsStart + header.entries[i][6]);
+  });
+
+  const view = new DataView(buffer);
+  view.setUint32(0, MAGIC, true);
+  view.setUint32(4, headerBytes.length, true);
+  view.setUint32(8, vectorBytes, true);
+  view.setUint32(12, checksum(bytes.subarray(HEADER_BYTES)), true);
+  return buffer;
+}
+
+// Throws if the snapshot is truncated or does not match its checksum
+export function decodeSnapshot(buffer: ArrayBuffer): VectorEntry[] {
+  if (buffer.byteLength < HEADER_BYTES) {
+    throw new Error('Vector snapshot is truncated');
+  }
+
+  const view = new DataView(buffer);
+  const headerLength = view.getUint32(4, true);
+  const vectorBytes = view.getUint32(8, true);
+  const vectorsStart = HEADER_BYTES + align(headerLength);
+  if (view.getUint32(0, true) !== MAGIC || buffer.byteLength !== vectorsStart + vectorBytes) {
+    throw new Error('Vector snapshot is truncated or not a snapshot');
+  }
+
+  const bytes = new Uint8Array(buffer);
+  if (checksum(bytes.subarray(HEADER_BYTES)) !== view.getUint32(12, true)) {
+    throw new Error('Vector snapshot does not match its checksum');
+  }
+
+  const header: SnapshotHeader = JSON.parse(
+    new TextDecoder().decode(bytes.subarray(HEADER_BYTES, HEADER_BYTES + headerLength))
+  );
+
+  return header.entries.map(([chunkId, document, model, quantization, dimensions, scale, offset, metadata]) => {
+    const [documentId, documentName, documentType, facets] = header.documents[document];
+    const start = vectorsStart + offset;
+    let vector: QuantizedEmbedding;
+
+    // Copied out, so an entry does not keep the whole snapshot in memory
+    switch (QUANTIZATIONS[quantization]) {
+      case 'int8':
+        vector = { quantization: 'int8', values: new Int8Array(buffer.slice(start, start + dimensions)), scale };
+        break;
+      case 'binary':
+        vector = {
+          quantization: 'binary',
+          values: new Uint8Array(buffer.slice(start, start + Math.ceil(dimensions / 8))),
+          dimensions,
+        };
+        break;
+      default:
+        vector = { quantization: 'float32', values: new Float32Array(buffer.slice(start, start + dimensions * 4)) };
+    }
+
+    return {
+      chunkId,
+      documentId,
+      documentName,
+      documentType,
+      facets,
+      vector,
+      model: header.models[model],
+      metadata,
+    };
+  });
+}
+
+// Replay a base snapshot and the changes after it
+export function replaySnapshot(records: VectorSnapshotRecord[]): Map<string, VectorEntry> {
+  if (records.length === 0 || records[0].kind !== 'base') {
+    throw new Error('Vector snapshot has no base');
+  }
+
+  const entries = new Map<string, VectorEntry>();
+  for (const record of records) {
+    if (record.kind === 'remove') {
+      for (const chunkId of record.chunkIds) {
+        entries.delete(chunkId);
+      }
+    } else {
+      for (const entry of decodeSnapshot(record.data)) {
+        entries.set(entry.chunkId, entry);
+      }
+    }
+  }
+  return entries;
+}
+
+function align(length: number): number {
+  return Math.ceil(length / 4) * 4;
+}
+
+// FNV-1a
+function checksum(bytes: Uint8Array): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < bytes.length; i++) {
+    hash ^= bytes[i];
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
@@ -1,17 +1,44 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest';
-import { initVectorStore, addToVectorStore, removeFromVectorStore, search } from './vectorStore';
+import {
+  initVectorStore,
+  addToVectorStore,
+  removeFromVectorStore,
+  removeChunksFromVectorStore,
+  restoreToVectorStore,
+  search,
+  getChunksEmbeddedWithOtherModels,
+  requantizeVectorStore,
+  getVectorStoreStats,
+  setAnnIndexParams,
+} from './vectorStore';
+import { setEmbeddingQuantization } from './quantization';
 import * as languageProcessing from './languageProcessing';
 import * as storage from './storage';
+import * as duckdb from './duckdb';
 
 // Mock the dependencies
 vi.mock('./languageProcessing', () => ({
   generateEmbeddings: vi.fn(),
+  generateEmbeddingBatch: vi.fn(),
 }));
 
 vi.mock('./storage', () => ({
   getAllDocuments: vi.fn(),
-  getEmbedding: vi.fn(),
+  getAllEmbeddings: vi.fn(),
+  countEmbeddings: vi.fn(),
+  deleteChunks: vi.fn(),
+  getVectorSnapshot: vi.fn(),
+  appendVectorSnapshot: vi.fn(),
+  replaceVectorSnapshot: vi.fn(),
   saveEmbedding: vi.fn(),
+  getMetadata: vi.fn(),
+  saveMetadata: vi.fn(),
+  getAnnIndex: vi.fn(),
+  saveAnnIndex: vi.fn(),
+}));
+
+vi.mock('./duckdb', () => ({
+  getShardManager: vi.fn(),
 }));
 
 describe('vectorStore', () => {
@@ -44,14 +71,77 @@ describe('vectorStore', () => {
     const mockEmbedding = new Float32Array([0.1, 0.2, 0.3]);
     
     vi.mocked(storage.getAllDocuments).mockResolvedValue(mockDocuments);
-    vi.mocked(storage.getEmbedding).mockResolvedValue(mockEmbedding);
+    vi.mocked(storage.getAllEmbeddings).mockResolvedValue([
+      {
+        chunkId: 'chunk-1',
+        documentId: 'doc-1',
+        embedding: { quantization: 'float32', values: mockEmbedding },
+        model: 'Xenova/multilingual-e5-small',
+        dimensions: 3,
+      },
+      {
+        chunkId: 'chunk-orphan',
+        documentId: 'doc-deleted',
+        embedding: { quantization: 'float32', values: mockEmbedding },
+        model: 'Xenova/multilingual-e5-small',
+        dimensions: 3,
+      },
+    ]);
+    vi.mocked(storage.getVectorSnapshot).mockResolvedValue([]);
     
     // Initialize the vector store
     await initVectorStore();
     
-    // Check if documents were retrieved
+    // Without a snapshot, the store is loaded from the documents and their
+    // embeddings, and a snapshot is written for the next start
     expect(storage.getAllDocuments).toHaveBeenCalled();
-    expect(storage.getEmbedding).toHaveBeenCalledWith('chunk-1');
+    expect(storage.getAllEmbeddings).toHaveBeenCalled();
+    expect(storage.deleteChunks).toHaveBeenCalledWith(['chunk-orphan']);
+    expect(storage.replaceVectorSnapshot).toHaveBeenCalledWith({ kind: 'base', data: expect.any(ArrayBuffer) });
+    expect(getVectorStoreStats().vectors).toBe(1);
+  });
+
+  it('starts from the snapshot and the changes recorded after it', async () => {
+    vi.mocked(storage.getVectorSnapshot).mockResolvedValue([]);
+    vi.mocked(storage.getAllDocuments).mockResolvedValue([]);
+    vi.mocked(storage.getAllEmbeddings).mockResolvedValue([]);
+    await initVectorStore();
+    vi.mocked(storage.getAllEmbeddings).mockClear();
+    
+    vi.mocked(languageProcessing.generateEmbeddings).mockResolvedValue(new Float32Array([0, 1, 0]));
+    const chunk = (id: string, embedding: number[]) => ({
+      id,
+      documentId: 'doc-4',
+      text: 'Survey report',
+      metadata: { startIndex: 0, endIndex: 13 },
+      embedding: new Float32Array(embedding),
+      embeddingModel: 'Xenova/multilingual-e5-small',
+    });
+    await addToVectorStore([chunk('chunk-x', [1, 0, 0]), chunk('chunk-y', [0, 1, 0])], 'Survey', 'pdf');
+    await removeChunksFromVectorStore(['chunk-x']);
+    
+    const records = [
+      ...vi.mocked(storage.replaceVectorSnapshot).mock.calls.map(([record]) => record),
+      ...vi.mocked(storage.appendVectorSnapshot).mock.calls.map(([record]) => record),
+    ];
+    expect(records.map(record => record.kind)).toEqual(['base', 'add', 'remove']);
+    
+    vi.mocked(storage.getVectorSnapshot).mockResolvedValue(records);
+    vi.mocked(storage.countEmbeddings).mockResolvedValue(1);
+    vi.mocked(storage.replaceVectorSnapshot).mockClear();
+    await initVectorStore();
+    
+    expect(storage.getAllEmbeddings).not.toHaveBeenCalled();
+    expect((await search('survey')).map(r => r.chunkId)).toEqual(['chunk-y']);
+    
+    // A snapshot that does not match storage is rebuilt from it
+    vi.mocked(storage.countEmbeddings).mockResolvedValue(5);
+    vi.mocked(storage.getAllDocuments).mockResolvedValue([]);
+    vi.mocked(storage.getAllEmbeddings).mockResolvedValue([]);
+    await initVectorStore();
+    expect(storage.getAllEmbeddings).toHaveBeenCalled();
+    expect(storage.replaceVectorSnapshot).toHaveBeenCalled();
+    expect(getVectorStoreStats().vectors).toBe(0);
   });
 
   it('adds document to vector store', async () => {
@@ -72,7 +162,12 @@ describe('vectorStore', () => {
     }], 'Test Document', 'pdf');
     
     // Check if embedding was saved
-    expect(storage.saveEmbedding).toHaveBeenCalledWith('chunk-1', 'doc-1', mockEmbedding);
+    expect(storage.saveEmbedding).toHaveBeenCalledWith(
+      'chunk-1',
+      'doc-1',
+      { quantization: 'float32', values: mockEmbedding },
+      'Xenova/multilingual-e5-small'
+    );
     
     // Now test the search functionality using the added document
     vi.mocked(languageProcessing.generateEmbeddings).mockResolvedValue(new Float32Array([0.1, 0.2, 0.3]));
@@ -83,6 +178,36 @@ describe('vectorStore', () => {
     expect(results).toEqual([]);
   });
 
+  it('embeds chunks that come without an embedding as passages', async () => {
+    vi.mocked(languageProcessing.generateEmbeddingBatch).mockResolvedValue([
+      new Float32Array([0, 1, 0]),
+      new Float32Array([0, 0, 1]),
+    ]);
+    
+    const chunk = (id: string) => ({
+      id,
+      documentId: 'doc-plain',
+      text: `Text of ${id}`,
+      metadata: { startIndex: 0, endIndex: 10 },
+    });
+    await addToVectorStore([chunk('plain-1'), chunk('plain-2')], 'Plain', 'txt');
+    
+    expect(languageProcessing.generateEmbeddingBatch).toHaveBeenCalledWith(
+      ['Text of plain-1', 'Text of plain-2'],
+      'Xenova/multilingual-e5-small',
+      'passage'
+    );
+    expect(languageProcessing.generateEmbeddings).not.toHaveBeenCalled();
+    expect(storage.saveEmbedding).toHaveBeenCalledWith(
+      'plain-2',
+      'doc-plain',
+      { quantization: 'float32', values: new Float32Array([0, 0, 1]) },
+      'Xenova/multilingual-e5-small'
+    );
+    
+    await removeFromVectorStore('doc-plain');
+  });
+
   it('removes document from vector store', async () => {
     // Setup initial state
     const mockEmbedding = new Float32Array([0.1, 0.2, 0.3]);
@@ -108,6 +233,181 @@ describe('vectorStore', () => {
     expect(results).toEqual([]);
   });
 
+  it('only compares queries with embeddings from the active model', async () => {
+    vi.mocked(languageProcessing.generateEmbeddings).mockResolvedValue(new Float32Array([1, 0, 0]));
+    
+    await addToVectorStore([
+      {
+        id: 'chunk-e5',
+        documentId: 'doc-2',
+        text: 'Tender notice',
+        metadata: { startIndex: 0, endIndex: 13 },
+        embedding: new Float32Array([1, 0, 0]),
+        embeddingModel: 'Xenova/multilingual-e5-small',
+      },
+      {
+        id: 'chunk-minilm',
+        documentId: 'doc-2',
+        text: 'Tender notice',
+        metadata: { startIndex: 0, endIndex: 13 },
+        embedding: new Float32Array([1, 0, 0]),
+        embeddingModel: 'Xenova/all-MiniLM-L6-v2',
+      },
+    ], 'Mixed Document', 'txt');
+    
+    const results = await search('tender');
+    expect(results.filter(r => r.documentId === 'doc-2').map(r => r.chunkId)).toEqual(['chunk-e5']);
+    expect(getChunksEmbeddedWithOtherModels('Xenova/multilingual-e5-small')).toEqual(['chunk-minilm']);
+    
+    await removeFromVectorStore('doc-2');
+  });
+
+  it('searches only the documents of the shards nearest the query', async () => {
+    vi.mocked(languageProcessing.generateEmbeddings).mockResolvedValue(new Float32Array([1, 0, 0]));
+    const chunk = (id: string, documentId: string, embedding: number[]) => ({
+      id,
+      documentId,
+      text: `Text of ${id}`,
+      metadata: { startIndex: 0, endIndex: 10 },
+      embedding: new Float32Array(embedding),
+      embeddingModel: 'Xenova/multilingual-e5-small',
+    });
+    await addToVectorStore([chunk('near-1', 'near', [1, 0, 0])], 'Near', 'txt');
+    await addToVectorStore([chunk('far-1', 'far', [0.9, 0.1, 0])], 'Far', 'txt');
+    await addToVectorStore([chunk('new-1', 'new', [0.8, 0.2, 0])], 'New', 'txt');
+
+    const shardManager = {
+      getShards: vi.fn().mockReturnValue([
+        { id: 'shard-1', documentIds: ['near'] },
+        { id: 'shard-2', documentIds: ['far'] },
+      ]),
+      getRelevantShards: vi.fn().mockResolvedValue(['shard-1']),
+    };
+    vi.mocked(duckdb.getShardManager).mockReturnValue(shardManager as any);
+
+    const results = await search('rent', 10);
+    // The new document is in no shard yet
+    expect(results.map(r => r.documentId).sort()).toEqual(['near', 'new']);
+    expect(shardManager.getRelevantShards).toHaveBeenCalledWith('', new Float32Array([1, 0, 0]), 'Xenova/multilingual-e5-small');
+
+    expect(await search('rent', 10, { documentIds: ['far'] })).toEqual([]);
+
+    for (const id of ['near', 'far', 'new']) {
+      await removeFromVectorStore(id);
+    }
+  });
+
+  it('stores quantized embeddings and converts existing ones to a lower precision', async () => {
+    vi.mocked(languageProcessing.generateEmbeddings).mockResolvedValue(new Float32Array([1, 0, 0, 0]));
+    const chunk = (id: string, embedding: number[]) => ({
+      id,
+      documentId: 'doc-3',
+      text: 'Lease renewal',
+      metadata: { startIndex: 0, endIndex: 13 },
+      embedding: new Float32Array(embedding),
+      embeddingModel: 'Xenova/multilingual-e5-small',
+    });
+
+    setEmbeddingQuantization('int8');
+    await addToVectorStore([chunk('chunk-a', [1, 0.1, 0, 0]), chunk('chunk-b', [0, 1, 0, 0])], 'Lease', 'txt');
+    expect(vi.mocked(storage.saveEmbedding).mock.calls[0][2].quantization).toBe('int8');
+    expect(getVectorStoreStats()).toMatchObject({ vectors: 2, storedBytes: 16, float32Bytes: 32 });
+
+    expect(await requantizeVectorStore('binary')).toBe(2);
+    expect(await requantizeVectorStore('int8')).toBe(0);
+    expect(getVectorStoreStats().storedBytes).toBe(2);
+
+    const results = await search('lease');
+    expect(results.map(r => r.chunkId)).toEqual(['chunk-a', 'chunk-b']);
+
+    setEmbeddingQuantization('float32');
+    await removeFromVectorStore('doc-3');
+  });
+
+  it('searches a nearest-neighbour graph that follows inserts and deletes', async () => {
+    // Directions spread around a circle, so every chunk has distinct neighbours
+    const chunks = Array.from({ length: 300 }, (_, i) => ({
+      id: `chunk-${i}`,
+      documentId: `doc-${i % 3 === 0 ? 'kept' : 'gone'}`,
+      text: `Chunk ${i}`,
+      metadata: { startIndex: 0, endIndex: 8 },
+      embedding: new Float32Array([Math.cos(i / 50), Math.sin(i / 50), 0.1]),
+      embeddingModel: 'Xenova/multilingual-e5-small',
+    }));
+    await addToVectorStore(chunks, 'Circle', 'txt');
+    await removeFromVectorStore('doc-gone');
+
+    vi.mocked(languageProcessing.generateEmbeddings).mockResolvedValue(new Float32Array([Math.cos(2.99), Math.sin(2.99), 0.1]));
+    const results = await search('near chunk 150', 3);
+    expect(results.map(r => r.chunkId)).toEqual(['chunk-150', 'chunk-147', 'chunk-153']);
+
+    await setAnnIndexParams({ M: 8, efConstruction: 50, efSearch: 32 });
+    expect(storage.saveMetadata).toHaveBeenCalledWith('annIndexParams', { M: 8, efConstruction: 50, efSearch: 32 });
+    expect((await search('near chunk 150', 3)).map(r => r.chunkId)).toEqual(['chunk-150', 'chunk-147', 'chunk-153']);
+
+    await removeFromVectorStore('doc-kept');
+  });
+
+  it('only returns chunks of documents matching the filters', async () => {
+    const chunk = (id: string, documentId: string, embedding: number[]) => ({
+      id,
+      documentId,
+      text: 'Tenancy',
+      metadata: { startIndex: 0, endIndex: 7 },
+      embedding: new Float32Array(embedding),
+      embeddingModel: 'Xenova/multilingual-e5-small',
+    });
+    await addToVectorStore([chunk('lease-1', 'doc-lease', [1, 0, 0])], 'Lease', 'pdf', {
+      type: 'pdf', source: 'local', author: 'Asha Rao', createdAt: Date.UTC(2023, 5, 1), tags: ['tenancy'],
+    });
+    await addToVectorStore([chunk('memo-1', 'doc-memo', [0.9, 0.1, 0])], 'Memo', 'txt', {
+      type: 'txt', source: 'google_drive', createdAt: Date.UTC(2024, 0, 10), tags: [],
+    });
+
+    vi.mocked(languageProcessing.generateEmbeddings).mockResolvedValue(new Float32Array([1, 0, 0]));
+    const found = async (filters: Parameters<typeof search>[2]) =>
+      (await search('lease', 10, filters)).map(r => r.chunkId);
+
+    expect(await found(undefined)).toEqual(['lease-1', 'memo-1']);
+    expect(await found({ documentTypes: ['txt'] })).toEqual(['memo-1']);
+    expect(await found({ sources: ['local'], authors: ['asha rao'] })).toEqual(['lease-1']);
+    expect(await found({ createdFrom: new Date(Date.UTC(2024, 0, 1)) })).toEqual(['memo-1']);
+    expect(await found({ tags: ['Tenancy'], documentIds: ['doc-memo'] })).toEqual([]);
+
+    // Chunks already indexed take on the document's new facets
+    vi.mocked(storage.appendVectorSnapshot).mockClear();
+    await addToVectorStore([chunk('lease-2', 'doc-lease', [0, 1, 0])], 'Lease', 'pdf', {
+      type: 'pdf', source: 'local', author: 'Asha Rao', tags: ['archived'],
+    });
+    expect(await found({ tags: ['archived'] })).toEqual(['lease-1', 'lease-2']);
+    expect(vi.mocked(storage.appendVectorSnapshot).mock.calls).toHaveLength(1);
+
+    await removeFromVectorStore('doc-lease');
+    await removeFromVectorStore('doc-memo');
+  });
+
+  it('puts removed chunks back when a deletion is undone', async () => {
+    await addToVectorStore([{
+      id: 'notice-1',
+      documentId: 'doc-notice',
+      text: 'Notice period',
+      metadata: { startIndex: 0, endIndex: 13 },
+      embedding: new Float32Array([0, 0, 1]),
+      embeddingModel: 'Xenova/multilingual-e5-small',
+    }], 'Notice', 'txt');
+    vi.mocked(languageProcessing.generateEmbeddings).mockResolvedValue(new Float32Array([0, 0, 1]));
+
+    const removed = await removeFromVectorStore('doc-notice');
+    expect(removed.map(entry => entry.chunkId)).toEqual(['notice-1']);
+    expect(await search('notice', 10, { documentIds: ['doc-notice'] })).toEqual([]);
+
+    await restoreToVectorStore(removed);
+    expect((await search('notice', 10, { documentIds: ['doc-notice'] })).map(r => r.chunkId)).toEqual(['notice-1']);
+    expect(storage.saveEmbedding).toHaveBeenCalledTimes(1);
+
+    await removeFromVectorStore('doc-notice');
+  });
+
   it('calculates cosine similarity correctly', async () => {
     // This is testing a private function through the interface of search
     // We'll test by looking at the ordering of results
@@ -1,106 +1,568 @@
-import { SearchResult, DocumentChunk } from '@/types';
-import { saveEmbedding, getEmbedding } from './storage';
-import { generateEmbeddings } from './languageProcessing';
-
-// Simple in-memory vector store - will be replaced with WASM-based implementation
-let vectorIndex: {
-  chunkId: string;
-  documentId: string;
-  documentName: string;
-  documentType: string;
-  embedding: Float32Array;
-  metadata: any;
-}[] = [];
+import { SearchResult, DocumentChunk, EmbeddingQuantization, QuantizedEmbedding, SearchFilters } from '@/types';
+import {
+  appendVectorSnapshot,
+  countEmbeddings,
+  deleteChunks,
+  getAllDocuments,
+  getAllEmbeddings,
+  getAnnIndex,
+  getMetadata,
+  getVectorSnapshot,
+  replaceVectorSnapshot,
+  saveAnnIndex,
+  saveEmbedding,
+  saveMetadata,
+} from './storage';
+import { generateEmbeddingBatch, generateEmbeddings } from './languageProcessing';
+import { getActiveEmbeddingModel } from './embeddingModels';
+import { getShardManager } from './duckdb';
+import {
+  RESCORE_FACTOR,
+  dequantize,
+  dimensionsOf,
+  getEmbeddingQuantization,
+  isLowerPrecision,
+  measureRecall,
+  queryScorer,
+  quantize,
+  rankQuantized,
+  rescore,
+  storedBytes,
+  vectorSimilarity,
+} from './quantization';
+import { DEFAULT_HNSW_PARAMS, HnswIndex, HnswParams } from './hnsw';
+import { encodeSnapshot, replaySnapshot, VectorEntry, VectorSnapshotRecord } from './vectorSnapshot';
+import { DocumentFacets, documentFacets, hasFilters, matchesFilters } from './searchFilters';
+
+// Float embeddings kept to estimate how quantization affects recall
+const RECALL_SAMPLE_KEY = 'embeddingSample';
+const RECALL_SAMPLE_SIZE = 256;
+
+// Metadata key the nearest-neighbour index parameters are kept under
+const ANN_PARAMS_KEY = 'annIndexParams';
+// Changes are saved once they pause for this long
+const ANN_SAVE_DELAY = 5000;
+// Chunks linked into a graph being built between yields to the UI
+const ANN_BUILD_BATCH = 500;
+
+// Changes recorded after the vector snapshot before it is written afresh
+const SNAPSHOT_COMPACT_AFTER = 50;
+
+// Filters matching at most this many chunks are searched exhaustively over
+// just those chunks; broader ones walk the graph and skip the rest, which
+// stays fast as long as matching chunks are common along the way
+const PREFILTER_MAX_CHUNKS = 2000;
+
+// Every indexed embedding, by chunk id
+let vectorIndex = new Map<string, VectorEntry>();
+// Chunk ids of each document, so filters are checked once per document
+let documentChunks = new Map<string, Set<string>>();
+let snapshotChanges = 0;
+
+// A nearest-neighbour graph per model, as embeddings from different models
+// are not comparable. A model whose graph is still being built is searched
+// exhaustively.
+const annIndexes = new Map<string, HnswIndex<QuantizedEmbedding>>();
+const buildingIndexes = new Set<string>();
+const saveTimers = new Map<string, ReturnType<typeof setTimeout>>();
+let annParams: HnswParams = { ...DEFAULT_HNSW_PARAMS };
+
+// A uniform sample of the float embeddings added with the active model
+let recallSample: { model: string; seen: number; vectors: Float32Array[] } | null = null;
+let recallEstimate: { key: string; recall: number | null } | null = null;
+
+export interface VectorStoreStats {
+  vectors: number;
+  storedBytes: number;
+  // What the same embeddings would take stored as float32
+  float32Bytes: number;
+  // Estimated share of the exact top 10 results that search returns with
+  // the current quantization, once enough embeddings have been sampled
+  recall: number | null;
+}
 
 export async function initVectorStore(): Promise<void> {
-  // This will be replaced with WASM version of hnswlib
   console.log('Initializing vector store');
   
-  // For now, just clear the in-memory index
-  vectorIndex = [];
+  vectorIndex = new Map();
+  documentChunks = new Map();
+  annIndexes.clear();
+  buildingIndexes.clear();
+  try {
+    recallSample = (await getMetadata(RECALL_SAMPLE_KEY)) || null;
+    annParams = { ...DEFAULT_HNSW_PARAMS, ...(await getMetadata(ANN_PARAMS_KEY)) };
+  } catch (error) {
+    console.warn('Failed to load vector store settings:', error);
+    recallSample = null;
+  }
   
-  // Load existing documents from storage
+  vectorIndex = await loadVectorIndex();
+  vectorIndex.forEach(addDocumentChunk);
   try {
-    const documents = await import('./storage').then(module => module.getAllDocuments());
-    
-    // Process each document and add to vector index
+    await restoreAnnIndexes();
+  } catch (error) {
+    console.error('Error initializing vector store:', error);
+  }
+}
+
+// Load the vector store from its snapshot in one read. A snapshot that is
+// corrupt, or that holds another number of embeddings than storage does,
+// e.g. after a crash between the two writes, is rebuilt from storage.
+async function loadVectorIndex(): Promise<Map<string, VectorEntry>> {
+  try {
+    const records = await getVectorSnapshot();
+    if (records.length > 0) {
+      const entries = replaySnapshot(records);
+      if (entries.size === (await countEmbeddings())) {
+        snapshotChanges = records.length - 1;
+        return entries;
+      }
+      console.warn('Vector snapshot is out of date, rebuilding it');
+    }
+  } catch (error) {
+    console.warn('Vector snapshot is unreadable, rebuilding it:', error);
+  }
+
+  const entries = new Map<string, VectorEntry>();
+  try {
+    const [documents, embeddings] = await Promise.all([getAllDocuments(), getAllEmbeddings()]);
+    const embeddingsByChunk = new Map(embeddings.map(stored => [stored.chunkId, stored] as const));
+
     for (const doc of documents) {
-      if (doc.content?.chunks) {
-        for (const chunk of doc.content.chunks) {
-          // Get embedding from storage if it exists
-          const embedding = await import('./storage').then(module => 
-            module.getEmbedding(chunk.id)
-          );
-          
-          if (embedding) {
-            vectorIndex.push({
-              chunkId: chunk.id,
-              documentId: doc.id,
-              documentName: doc.name,
-              documentType: doc.type,
-              embedding,
-              metadata: chunk.metadata,
-            });
-          }
+      const facets = documentFacets(doc);
+      for (const chunk of doc.content?.chunks || []) {
+        const stored = embeddingsByChunk.get(chunk.id);
+        if (stored) {
+          entries.set(chunk.id, {
+            chunkId: chunk.id,
+            documentId: doc.id,
+            documentName: doc.name,
+            documentType: doc.type,
+            facets,
+            vector: stored.embedding,
+            model: stored.model,
+            metadata: chunk.metadata,
+          });
+          embeddingsByChunk.delete(chunk.id);
         }
       }
     }
+
+    // Embeddings of chunks no document has would make every snapshot look
+    // out of date
+    if (embeddingsByChunk.size > 0) {
+      await deleteChunks(Array.from(embeddingsByChunk.keys()));
+    }
   } catch (error) {
-    console.error('Error initializing vector store:', error);
+    console.error('Error loading vector store from storage:', error);
+    return entries;
+  }
+
+  vectorIndex = entries;
+  await writeSnapshot();
+  return entries;
+}
+
+async function writeSnapshot(): Promise<void> {
+  try {
+    await replaceVectorSnapshot({ kind: 'base', data: encodeSnapshot(Array.from(vectorIndex.values())) });
+    snapshotChanges = 0;
+  } catch (error) {
+    console.warn('Failed to save vector snapshot:', error);
+  }
+}
+
+// Record a change after the snapshot, or write the snapshot afresh once
+// enough changes have piled up
+async function recordSnapshotChange(record: VectorSnapshotRecord): Promise<void> {
+  if (snapshotChanges >= SNAPSHOT_COMPACT_AFTER) {
+    await writeSnapshot();
+    return;
+  }
+
+  try {
+    await appendVectorSnapshot(record);
+    snapshotChanges++;
+  } catch (error) {
+    console.warn('Failed to save vector snapshot change:', error);
+  }
+}
+
+// Load the saved graph of every model with indexed embeddings, or build it
+// again if it is missing or out of step with the embeddings
+async function restoreAnnIndexes(): Promise<void> {
+  const models = new Set<string>();
+  vectorIndex.forEach(entry => models.add(entry.model));
+  
+  for (const model of Array.from(models)) {
+    let index: HnswIndex<QuantizedEmbedding> | null = null;
+    try {
+      const saved = await getAnnIndex(model);
+      if (saved && saved.params.M === annParams.M && saved.params.efConstruction === annParams.efConstruction) {
+        index = HnswIndex.deserialize(saved, id => vectorIndex.get(id)?.vector, vectorSimilarity);
+      }
+    } catch (error) {
+      console.warn(`Failed to load nearest-neighbour index for ${model}:`, error);
+    }
+    
+    if (!index) {
+      buildAnnIndex(model);
+      continue;
+    }
+    
+    // Link chunks embedded after the graph was last saved
+    annIndexes.set(model, index);
+    const missing = entriesOf(model).filter(entry => !index!.has(entry.chunkId));
+    for (const entry of missing) {
+      index.insert(entry.chunkId, entry.vector);
+    }
+    if (missing.length > 0) {
+      scheduleAnnIndexSave(model);
+    }
+  }
+}
+
+// Link all of a model's embeddings into a new graph, yielding to the UI
+// between batches. Chunks added or removed in the meantime go straight into
+// the new graph.
+async function buildAnnIndex(model: string): Promise<void> {
+  const index = new HnswIndex<QuantizedEmbedding>(vectorSimilarity, annParams);
+  annIndexes.set(model, index);
+  buildingIndexes.add(model);
+  
+  const entries = entriesOf(model);
+  for (let i = 0; i < entries.length; i++) {
+    if (i > 0 && i % ANN_BUILD_BATCH === 0) {
+      await new Promise(resolve => setTimeout(resolve, 0));
+      // Another build took over, e.g. after the parameters changed again
+      if (annIndexes.get(model) !== index) return;
+    }
+    
+    const entry = entries[i];
+    if (vectorIndex.get(entry.chunkId) === entry && !index.has(entry.chunkId)) {
+      index.insert(entry.chunkId, entry.vector);
+    }
+  }
+  
+  buildingIndexes.delete(model);
+  scheduleAnnIndexSave(model);
+}
+
+function scheduleAnnIndexSave(model: string) {
+  clearTimeout(saveTimers.get(model));
+  saveTimers.set(model, setTimeout(async () => {
+    saveTimers.delete(model);
+    const index = annIndexes.get(model);
+    if (!index || buildingIndexes.has(model)) return;
+    
+    try {
+      await saveAnnIndex(model, index.serialize());
+    } catch (error) {
+      console.warn(`Failed to save nearest-neighbour index for ${model}:`, error);
+    }
+  }, ANN_SAVE_DELAY));
+}
+
+function entriesOf(model: string): VectorEntry[] {
+  const entries: VectorEntry[] = [];
+  vectorIndex.forEach(entry => {
+    if (entry.model === model) entries.push(entry);
+  });
+  return entries;
+}
+
+function addDocumentChunk(entry: VectorEntry) {
+  let chunkIds = documentChunks.get(entry.documentId);
+  if (!chunkIds) {
+    chunkIds = new Set();
+    documentChunks.set(entry.documentId, chunkIds);
+  }
+  chunkIds.add(entry.chunkId);
+}
+
+function indexEntry(entry: VectorEntry) {
+  vectorIndex.set(entry.chunkId, entry);
+  addDocumentChunk(entry);
+  
+  let index = annIndexes.get(entry.model);
+  if (!index) {
+    index = new HnswIndex<QuantizedEmbedding>(vectorSimilarity, annParams);
+    annIndexes.set(entry.model, index);
+  }
+  index.insert(entry.chunkId, entry.vector);
+  scheduleAnnIndexSave(entry.model);
+}
+
+function unindexEntry(entry: VectorEntry) {
+  vectorIndex.delete(entry.chunkId);
+  const chunkIds = documentChunks.get(entry.documentId);
+  chunkIds?.delete(entry.chunkId);
+  if (chunkIds?.size === 0) {
+    documentChunks.delete(entry.documentId);
+  }
+  
+  const index = annIndexes.get(entry.model);
+  if (index) {
+    index.remove(entry.chunkId);
+    scheduleAnnIndexSave(entry.model);
+  }
+}
+
+export function getAnnIndexParams(): HnswParams {
+  return { ...annParams };
+}
+
+// efSearch applies to the next search. A new M or efConstruction rebuilds
+// the graphs in the background; until then searches are exhaustive.
+export async function setAnnIndexParams(params: Partial<HnswParams>): Promise<void> {
+  const previous = annParams;
+  annParams = { ...annParams, ...params };
+  await saveMetadata(ANN_PARAMS_KEY, annParams);
+  
+  annIndexes.forEach(index => index.setParams({ efSearch: annParams.efSearch }));
+  if (annParams.M !== previous.M || annParams.efConstruction !== previous.efConstruction) {
+    await Promise.all(Array.from(annIndexes.keys()).map(buildAnnIndex));
   }
 }
 
+// Facets are those of the chunks' document; the document's other chunks
+// take them on too, in case its metadata changed
 export async function addToVectorStore(
   chunks: DocumentChunk[],
   documentName: string,
-  documentType: string
+  documentType: string,
+  facets?: DocumentFacets
 ): Promise<void> {
+  // A chunk that is already indexed, e.g. with another model, is replaced
   for (const chunk of chunks) {
-    if (!chunk.embedding) {
-      // Generate embedding if not already present
-      chunk.embedding = await generateEmbeddings(chunk.text);
+    const existing = vectorIndex.get(chunk.id);
+    if (existing) {
+      unindexEntry(existing);
     }
+  }
+  const quantization = getEmbeddingQuantization();
+  const added: VectorEntry[] = facets && chunks.length > 0 ? updateDocumentFacets(chunks[0].documentId, facets) : [];
+  let sampled = false;
+  
+  // Embed chunks that come without an embedding, as passages
+  const activeModel = getActiveEmbeddingModel().id;
+  const unembedded = chunks.filter(chunk => !chunk.embedding);
+  const computed = new Map<string, Float32Array>();
+  if (unembedded.length > 0) {
+    const embeddings = await generateEmbeddingBatch(unembedded.map(chunk => chunk.text), activeModel, 'passage');
+    unembedded.forEach((chunk, i) => computed.set(chunk.id, embeddings[i]));
+  }
+  
+  for (const chunk of chunks) {
+    const embedding = chunk.embedding || computed.get(chunk.id)!;
+    const model = (chunk.embedding && chunk.embeddingModel) || activeModel;
+    const vector = quantize(embedding, quantization);
+    sampled = addToRecallSample(embedding, model) || sampled;
     
     // Store embedding in IndexedDB
-    await saveEmbedding(chunk.id, chunk.documentId, chunk.embedding);
+    await saveEmbedding(chunk.id, chunk.documentId, vector, model);
     
     // Add to in-memory index
-    vectorIndex.push({
+    const entry: VectorEntry = {
       chunkId: chunk.id,
       documentId: chunk.documentId,
       documentName,
       documentType,
-      embedding: chunk.embedding,
+      facets: facets || facetsOf(chunk.documentId) || { type: documentType, tags: [] },
+      vector,
+      model,
       metadata: chunk.metadata,
-    });
+    };
+    indexEntry(entry);
+    added.push(entry);
+  }
+
+  if (added.length > 0) {
+    await recordSnapshotChange({ kind: 'add', data: encodeSnapshot(added) });
+  }
+
+  if (sampled) {
+    try {
+      await saveMetadata(RECALL_SAMPLE_KEY, recallSample);
+    } catch (error) {
+      console.warn('Failed to save embedding sample:', error);
+    }
+  }
+}
+
+function facetsOf(documentId: string): DocumentFacets | undefined {
+  const chunkIds = documentChunks.get(documentId);
+  return chunkIds ? vectorIndex.get(Array.from(chunkIds)[0])!.facets : undefined;
+}
+
+// Give a document's indexed chunks new facets. Returns the entries that
+// changed.
+function updateDocumentFacets(documentId: string, facets: DocumentFacets): VectorEntry[] {
+  const changed: VectorEntry[] = [];
+  const serialized = JSON.stringify(facets);
+  documentChunks.get(documentId)?.forEach(chunkId => {
+    const entry = vectorIndex.get(chunkId)!;
+    if (JSON.stringify(entry.facets) !== serialized) {
+      entry.facets = facets;
+      changed.push(entry);
+    }
+  });
+  return changed;
+}
+
+// Keep a float embedding in the recall sample (reservoir sampling), so the
+// sample stays uniform however many chunks are added. Returns whether the
+// sample changed.
+function addToRecallSample(embedding: Float32Array, model: string): boolean {
+  if (model !== getActiveEmbeddingModel().id) return false;
+  if (!recallSample || recallSample.model !== model) {
+    recallSample = { model, seen: 0, vectors: [] };
+  }
+
+  recallSample.seen++;
+  if (recallSample.vectors.length < RECALL_SAMPLE_SIZE) {
+    recallSample.vectors.push(embedding.slice());
+    return true;
+  }
+  const slot = Math.floor(Math.random() * recallSample.seen);
+  if (slot < RECALL_SAMPLE_SIZE) {
+    recallSample.vectors[slot] = embedding.slice();
+    return true;
+  }
+  return false;
+}
+
+// Store embeddings at a lower precision after the setting changed. Those
+// already at a lower precision stay as they are until they are re-embedded;
+// converting them up would not bring back what was lost.
+export async function requantizeVectorStore(quantization: EmbeddingQuantization): Promise<number> {
+  const converted: VectorEntry[] = [];
+
+  for (const item of Array.from(vectorIndex.values())) {
+    if (!isLowerPrecision(quantization, item.vector.quantization)) continue;
+
+    const vector = quantize(dequantize(item.vector), quantization);
+    // The chunk may have been removed while earlier ones were saved
+    if (vectorIndex.get(item.chunkId) !== item) continue;
+    item.vector = vector;
+    annIndexes.get(item.model)?.updateVector(item.chunkId, vector);
+    await saveEmbedding(item.chunkId, item.documentId, vector, item.model);
+    converted.push(item);
+  }
+
+  if (converted.length > 0) {
+    await recordSnapshotChange({ kind: 'add', data: encodeSnapshot(converted) });
   }
+  return converted.length;
 }
 
-export async function removeFromVectorStore(documentId: string): Promise<void> {
+export function getVectorStoreStats(): VectorStoreStats {
+  const stats: VectorStoreStats = { vectors: vectorIndex.size, storedBytes: 0, float32Bytes: 0, recall: null };
+  vectorIndex.forEach(item => {
+    stats.storedBytes += storedBytes(item.vector);
+    stats.float32Bytes += dimensionsOf(item.vector) * 4;
+  });
+
+  // Measuring takes a moment, so it is redone only when the sample or the
+  // setting changes
+  const quantization = getEmbeddingQuantization();
+  if (recallSample && recallSample.model === getActiveEmbeddingModel().id) {
+    const key = `${quantization}:${recallSample.model}:${recallSample.seen}`;
+    if (recallEstimate?.key !== key) {
+      recallEstimate = { key, recall: measureRecall(recallSample.vectors, quantization) };
+    }
+    stats.recall = recallEstimate.recall;
+  }
+
+  return stats;
+}
+
+// Remove a document's chunks from the index. Returns the removed entries,
+// so that a deletion failing further on can put them back.
+export async function removeFromVectorStore(documentId: string): Promise<VectorEntry[]> {
   // Remove from in-memory index
-  vectorIndex = vectorIndex.filter(item => item.documentId !== documentId);
+  const removed = Array.from(documentChunks.get(documentId) || []).map(chunkId => vectorIndex.get(chunkId)!);
+  removed.forEach(unindexEntry);
+  if (removed.length > 0) {
+    await recordSnapshotChange({ kind: 'remove', chunkIds: removed.map(entry => entry.chunkId) });
+  }
   
   // Note: The IndexedDB embeddings will be cleaned up by the document deletion process
+  return removed;
+}
+
+// Index entries removed earlier again. Their embeddings are still saved, as
+// the document was not deleted from IndexedDB.
+export async function restoreToVectorStore(entries: VectorEntry[]): Promise<void> {
+  const restored = entries.filter(entry => !vectorIndex.has(entry.chunkId));
+  restored.forEach(indexEntry);
+  if (restored.length > 0) {
+    await recordSnapshotChange({ kind: 'add', data: encodeSnapshot(restored) });
+  }
+}
+
+// Remove individual chunks, e.g. those dropped when a document is re-indexed
+export async function removeChunksFromVectorStore(chunkIds: string[]): Promise<void> {
+  const removed: string[] = [];
+  for (const chunkId of chunkIds) {
+    const entry = vectorIndex.get(chunkId);
+    if (entry) {
+      unindexEntry(entry);
+      removed.push(chunkId);
+    }
+  }
+  if (removed.length > 0) {
+    await recordSnapshotChange({ kind: 'remove', chunkIds: removed });
+  }
+}
+
+// Chunk ids in the index, by document
+export function getIndexedChunks(): Map<string, string[]> {
+  const chunkIds = new Map<string, string[]>();
+  documentChunks.forEach((ids, documentId) => chunkIds.set(documentId, Array.from(ids)));
+  return chunkIds;
+}
+
+// Chunks whose embedding was computed with another model than the given one
+export function getChunksEmbeddedWithOtherModels(modelId: string): string[] {
+  const chunkIds: string[] = [];
+  vectorIndex.forEach(item => {
+    if (item.model !== modelId) chunkIds.push(item.chunkId);
+  });
+  return chunkIds;
+}
+
+// Float embeddings of indexed chunks from the active model, e.g. to tell
+// how alike search results are
+export function getChunkEmbeddings(chunkIds: string[]): Map<string, Float32Array> {
+  const model = getActiveEmbeddingModel().id;
+  const embeddings = new Map<string, Float32Array>();
+  for (const chunkId of chunkIds) {
+    const entry = vectorIndex.get(chunkId);
+    if (entry && entry.model === model) {
+      embeddings.set(chunkId, dequantize(entry.vector));
+    }
+  }
+  return embeddings;
 }
 
 export async function search(
   query: string,
-  limit: number = 10
+  limit: number = 10,
+  filters?: SearchFilters
 ): Promise<SearchResult[]> {
   try {
     console.log(`Vector search for: "${query}" (limit: ${limit})`);
     
     // Generate query embedding
-    const queryEmbedding = await generateEmbeddings(query);
+    const model = getActiveEmbeddingModel();
+    const queryEmbedding = await generateEmbeddings(query, model.id);
     
-    // Perform vector similarity search
-    const results = vectorIndex
-      .map(item => ({
-        ...item,
-        score: cosineSimilarity(queryEmbedding, item.embedding),
-      }))
-      .sort((a, b) => b.score - a.score)
-      .slice(0, limit);
+    // Perform vector similarity search. Vectors from different models are
+    // not comparable, so chunks not yet re-embedded are left out.
+    const routed = await routeByShards(model.id, queryEmbedding, filters);
+    if (routed === null) return [];
+    const results = findNearest(model.id, queryEmbedding, limit, routed);
     
     // Fetch text content for the results
     const searchResults: SearchResult[] = results.map(result => ({
@@ -121,28 +583,75 @@ export async function search(
   }
 }
 
-// Cosine similarity between two vectors
-function cosineSimilarity(a: Float32Array, b: Float32Array): number {
-  if (a.length !== b.length) {
-    throw new Error('Vectors must have the same dimensions');
+// Narrow the filters to the documents of the shards whose centroids are
+// nearest the query. Documents in no shard yet, e.g. while the shards are
+// built, are kept. Null when no document is left.
+async function routeByShards(
+  model: string,
+  query: Float32Array,
+  filters?: SearchFilters
+): Promise<SearchFilters | undefined | null> {
+  const manager = getShardManager();
+  const shards = manager?.getShards() || [];
+  if (shards.length === 0) return filters;
+
+  const relevant = new Set(await manager!.getRelevantShards('', query, model));
+  const skipped = new Set<string>();
+  shards.forEach(shard => {
+    if (!relevant.has(shard.id)) shard.documentIds.forEach(id => skipped.add(id));
+  });
+  // A document may span a relevant shard and a skipped one
+  shards.forEach(shard => {
+    if (relevant.has(shard.id)) shard.documentIds.forEach(id => skipped.delete(id));
+  });
+  if (skipped.size === 0) return filters;
+
+  const documentIds = (filters?.documentIds?.length ? filters.documentIds : Array.from(documentChunks.keys()))
+    .filter(id => !skipped.has(id));
+  return documentIds.length > 0 ? { ...filters, documentIds } : null;
+}
+
+// Pick candidates from the model's graph by quantized similarity and
+// re-score them against the float query
+function findNearest(model: string, query: Float32Array, limit: number, filters?: SearchFilters) {
+  const matching = hasFilters(filters) ? matchingEntries(model, filters) : null;
+  const index = annIndexes.get(model);
+  if (!index || buildingIndexes.has(model) || (matching && matching.length <= PREFILTER_MAX_CHUNKS)) {
+    return rankQuantized(
+      query,
+      (matching || entriesOf(model)).filter(item => dimensionsOf(item.vector) === query.length),
+      limit
+    );
   }
   
-  let dotProduct = 0;
-  let magnitudeA = 0;
-  let magnitudeB = 0;
-  
-  for (let i = 0; i < a.length; i++) {
-    dotProduct += a[i] * b[i];
-    magnitudeA += a[i] * a[i];
-    magnitudeB += b[i] * b[i];
+  const count = limit * RESCORE_FACTOR;
+  const score = queryScorer(query);
+  const accepted = matching && new Set(matching.map(entry => entry.chunkId));
+  const accept = accepted ? (id: string) => accepted.has(id) : undefined;
+  const candidates: VectorEntry[] = [];
+  for (const found of index.search(score, count, Math.max(annParams.efSearch, count), accept)) {
+    const entry = vectorIndex.get(found.id);
+    if (entry && dimensionsOf(entry.vector) === query.length) {
+      candidates.push(entry);
+    }
   }
-  
-  magnitudeA = Math.sqrt(magnitudeA);
-  magnitudeB = Math.sqrt(magnitudeB);
-  
-  if (magnitudeA === 0 || magnitudeB === 0) {
-    return 0;
+  return rescore(query, candidates, limit);
+}
+
+// A model's entries whose document matches the filters
+function matchingEntries(model: string, filters: SearchFilters): VectorEntry[] {
+  const entries: VectorEntry[] = [];
+  const documentIds = filters.documentIds?.length
+    ? filters.documentIds.filter(id => documentChunks.has(id))
+    : Array.from(documentChunks.keys());
+
+  for (const documentId of documentIds) {
+    if (!matchesFilters(documentId, facetsOf(documentId), filters)) continue;
+
+    for (const chunkId of Array.from(documentChunks.get(documentId)!)) {
+      const entry = vectorIndex.get(chunkId)!;
+      if (entry.model === model) entries.push(entry);
+    }
   }
-  
-  return dotProduct / (magnitudeA * magnitudeB);
+  return entries;
 }
@@ -0,0 +1,109 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { WorkerPool } from './workerPool';
+
+// A worker whose requests are answered by the test
+class FakeWorker extends EventTarget {
+  requests: Array<{ type: string; payload: any; requestId: string }> = [];
+  terminated = false;
+
+  postMessage(message: { type: string; payload: any; requestId: string }) {
+    this.requests.push(message);
+  }
+
+  terminate() {
+    this.terminated = true;
+  }
+
+  reply(type: string, payload: unknown, requestId = this.requests[this.requests.length - 1].requestId) {
+    this.dispatchEvent(new MessageEvent('message', { data: { type, payload, requestId } }));
+  }
+}
+
+function fakePool(size: number) {
+  const workers: FakeWorker[] = [];
+  const pool = new WorkerPool(() => {
+    const worker = new FakeWorker();
+    workers.push(worker);
+    return worker as unknown as Worker;
+  }, size);
+  return { pool, workers };
+}
+
+const flush = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+describe('WorkerPool', () => {
+  // The test setup's randomUUID is a constant; requests need distinct ids
+  beforeEach(() => {
+    let count = 0;
+    vi.spyOn(crypto, 'randomUUID').mockImplementation(
+      () => `request-${++count}` as ReturnType<typeof crypto.randomUUID>
+    );
+  });
+
+  it('runs one task per worker and queues the rest', async () => {
+    const { pool, workers } = fakePool(2);
+
+    const first = pool.run('PROCESS_DOCUMENT', 'a');
+    const second = pool.run('PROCESS_DOCUMENT', 'b');
+    const third = pool.run('PROCESS_DOCUMENT', 'c');
+
+    expect(workers).toHaveLength(2);
+    expect(workers.map((worker) => worker.requests.map((r) => r.payload))).toEqual([['a'], ['b']]);
+
+    workers[1].reply('PROCESSING_COMPLETE', 'B');
+    await expect(second).resolves.toBe('B');
+    expect(workers[1].requests.map((r) => r.payload)).toEqual(['b', 'c']);
+
+    workers[0].reply('PROCESSING_COMPLETE', 'A');
+    workers[1].reply('PROCESSING_COMPLETE', 'C');
+    await expect(Promise.all([first, third])).resolves.toEqual(['A', 'C']);
+  });
+
+  it('reports progress and errors for a task', async () => {
+    const { pool, workers } = fakePool(1);
+    const onProgress = vi.fn();
+
+    const task = pool.run('PROCESS_DOCUMENT', 'a', { onProgress });
+    workers[0].reply('PROCESSING_PROGRESS', 1);
+    workers[0].reply('PROCESSING_PROGRESS', 2);
+    workers[0].reply('PROCESSING_ERROR', 'Model failed to load');
+
+    expect(onProgress.mock.calls).toEqual([[1], [2]]);
+    await expect(task).rejects.toThrow('Model failed to load');
+  });
+
+  it('rejects aborted tasks and keeps a busy worker until it replies', async () => {
+    const { pool, workers } = fakePool(1);
+    const controller = new AbortController();
+
+    const running = pool.run('PROCESS_DOCUMENT', 'a', { signal: controller.signal });
+    const queued = pool.run('PROCESS_DOCUMENT', 'b', { signal: controller.signal });
+    const next = pool.run('PROCESS_DOCUMENT', 'c');
+    controller.abort();
+
+    await expect(running).rejects.toBeDefined();
+    await expect(queued).rejects.toBeDefined();
+    expect(workers[0].requests.map((r) => r.payload)).toEqual(['a']);
+
+    workers[0].reply('PROCESSING_COMPLETE', 'A');
+    expect(workers[0].requests.map((r) => r.payload)).toEqual(['a', 'c']);
+    workers[0].reply('PROCESSING_COMPLETE', 'C');
+    await expect(next).resolves.toBe('C');
+  });
+
+  it('replaces a worker that crashes', async () => {
+    const { pool, workers } = fakePool(1);
+
+    const task = pool.run('PROCESS_DOCUMENT', 'a');
+    const queued = pool.run('PROCESS_DOCUMENT', 'b');
+    workers[0].dispatchEvent(new ErrorEvent('error', { message: 'Out of memory' }));
+
+    await expect(task).rejects.toThrow('Out of memory');
+    expect(workers[0].terminated).toBe(true);
+    await flush();
+    expect(workers[1].requests.map((r) => r.payload)).toEqual(['b']);
+
+    workers[1].reply('PROCESSING_COMPLETE', 'B');
+    await expect(queued).resolves.toBe('B');
+  });
+});
@@ -0,0 +1,150 @@
+import { throwIfAborted } from './utils';
+
+// Messages a pool worker posts back for a request. Progress may be sent any
+// number of times before the request completes or fails.
+export type WorkerReply =
+  | { type: 'PROCESSING_PROGRESS'; requestId: string; payload: unknown }
+  | { type: 'PROCESSING_COMPLETE'; requestId: string; payload: unknown }
+  | { type: 'PROCESSING_ERROR'; requestId: string; payload: string };
+
+export interface WorkerTaskOptions {
+  // Rejects the task; a task that already started finishes in its worker,
+  // but its reply is ignored
+  signal?: AbortSignal;
+  onProgress?: (payload: any) => void;
+  // Buffers to move to the worker instead of copying them
+  transfer?: Transferable[];
+}
+
+interface Task {
+  requestId: string;
+  message: { type: string; payload: unknown };
+  options: WorkerTaskOptions;
+  resolve: (payload: any) => void;
+  reject: (error: unknown) => void;
+  settled: boolean;
+}
+
+interface PoolWorker {
+  worker: Worker;
+  task: Task | null;
+}
+
+// Runs tasks on a fixed number of workers, one task per worker at a time.
+// Workers are started when first needed; tasks wait in order for a free one.
+export class WorkerPool {
+  private workers: PoolWorker[] = [];
+  private queue: Task[] = [];
+  private size: number;
+  private createWorker: () => Worker;
+
+  constructor(createWorker: () => Worker, size: number) {
+    this.createWorker = createWorker;
+    this.size = Math.max(1, Math.floor(size));
+  }
+
+  getSize(): number {
+    return this.size;
+  }
+
+  run<T>(type: string, payload: unknown, options: WorkerTaskOptions = {}): Promise<T> {
+    throwIfAborted(options.signal);
+
+    return new Promise<T>((resolve, reject) => {
+      const task: Task = {
+        requestId: crypto.randomUUID(),
+        message: { type, payload },
+        options,
+        resolve,
+        reject,
+        settled: false,
+      };
+
+      options.signal?.addEventListener('abort', () => {
+        this.queue = this.queue.filter(queued => queued !== task);
+        this.settle(task, () => reject(options.signal?.reason));
+      });
+
+      this.queue.push(task);
+      this.pump();
+    });
+  }
+
+  // Stop all workers; unfinished tasks are rejected
+  terminate() {
+    for (const entry of this.workers) {
+      entry.worker.terminate();
+      if (entry.task) {
+        const task = entry.task;
+        this.settle(task, () => task.reject(new Error('Worker pool was terminated')));
+      }
+    }
+    for (const task of this.queue) {
+      this.settle(task, () => task.reject(new Error('Worker pool was terminated')));
+    }
+    this.workers = [];
+    this.queue = [];
+  }
+
+  // Hand queued tasks to idle workers, starting workers up to the pool size
+  private pump() {
+    while (this.queue.length > 0) {
+      let entry = this.workers.find(candidate => !candidate.task);
+      if (!entry) {
+        if (this.workers.length >= this.size) return;
+        entry = this.spawn();
+      }
+
+      const task = this.queue.shift()!;
+      entry.task = task;
+      entry.worker.postMessage(
+        { ...task.message, requestId: task.requestId },
+        task.options.transfer || []
+      );
+    }
+  }
+
+  private spawn(): PoolWorker {
+    const entry: PoolWorker = { worker: this.createWorker(), task: null };
+
+    entry.worker.addEventListener('message', (e: MessageEvent<WorkerReply>) => {
+      const task = entry.task;
+      if (!task || e.data.requestId !== task.requestId) return;
+
+      if (e.data.type === 'PROCESSING_PROGRESS') {
+        if (!task.settled) task.options.onProgress?.(e.data.payload);
+        return;
+      }
+
+      entry.task = null;
+      const reply = e.data;
+      this.settle(task, () =>
+        reply.type === 'PROCESSING_COMPLETE'
+          ? task.resolve(reply.payload)
+          : task.reject(new Error(reply.payload))
+      );
+      this.pump();
+    });
+
+    // An uncaught error leaves the worker in an unknown state, so it is
+    // replaced by a new one
+    entry.worker.addEventListener('error', (error: ErrorEvent) => {
+      const task = entry.task;
+      entry.worker.terminate();
+      this.workers = this.workers.filter(candidate => candidate !== entry);
+      if (task) {
+        this.settle(task, () => task.reject(new Error(error.message || 'Worker failed')));
+      }
+      this.pump();
+    });
+
+    this.workers.push(entry);
+    return entry;
+  }
+
+  private settle(task: Task, settle: () => void) {
+    if (task.settled) return;
+    task.settled = true;
+    settle();
+  }
+}
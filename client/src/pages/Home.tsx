@@ -2,12 +2,16 @@ import { useEffect, useState } from 'react';
 import { initDuckDB } from '@/lib/duckdb';
 import { initVectorStore } from '@/lib/vectorStore';
 import { initializeDatabase } from '@/lib/storage';
+import { ingestionQueue } from '@/lib/ingestion';
+import { restoreDataTables } from '@/lib/documentProcessing';
+import { loadEmbeddingSettings, migrateEmbeddings } from '@/lib/embeddingMigration';
 import DocumentSidebar from '@/components/DocumentSidebar';
 import SearchBar from '@/components/SearchBar';
 import SearchResults from '@/components/SearchResults';
 import DocumentViewer from '@/components/DocumentViewer';
 import UploadModal from '@/components/UploadModal';
 import ProcessingStatus from '@/components/ProcessingStatus';
+import SettingsPanel from '@/components/SettingsPanel';
 import { useDocumentStore } from '@/hooks/useDocumentStore';
 import { useSearchStore } from '@/hooks/useSearchStore';
 
@@ -15,6 +19,7 @@ export default function Home() {
   const [isInitialized, setIsInitialized] = useState(false);
   const [showUploadModal, setShowUploadModal] = useState(false);
   const [showProcessingStatus, setShowProcessingStatus] = useState(false);
+  const [showSettings, setShowSettings] = useState(false);
   
   const { documents, selectedDocument, processingStatus } = useDocumentStore();
   const { isLoading, hasResults } = useSearchStore();
@@ -23,12 +28,23 @@ export default function Home() {
   useEffect(() => {
     async function initialize() {
       try {
+        await loadEmbeddingSettings();
         await Promise.all([
           initializeDatabase(),
           initDuckDB(),
           initVectorStore(),
         ]);
         setIsInitialized(true);
+        
+        // Re-embed chunks left on another model, e.g. by an earlier switch
+        migrateEmbeddings();
+        
+        // DuckDB runs in memory, so load the data tables of spreadsheets and
+        // CSV files again from their original files
+        restoreDataTables().catch(error => console.error('Failed to load data tables:', error));
+        
+        // Resume uploads left unfinished by the previous page load
+        await ingestionQueue.restore();
       } catch (error) {
         console.error('Failed to initialize application:', error);
       }
@@ -41,7 +57,10 @@ export default function Home() {
   useEffect(() => {
     if (processingStatus.overall > 0 && processingStatus.overall < 100) {
       setShowProcessingStatus(true);
-    } else if (processingStatus.overall === 100) {
+    } else if (
+      processingStatus.overall === 100 &&
+      !processingStatus.files.some(file => file.status === 'failed')
+    ) {
       // Hide after a short delay
       const timer = setTimeout(() => {
         setShowProcessingStatus(false);
@@ -64,7 +83,10 @@ export default function Home() {
             <button className="p-2 rounded-full hover:bg-neutral-100">
               <span className="material-icons">dark_mode</span>
             </button>
-            <button className="p-2 rounded-full hover:bg-neutral-100">
+            <button 
+              onClick={() => setShowSettings(true)}
+              className="p-2 rounded-full hover:bg-neutral-100"
+            >
               <span className="material-icons">settings</span>
             </button>
             <button className="p-2 rounded-full hover:bg-neutral-100">
@@ -108,6 +130,10 @@ export default function Home() {
           onClose={() => setShowProcessingStatus(false)} 
         />
       )}
+      
+      {showSettings && (
+        <SettingsPanel onClose={() => setShowSettings(false)} />
+      )}
     </div>
   );
 }
@@ -9,6 +9,7 @@ import * as documentProcessing from '@/lib/documentProcessing';
 import * as languageProcessing from '@/lib/languageProcessing';
 import { useDocumentStore } from '@/hooks/useDocumentStore';
 import { useSearchStore } from '@/hooks/useSearchStore';
+import { Document } from '@/types';
 
 // Mock all external dependencies
 vi.mock('@/lib/duckdb', () => ({
@@ -25,6 +26,7 @@ vi.mock('@/lib/vectorStore', () => ({
   addToVectorStore: vi.fn(),
   removeFromVectorStore: vi.fn(),
   search: vi.fn().mockResolvedValue([]),
+  getVectorStoreStats: vi.fn(),
 }));
 
 vi.mock('@/lib/storage', () => ({
@@ -49,6 +51,12 @@ vi.mock('@/lib/languageProcessing', () => ({
 describe('End-to-end Document Search Flow', () => {
   beforeEach(() => {
     vi.resetAllMocks();
+    vi.mocked(vectorStore.getVectorStoreStats).mockReturnValue({
+      vectors: 0,
+      storedBytes: 0,
+      float32Bytes: 0,
+      recall: null,
+    });
     
     // Reset stores
     useDocumentStore.setState({
@@ -78,15 +86,21 @@ describe('End-to-end Document Search Flow', () => {
 
   it('completes full search flow: upload → process → search → view results', async () => {
     // Mock the document processing to return a document
-    vi.mocked(documentProcessing.processFile).mockImplementation(async (file, fileId, updateCallback) => {
+    vi.mocked(documentProcessing.processFile).mockImplementation(async (file, onProgress) => {
       // Simulate progress updates
-      updateCallback(fileId, { progress: 25, status: 'processing' });
-      updateCallback(fileId, { progress: 50, status: 'processing' });
-      updateCallback(fileId, { progress: 75, status: 'processing' });
-      updateCallback(fileId, { progress: 100, status: 'complete' });
+      onProgress(25);
+      onProgress(50);
+      onProgress(75);
+      onProgress(100);
       
       // Return a processed document
-      return {
+      const chunks = [{
+        id: 'chunk-1',
+        documentId: 'doc-1',
+        text: 'This is a test document content.',
+        metadata: { pageNumber: 1, startIndex: 0, endIndex: 31 }
+      }];
+      const document: Document = {
         id: 'doc-1',
         name: file.name,
         type: 'pdf',
@@ -96,18 +110,14 @@ describe('End-to-end Document Search Flow', () => {
         source: 'local',
         content: {
           fullText: 'This is a test document content.',
-          chunks: [{
-            id: 'chunk-1',
-            documentId: 'doc-1',
-            text: 'This is a test document content.',
-            metadata: { pageNumber: 1, startIndex: 0, endIndex: 31 }
-          }]
+          chunks,
         },
         metadata: {
           pageCount: 1,
           author: 'Test User',
         }
       };
+      return { document, status: 'indexed', addedChunks: chunks, removedChunkIds: [] };
     });
     
     // Mock the search to return results
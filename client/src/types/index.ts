@@ -8,6 +8,26 @@ export interface Document {
   content: DocumentContent;
   source: 'local' | 'google_drive';
   metadata: DocumentMetadata;
+  // Archive the document was extracted from, and its path inside it
+  parentId?: string;
+  archivePath?: string;
+  // Position in the document's version history, counting from 1
+  version?: number;
+}
+
+// An earlier version of a document, kept when a new version replaces it.
+// Only its text is kept; it is not indexed for search.
+export interface DocumentVersion {
+  id: string;
+  documentId: string;
+  version: number;
+  name: string;
+  size: number;
+  sizeFormatted: string;
+  // When this version was indexed
+  indexedAt: Date;
+  fullText: string;
+  metadata: DocumentMetadata;
 }
 
 export interface DocumentMetadata {
@@ -17,23 +37,138 @@ export interface DocumentMetadata {
   pageCount?: number;
   wordCount?: number;
   mimeType?: string;
+  // Character encoding text was decoded with, and how it was chosen
+  encoding?: string;
+  encodingConfidence?: number;
+  encodingSource?: 'bom' | 'detected' | 'override';
+  // Email headers. The date is an ISO 8601 string and the thread id the
+  // Message-ID of the first message in the conversation.
+  from?: string;
+  to?: string[];
+  cc?: string[];
+  subject?: string;
+  date?: string;
+  messageId?: string;
+  inReplyTo?: string;
+  references?: string[];
+  threadId?: string;
+  tags?: string[];
   [key: string]: any;
 }
 
+// Location of a page within the extracted full text
+export interface PageSpan {
+  pageNumber: number;
+  startIndex: number;
+  endIndex: number;
+}
+
+// Location of a heading's section within the extracted full text. The path
+// lists the titles of all enclosing headings, outermost first.
+export interface SectionSpan {
+  title: string;
+  level: number;
+  path: string[];
+  startIndex: number;
+  endIndex: number;
+}
+
+// Location of a presentation slide within the extracted full text
+export interface SlideSpan {
+  slideNumber: number;
+  title: string;
+  startIndex: number;
+  endIndex: number;
+  hasNotes: boolean;
+}
+
+// Location of a spreadsheet row's record within the extracted full text.
+// Row and column numbers are 1-based, as shown in the spreadsheet.
+export interface RowSpan {
+  sheet: string;
+  rowNumber: number;
+  firstColumn: number;
+  lastColumn: number;
+  startIndex: number;
+  endIndex: number;
+}
+
+export interface BoundingBox {
+  x0: number;
+  y0: number;
+  x1: number;
+  y1: number;
+}
+
+// A line of OCR text with its position on the page and the engine's
+// confidence (0-1). Offsets point into the extracted full text.
+export interface LayoutRegion {
+  text: string;
+  bbox: BoundingBox;
+  confidence: number;
+  pageNumber?: number;
+  startIndex: number;
+  endIndex: number;
+}
+
+// Tabular data found in a file, as CSV with a header row. Sheets of a
+// workbook are named; a CSV file's single table is not.
+export interface TabularData {
+  sheet?: string;
+  csv: string;
+}
+
+// A file contained in another, such as a member of a ZIP archive
+export interface ExtractedFile {
+  path: string;
+  data: ArrayBuffer;
+}
+
+// Output of a file processor
+export interface ExtractionResult {
+  text: string;
+  metadata: DocumentMetadata;
+  pages?: PageSpan[];
+  sections?: SectionSpan[];
+  slides?: SlideSpan[];
+  rows?: RowSpan[];
+  regions?: LayoutRegion[];
+  tables?: TabularData[];
+  // Contained files, each indexed as a document of its own
+  children?: ExtractedFile[];
+}
+
 export interface DocumentContent {
   fullText: string;
   chunks: DocumentChunk[];
 }
 
+// A named entity found in a chunk, e.g. a person or an organization
+export interface ChunkEntity {
+  type: string;
+  name: string;
+}
+
 export interface DocumentChunk {
   id: string;
   documentId: string;
   text: string;
   embedding?: Float32Array;
+  // Model the embedding was computed with
+  embeddingModel?: string;
+  // Extracted in the worker pool along with the embedding
+  entities?: ChunkEntity[];
   metadata: {
     pageNumber?: number;
+    pageEnd?: number;
     paragraph?: number;
     section?: string;
+    slideNumber?: number;
+    slideTitle?: string;
+    sheetName?: string;
+    rowStart?: number;
+    rowEnd?: number;
+    cellRange?: string;
     startIndex: number;
     endIndex: number;
     [key: string]: any;
@@ -50,8 +185,15 @@ export type SearchResult = {
   matchPercentage: number;
   metadata: {
     pageNumber?: number;
+    pageEnd?: number;
     paragraph?: number;
     section?: string;
+    slideNumber?: number;
+    slideTitle?: string;
+    sheetName?: string;
+    rowStart?: number;
+    rowEnd?: number;
+    cellRange?: string;
     [key: string]: any;
   };
 };
@@ -71,11 +213,101 @@ export interface Stats {
   lastIndexed: Date | null;
 }
 
+export type IngestionStatus =
+  | 'queued'
+  | 'running'
+  | 'paused'
+  | 'complete'
+  | 'duplicate'
+  | 'failed'
+  | 'cancelled';
+
+// A file waiting in or handled by the ingestion queue. Unfinished jobs are
+// kept in IndexedDB, file included, so they can resume after a reload.
+export interface IngestionJob {
+  id: string;
+  file: File;
+  chunking?: {
+    strategy?: string;
+    params?: Record<string, number>;
+  };
+  // Character encoding to decode text files with instead of detecting it
+  encoding?: string;
+  // Process the file even if identical content is already indexed
+  reindex?: boolean;
+  // Archive a re-processed file was extracted from, and its path inside it
+  parentId?: string;
+  archivePath?: string;
+  // Document the file is uploaded as a new version of
+  versionOf?: string;
+  status: IngestionStatus;
+  progress: number;
+  // Chunks embedded so far while the job is running
+  chunks?: ChunkProgress;
+  error?: string;
+  createdAt: number;
+}
+
+// Narrows a search to documents matching every filter that is set. Dates
+// are inclusive; a document's own created and modified dates are used when
+// it has them, and the date it was indexed otherwise.
+export interface SearchFilters {
+  documentTypes?: string[];
+  sources?: Array<Document['source']>;
+  authors?: string[];
+  createdFrom?: Date;
+  createdTo?: Date;
+  modifiedFrom?: Date;
+  modifiedTo?: Date;
+  // Documents with any of these tags
+  tags?: string[];
+  documentIds?: string[];
+}
+
+// How search results are spread over documents: as ranked, by maximal
+// marginal relevance, or with at most a few results per document ahead of
+// the rest
+export type DiversityMode = 'off' | 'mmr' | 'per-document';
+
+export interface SearchDiversity {
+  mode: DiversityMode;
+  // MMR weight of relevance against difference from results above, 0 to 1
+  lambda: number;
+  maxPerDocument: number;
+}
+
+// How stored embeddings are encoded: 4 bytes, 1 byte or 1 bit per dimension
+export type EmbeddingQuantization = 'float32' | 'int8' | 'binary';
+
+export type QuantizedEmbedding =
+  | { quantization: 'float32'; values: Float32Array }
+  // values * scale approximates the original vector
+  | { quantization: 'int8'; values: Int8Array; scale: number }
+  // The sign of each dimension, packed 8 to a byte
+  | { quantization: 'binary'; values: Uint8Array; dimensions: number };
+
+// A chunk's embedding as stored, tagged with the model that computed it
+export interface StoredEmbedding {
+  chunkId: string;
+  documentId: string;
+  embedding: QuantizedEmbedding;
+  model: string;
+  dimensions: number;
+}
+
+export interface ChunkProgress {
+  processed: number;
+  total: number;
+}
+
 export interface ProcessingStatus {
   overall: number;
   files: {
     id: string;
     name: string;
     progress: number;
+    chunks?: ChunkProgress;
+    status?: IngestionStatus;
+    error?: string;
   }[];
 }
@@ -1,9 +1,11 @@
 
-import { Document, DocumentChunk } from '@/types';
+import { DocumentChunk } from '@/types';
 import { pipeline } from '@xenova/transformers';
+import { generateEmbeddingBatch } from '@/lib/languageProcessing';
+import { NER_MODEL } from '@shared/offlineAssets';
 
 // Initialize NER pipeline at module level
-const nerPipeline = pipeline('token-classification', 'Xenova/bert-base-NER');
+const nerPipeline = pipeline('token-classification', NER_MODEL);
 let nerPipelineInstance: any = null;
 
 // Initialize NER pipeline
@@ -24,33 +26,71 @@ async function extractEntities(text: string) {
   }));
 }
 
-// Process document chunks
-async function processChunks(chunks: DocumentChunk[]) {
+// Embed a batch of chunks together with the given model
+async function embedChunks(chunks: DocumentChunk[], model: string) {
+  const embeddings = await generateEmbeddingBatch(chunks.map(chunk => chunk.text), model);
+  return chunks.map((chunk, i) => ({
+    ...chunk,
+    embedding: embeddings[i],
+    embeddingModel: model
+  }));
+}
+
+// Extract entities chunk by chunk, reporting how many chunks are done as it
+// goes
+async function addEntities(chunks: DocumentChunk[], requestId: string) {
   const processedChunks = [];
   
-  for (const chunk of chunks) {
-    const entities = await extractEntities(chunk.text);
+  for (let i = 0; i < chunks.length; i++) {
+    const entities = await extractEntities(chunks[i].text);
     processedChunks.push({
-      ...chunk,
+      ...chunks[i],
       entities
     });
+    self.postMessage({ type: 'PROCESSING_PROGRESS', payload: i + 1, requestId });
   }
   
   return processedChunks;
 }
 
+// Process a batch of document chunks: embed them together, then extract
+// their entities
+async function processChunks(chunks: DocumentChunk[], model: string, requestId: string) {
+  return addEntities(await embedChunks(chunks, model), requestId);
+}
+
+// Hand the embedding buffers over instead of copying them
+function complete(chunks: DocumentChunk[], requestId: string) {
+  (self as unknown as Worker).postMessage(
+    { type: 'PROCESSING_COMPLETE', payload: chunks, requestId },
+    chunks.filter(chunk => chunk.embedding).map(chunk => chunk.embedding!.buffer)
+  );
+}
+
 // Handle worker messages
 self.onmessage = async (e) => {
-  const { type, payload } = e.data;
+  const { type, payload, requestId } = e.data;
   
-  switch (type) {
-    case 'PROCESS_DOCUMENT':
-      try {
-        const processedChunks = await processChunks(payload.chunks);
-        self.postMessage({ type: 'PROCESSING_COMPLETE', payload: processedChunks });
-      } catch (error) {
-        self.postMessage({ type: 'PROCESSING_ERROR', payload: error.message });
+  try {
+    switch (type) {
+      case 'PROCESS_DOCUMENT':
+        complete(await processChunks(payload.chunks, payload.model, requestId), requestId);
+        break;
+        
+      // Re-embed chunks that already have their entities
+      case 'EMBED_CHUNKS': {
+        const embedded = await embedChunks(payload.chunks, payload.model);
+        self.postMessage({ type: 'PROCESSING_PROGRESS', payload: embedded.length, requestId });
+        complete(embedded, requestId);
+        break;
       }
-      break;
+        
+      // Extract entities only, for chunks indexed without them
+      case 'EXTRACT_ENTITIES':
+        complete(await addEntities(payload.chunks, requestId), requestId);
+        break;
+    }
+  } catch (error) {
+    self.postMessage({ type: 'PROCESSING_ERROR', payload: (error as Error).message, requestId });
   }
 };
@@ -0,0 +1,152 @@
+// Copy or download the assets listed in shared/offlineAssets.ts into the
+// vendor directory the server serves them from, and check every file
+// against its SHA-256 checksum in vendor.lock.json. A file with no checksum
+// in the lock file fails, unless --update-lock is given to record it; review
+// and commit the lock file afterwards.
+//
+//   npm run setup:assets                   the default embedding model
+//   npm run setup:assets -- --model <id>   another registered model as well
+//   npm run setup:assets -- --all-models   every registered embedding model
+//   npm run setup:assets -- --update-lock  record the checksums of files
+//                                          fetched now, e.g. after upgrading
+//                                          a package or adding a model
+//
+// For an air-gapped install, run it where the internet is reachable, then
+// copy the vendor directory and lock file over and run it there again.
+import { createHash } from "crypto";
+import fs from "fs";
+import path from "path";
+import { Readable } from "stream";
+import { pipeline } from "stream/promises";
+import type { ReadableStream } from "stream/web";
+import {
+  OCR_LANGUAGES,
+  offlineAssets,
+  type OfflineAsset,
+} from "../shared/offlineAssets";
+import {
+  DEFAULT_EMBEDDING_MODEL,
+  getEmbeddingModel,
+  getEmbeddingModels,
+} from "../client/src/lib/embeddingModels";
+
+const root = path.resolve(import.meta.dirname, "..");
+const vendorDir = process.env.OFFLINE_ASSETS_DIR || path.join(root, "vendor");
+const lockFile = path.join(root, "vendor.lock.json");
+
+interface Options {
+  models: string[];
+  updateLock: boolean;
+}
+
+function parseArgs(args: string[]): Options {
+  const options: Options = { models: [DEFAULT_EMBEDDING_MODEL], updateLock: false };
+
+  for (let i = 0; i < args.length; i++) {
+    if (args[i] === "--update-lock") {
+      options.updateLock = true;
+    } else if (args[i] === "--all-models") {
+      options.models = getEmbeddingModels().map((model) => model.id);
+    } else if (args[i] === "--model" && args[i + 1]) {
+      options.models.push(getEmbeddingModel(args[++i]).id);
+    } else {
+      throw new Error(`Unknown argument: ${args[i]}`);
+    }
+  }
+
+  return options;
+}
+
+async function sha256(file: string): Promise<string> {
+  const hash = createHash("sha256");
+  for await (const chunk of fs.createReadStream(file)) {
+    hash.update(chunk);
+  }
+  return hash.digest("hex");
+}
+
+// Fetch an asset next to its destination; the caller moves it into place
+// once its checksum is known to be right
+async function fetchAsset(asset: OfflineAsset, destination: string): Promise<string> {
+  const download = `${destination}.download`;
+  await fs.promises.mkdir(path.dirname(destination), { recursive: true });
+
+  if ("package" in asset.source) {
+    const { package: name, file } = asset.source;
+    await fs.promises.copyFile(path.join(root, "node_modules", name, file), download);
+    return download;
+  }
+
+  const response = await fetch(asset.source.url);
+  if (!response.ok || !response.body) {
+    throw new Error(`${asset.source.url} returned ${response.status}`);
+  }
+  await pipeline(
+    Readable.fromWeb(response.body as ReadableStream<Uint8Array>),
+    fs.createWriteStream(download),
+  );
+  return download;
+}
+
+async function main() {
+  const options = parseArgs(process.argv.slice(2));
+  const lock: Record<string, string> = fs.existsSync(lockFile)
+    ? JSON.parse(await fs.promises.readFile(lockFile, "utf-8"))
+    : {};
+
+  let recorded = 0;
+  let failed = 0;
+
+  for (const asset of offlineAssets(options.models, OCR_LANGUAGES)) {
+    const destination = path.join(vendorDir, asset.path);
+    const expected = lock[asset.path];
+
+    try {
+      if (expected && fs.existsSync(destination) && (await sha256(destination)) === expected) {
+        console.log(`ok        ${asset.path}`);
+        continue;
+      }
+      if (!expected && !options.updateLock) {
+        throw new Error("no checksum in vendor.lock.json, run with --update-lock to record it");
+      }
+
+      const download = await fetchAsset(asset, destination);
+      const actual = await sha256(download);
+      if (expected && actual !== expected && !options.updateLock) {
+        await fs.promises.rm(download);
+        throw new Error(`checksum mismatch, expected ${expected} but got ${actual}`);
+      }
+      await fs.promises.rename(download, destination);
+
+      if (actual === expected) {
+        console.log(`fetched   ${asset.path}`);
+      } else {
+        lock[asset.path] = actual;
+        recorded++;
+        console.log(`recorded  ${asset.path}`);
+      }
+    } catch (error) {
+      failed++;
+      console.error(`failed    ${asset.path}: ${(error as Error).message}`);
+    }
+  }
+
+  if (recorded > 0) {
+    const sorted = Object.fromEntries(
+      Object.keys(lock).sort().map((key) => [key, lock[key]]),
+    );
+    await fs.promises.writeFile(lockFile, JSON.stringify(sorted, null, 2) + "\n");
+    console.log(`Recorded ${recorded} checksums in vendor.lock.json, review and commit it`);
+  }
+
+  if (failed > 0) {
+    console.error(`${failed} assets could not be set up`);
+    process.exit(1);
+  }
+  console.log(`Assets are ready in ${vendorDir}`);
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
@@ -0,0 +1,29 @@
+import express, { type Express } from "express";
+import fs from "fs";
+import path from "path";
+import { OFFLINE_ASSETS_PATH } from "@shared/offlineAssets";
+import { log } from "./vite";
+
+// Serve the models, WASM builds and workers fetched by `npm run setup:assets`
+export function serveOfflineAssets(app: Express) {
+  const assetsPath =
+    process.env.OFFLINE_ASSETS_DIR || path.resolve(import.meta.dirname, "..", "vendor");
+
+  if (!fs.existsSync(assetsPath)) {
+    log(`no offline assets in ${assetsPath}, run \`npm run setup:assets\``);
+  }
+
+  app.use(
+    OFFLINE_ASSETS_PATH,
+    express.static(assetsPath, {
+      // a missing asset is a 404, not the client's index.html
+      fallthrough: false,
+      maxAge: "1d",
+      setHeaders: (res, filePath) => {
+        if (filePath.endsWith(".mjs")) {
+          res.setHeader("Content-Type", "text/javascript");
+        }
+      },
+    }),
+  );
+}
@@ -1,6 +1,7 @@
 import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
+import { serveOfflineAssets } from "./assets";
 
 const app = express();
 app.use(express.json());
@@ -37,6 +38,7 @@ app.use((req, res, next) => {
 });
 
 (async () => {
+  serveOfflineAssets(app);
   const server = await registerRoutes(app);
 
   app.use((err: any, _req: Request, res: Response, _next: NextFunction) => {
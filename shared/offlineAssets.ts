@@ -0,0 +1,73 @@
+// Assets the client would otherwise load from CDNs at runtime. They are
+// vendored so the app also works without internet access:
+// `npm run setup:assets` copies or downloads them into the vendor directory,
+// checks them against vendor.lock.json, and the server serves that
+// directory under OFFLINE_ASSETS_PATH.
+
+export const OFFLINE_ASSETS_PATH = "/vendor";
+
+export interface OfflineAsset {
+  // Path inside the vendor directory, and below OFFLINE_ASSETS_PATH
+  path: string;
+  // Copied from an installed package, or downloaded
+  source: { package: string; file: string } | { url: string };
+}
+
+// English plus Hindi/Devanagari; both traineddata files are loaded into one
+// OCR worker
+export const OCR_LANGUAGES = ["eng", "hin"];
+
+// Model used for entity extraction while indexing
+export const NER_MODEL = "Xenova/bert-base-NER";
+
+// Files transformers.js loads for a model, with quantized weights
+const MODEL_FILES = [
+  "config.json",
+  "tokenizer.json",
+  "tokenizer_config.json",
+  "onnx/model_quantized.onnx",
+];
+
+// Traineddata for tesseract's LSTM engine, as tesseract.js fetches it, at a
+// fixed package version so its checksum in vendor.lock.json stays valid
+const OCR_LANGUAGE_DATA = "https://cdn.jsdelivr.net/npm/@tesseract.js-data";
+const OCR_LANGUAGE_DATA_VERSION = "1.0.0";
+
+const packageAssets: Array<{ path: string; package: string; file: string }> = [
+  // DuckDB builds for browsers with and without WASM exceptions
+  { path: "duckdb/duckdb-mvp.wasm", package: "@duckdb/duckdb-wasm", file: "dist/duckdb-mvp.wasm" },
+  { path: "duckdb/duckdb-browser-mvp.worker.js", package: "@duckdb/duckdb-wasm", file: "dist/duckdb-browser-mvp.worker.js" },
+  { path: "duckdb/duckdb-eh.wasm", package: "@duckdb/duckdb-wasm", file: "dist/duckdb-eh.wasm" },
+  { path: "duckdb/duckdb-browser-eh.worker.js", package: "@duckdb/duckdb-wasm", file: "dist/duckdb-browser-eh.worker.js" },
+  { path: "pdfjs/pdf.worker.min.mjs", package: "pdfjs-dist", file: "build/pdf.worker.min.mjs" },
+  // The ONNX runtime transformers.js runs models with
+  { path: "onnxruntime/ort-wasm.wasm", package: "@xenova/transformers", file: "dist/ort-wasm.wasm" },
+  { path: "onnxruntime/ort-wasm-simd.wasm", package: "@xenova/transformers", file: "dist/ort-wasm-simd.wasm" },
+  { path: "onnxruntime/ort-wasm-threaded.wasm", package: "@xenova/transformers", file: "dist/ort-wasm-threaded.wasm" },
+  { path: "onnxruntime/ort-wasm-simd-threaded.wasm", package: "@xenova/transformers", file: "dist/ort-wasm-simd-threaded.wasm" },
+  // Tesseract's worker and its LSTM-only engines, with and without SIMD
+  { path: "tesseract/worker.min.js", package: "tesseract.js", file: "dist/worker.min.js" },
+  { path: "tesseract/tesseract-core-lstm.wasm.js", package: "tesseract.js-core", file: "tesseract-core-lstm.wasm.js" },
+  { path: "tesseract/tesseract-core-simd-lstm.wasm.js", package: "tesseract.js-core", file: "tesseract-core-simd-lstm.wasm.js" },
+];
+
+export function modelAssets(modelId: string): OfflineAsset[] {
+  return MODEL_FILES.map((file) => ({
+    path: `models/${modelId}/${file}`,
+    source: { url: `https://huggingface.co/${modelId}/resolve/main/${file}` },
+  }));
+}
+
+// Everything the client needs, with the given models and OCR languages
+export function offlineAssets(models: string[], ocrLanguages: string[]): OfflineAsset[] {
+  return [
+    ...packageAssets.map(({ path, ...source }) => ({ path, source })),
+    ...ocrLanguages.map((lang) => ({
+      path: `tesseract/lang/${lang}.traineddata.gz`,
+      source: {
+        url: `${OCR_LANGUAGE_DATA}/${lang}@${OCR_LANGUAGE_DATA_VERSION}/4.0.0_best_int/${lang}.traineddata.gz`,
+      },
+    })),
+    ...Array.from(new Set([NER_MODEL, ...models])).flatMap(modelAssets),
+  ];
+}